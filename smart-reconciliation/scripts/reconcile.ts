@@ -0,0 +1,114 @@
+/**
+ * Headless reconciliation for scheduled jobs, sharing the core with `POST /api/reconcile`:
+ *
+ *   npm run reconcile -- --statement bank.csv --ledger gl.csv [--config cfg.json] [--rules rules.json]
+ *     [--fx-rates rates.csv] [--statement-currency USD] [--out result.json]
+ *
+ * The npm script runs tsx with this package's tsconfig, which maps the `@/` imports, so it works from any directory
+ * inside the project. File paths are read relative to the directory the command was started in.
+ *
+ * There is deliberately no `bin` entry: the package is private and never installed, and the `@/` imports only resolve
+ * through tsx and this package's tsconfig, which an installed `reconcile` command would run without.
+ *
+ * Exit codes: 0 when everything reconciled, 1 when exceptions remain, 2 when the inputs are invalid, 3 when the
+ * reconciliation itself fails.
+ */
+import { readFile as readFileAt, writeFile as writeFileAt } from "node:fs/promises";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  ReconcileDataError,
+  ReconcileRequestError,
+  reconcileRequest,
+  type ReconcileResponse,
+} from "@/lib/reconcileApi";
+
+const USAGE =
+  "Usage: npm run reconcile -- --statement <file.csv> --ledger <file.csv> [--config <cfg.json>] [--rules <rules.json>] " +
+  "[--fx-rates <rates.csv>] [--statement-currency <ISO>] [--out <result.json>]";
+
+/** npm runs scripts from the package root; `INIT_CWD` is where the user typed the command. */
+const WORKING_DIRECTORY = process.env.INIT_CWD ?? process.cwd();
+
+function readFile(path: string, encoding: "utf8") {
+  return readFileAt(resolve(WORKING_DIRECTORY, path), encoding);
+}
+
+function writeFile(path: string, data: string) {
+  return writeFileAt(resolve(WORKING_DIRECTORY, path), data);
+}
+
+async function readJson(path: string | undefined) {
+  if (!path) return undefined;
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as unknown;
+  } catch (err) {
+    throw new Error(`${path}: ${err instanceof Error ? err.message : "could not be read as JSON"}`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      statement: { type: "string" },
+      ledger: { type: "string" },
+      config: { type: "string" },
+      rules: { type: "string" },
+      "fx-rates": { type: "string" },
+      "statement-currency": { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help || !values.statement || !values.ledger) {
+    console.error(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const fxRates = values["fx-rates"];
+  const statementCurrency = values["statement-currency"];
+  const request = {
+    statement: await readFile(values.statement, "utf8"),
+    ledger: await readFile(values.ledger, "utf8"),
+    config: await readJson(values.config),
+    rules: await readJson(values.rules),
+    fx:
+      fxRates || statementCurrency
+        ? { statementCurrency, rates: fxRates ? await readFile(fxRates, "utf8") : undefined }
+        : undefined,
+  };
+  let response: ReconcileResponse;
+  try {
+    response = reconcileRequest(request);
+  } catch (err) {
+    if (err instanceof ReconcileRequestError || err instanceof ReconcileDataError) throw err;
+    console.error(err);
+    return 3;
+  }
+
+  const output = JSON.stringify(response, null, 2);
+  if (values.out) await writeFile(values.out, `${output}\n`);
+  else console.log(output);
+
+  const { summary } = response;
+  console.error(
+    `Matched ${summary.matched}, aggregated ${summary.aggregated}, coverage ${summary.coverage.toFixed(0)}%, ` +
+      `${summary.exceptions} exception(s) remaining.`,
+  );
+  return summary.exceptions > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    if (err instanceof ReconcileRequestError) {
+      console.error(err.message);
+      for (const issue of err.issues) console.error(`  ${issue.path}: ${issue.message}`);
+    } else {
+      console.error(err instanceof Error ? err.message : err);
+    }
+    process.exitCode = 2;
+  },
+);
@@ -0,0 +1,61 @@
+import { ReconcileDataError, ReconcileRequestError, apiError, reconcileRequest } from "@/lib/reconcileApi";
+
+/**
+ * `POST /api/reconcile` runs the matching pipeline headlessly. Send either a JSON body (see `ReconcileRequest`) or
+ * a multipart form with `statement` and `ledger` CSV files and optional `config`, `rules` and `fx` JSON fields.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  const contentType = request.headers.get("content-type") ?? "";
+  try {
+    if (contentType.includes("application/json")) {
+      body = await request.json();
+    } else if (contentType.includes("multipart/form-data")) {
+      body = await readForm(await request.formData());
+    } else {
+      return Response.json(apiError("unsupported_media_type", "Send application/json or multipart/form-data."), {
+        status: 415,
+      });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "The request body could not be read.";
+    return Response.json(apiError("invalid_request", message), { status: 400 });
+  }
+
+  try {
+    return Response.json(reconcileRequest(body));
+  } catch (err) {
+    if (err instanceof ReconcileRequestError) {
+      return Response.json(apiError("invalid_request", err.message, err.issues), { status: 400 });
+    }
+    if (err instanceof ReconcileDataError) {
+      return Response.json(apiError("unprocessable", err.message), { status: 422 });
+    }
+    console.error(err);
+    return Response.json(apiError("internal", "Unexpected error during reconciliation."), { status: 500 });
+  }
+}
+
+async function readForm(form: FormData) {
+  const text = async (name: string) => {
+    const value = form.get(name);
+    if (value === null) return undefined;
+    return typeof value === "string" ? value : value.text();
+  };
+  const json = async (name: string) => {
+    const value = await text(name);
+    if (value === undefined) return undefined;
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      throw new Error(`The "${name}" field must be valid JSON.`);
+    }
+  };
+  return {
+    statement: await text("statement"),
+    ledger: await text("ledger"),
+    config: await json("config"),
+    rules: await json("rules"),
+    fx: await json("fx"),
+  };
+}
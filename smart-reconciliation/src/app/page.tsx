@@ -1,72 +1,524 @@
 "use client";
 
-import { useMemo, useState } from "react";
-import { parseCsv } from "@/lib/csv";
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AgeingReport } from "@/components/AgeingReport";
+import { BalanceProofReport } from "@/components/BalanceProofReport";
+import { CategorisationPanel } from "@/components/CategorisationPanel";
+import { CategorySummary } from "@/components/CategorySummary";
+import { DataQualityPanel } from "@/components/DataQualityPanel";
+import { EngineProfilePanel } from "@/components/EngineProfilePanel";
+import { ExceptionWorkbench } from "@/components/ExceptionWorkbench";
+import { ExportPanel } from "@/components/ExportPanel";
+import { FxSettingsPanel } from "@/components/FxSettingsPanel";
+import { ImportWizard } from "@/components/ImportWizard";
+import { MatchingRulesEditor } from "@/components/MatchingRulesEditor";
+import { ReviewCardFooter, ReviewControls, ReviewStateBadge, ReviewThread } from "@/components/MatchReview";
+import { ParameterSweepPanel } from "@/components/ParameterSweepPanel";
+import { ScoreBreakdownDrillDown } from "@/components/ScoreBreakdownView";
+import { StatementDropZone } from "@/components/StatementDropZone";
+import { EMPTY_BALANCES, buildBalanceProof, parseBalanceInput, type BalanceInputs } from "@/lib/balanceProof";
+import { DEFAULT_ESCALATION_DAYS, buildAgeingReport, loadCarryForward, type CarryForward } from "@/lib/carryForward";
+import {
+  EMPTY_CATEGORY_OVERRIDES,
+  chartCategories,
+  loadCategorisation,
+  recategoriseRun,
+  saveCategorisation,
+  summarizeCategories,
+  type CategorisationSettings,
+  type CategoryOverrides,
+} from "@/lib/categorisation";
+import { EMPTY_EXCLUSIONS, analyzeDataQuality, type DataQualityReport, type Exclusions } from "@/lib/dataQuality";
+import { DEFAULT_ENGINE_CONFIG, describeConfigIssues } from "@/lib/engineConfig";
+import { loadActiveProfileId, loadEngineProfiles, saveActiveProfileId, type EngineProfile } from "@/lib/engineProfiles";
+import { parseRunExport } from "@/lib/export";
 import { formatCurrency } from "@/lib/format";
-import { reconcileTransactions } from "@/lib/matching";
-import { normalizeDataset } from "@/lib/normalization";
+import { DEFAULT_FX_SETTINGS, summarizeFx, type FxSettings } from "@/lib/fx";
+import { isCanonicalHeader } from "@/lib/importMapping";
+import { loadLearnedRules, recordRuleUses, rememberDecisions, type LearnedRuleUse } from "@/lib/learnedRules";
+import { PIPELINE_STAGE_LABELS, overallProgress, prepareDatasets, type PipelineStage } from "@/lib/pipeline";
+import { useHydrated } from "@/lib/hydration";
+import { useVirtualRows } from "@/lib/virtualRows";
+import { CANCELLED_MESSAGE, startReconciliation, type ReconciliationTask } from "@/lib/reconcileWorker";
+import {
+  ALL_REVIEW_ITEMS,
+  REVIEW_STATES,
+  SCORE_BANDS,
+  buildReviewIndex,
+  bulkAcceptExact,
+  createReviewEntryId,
+  loadReviewer,
+  matchesReviewFilter,
+  reviewCompletion,
+  reviewKey,
+  saveReviewer,
+  validateReviewEntry,
+  type ReviewAction,
+  type ReviewEntry,
+  type ReviewFilter,
+} from "@/lib/review";
+import { loadMatchingRules, saveMatchingRules, type MatchingRule, type RuleLogEntry } from "@/lib/ruleEngine";
 import { sampleLedgerCsv, sampleStatementCsv } from "@/lib/sampleData";
-import type { EngineConfig, ReconciliationRun } from "@/lib/types";
+import { STATEMENT_FORMAT_LABELS, type ParsedStatement } from "@/lib/statementImport";
+import {
+  createSession,
+  currentPeriod,
+  getSessionStorage,
+  isLocked,
+  saveSession,
+  type ReconciliationSession,
+} from "@/lib/sessions";
+import type { EngineConfig } from "@/lib/types";
+import {
+  DIFFERENCE_REASON_CODES,
+  applyManualDecisions,
+  createDecisionId,
+  describeReasonCode,
+  summarizeRun,
+  type DifferenceReasonCode,
+  type EngineRun,
+  type ManualDecision,
+} from "@/lib/workbench";
 
-const DEFAULT_CONFIG: EngineConfig = {
-  dateToleranceDays: 3,
-  descriptionThreshold: 0.8,
-  amountTolerance: 0.01,
-  aggregationAmountTolerance: 5,
-  aggregationMaxGroupSize: 5,
-};
+function describeTransactions(transactions: { description: string; amount: number }[]) {
+  return transactions.map((tx) => `${tx.description} (${formatCurrency(tx.amount)})`).join("; ");
+}
 
+/** The workspace starts from the rules, profiles and settings saved in this browser, so it renders once hydrated. */
 export default function Home() {
+  return useHydrated() ? <Workspace /> : null;
+}
+
+function Workspace() {
   const [statementInput, setStatementInput] = useState(sampleStatementCsv);
   const [ledgerInput, setLedgerInput] = useState(sampleLedgerCsv);
-  const [config, setConfig] = useState<EngineConfig>(DEFAULT_CONFIG);
-  const [result, setResult] = useState<ReconciliationRun | null>(null);
+  const [engineProfiles, setEngineProfiles] = useState<EngineProfile[]>(loadEngineProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(
+    () => engineProfiles.find((profile) => profile.id === loadActiveProfileId())?.id ?? null,
+  );
+  const [config, setConfig] = useState<EngineConfig>(() => {
+    const active = engineProfiles.find((profile) => profile.id === activeProfileId);
+    // A session link brings its own settings.
+    return active && !new URLSearchParams(window.location.search).get("session")
+      ? active.config
+      : DEFAULT_ENGINE_CONFIG;
+  });
+  const [engineRun, setEngineRun] = useState<EngineRun | null>(null);
+  const [decisions, setDecisions] = useState<ManualDecision[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [workbenchError, setWorkbenchError] = useState<string | null>(null);
+  const [differenceReasons, setDifferenceReasons] = useState<Record<string, DifferenceReasonCode>>({});
+  const [session, setSession] = useState<ReconciliationSession | null>(null);
+  const [sessionName, setSessionName] = useState("Untitled reconciliation");
+  const [sessionPeriod, setSessionPeriod] = useState(currentPeriod());
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
+  const [wizardTarget, setWizardTarget] = useState<"statement" | "ledger" | null>(null);
+  const [wizardText, setWizardText] = useState("");
+  /** Bumped each time the wizard opens, so a new file gets a fresh wizard without keying it on the file's text. */
+  const [wizardKey, setWizardKey] = useState(0);
+  const [statementFile, setStatementFile] = useState<{ statement: ParsedStatement; fileName: string } | null>(null);
+  const [balances, setBalances] = useState<BalanceInputs>(EMPTY_BALANCES);
+  const [fxSettings, setFxSettings] = useState<FxSettings>(DEFAULT_FX_SETTINGS);
+  const [qualityReport, setQualityReport] = useState<DataQualityReport | null>(null);
+  const [exclusions, setExclusions] = useState<Exclusions>(EMPTY_EXCLUSIONS);
+  const [carryForward, setCarryForward] = useState<CarryForward | null>(null);
+  const [escalationDays, setEscalationDays] = useState(DEFAULT_ESCALATION_DAYS);
+  const [ruleUses, setRuleUses] = useState<LearnedRuleUse[]>([]);
+  const [matchingRules, setMatchingRules] = useState<MatchingRule[]>(loadMatchingRules);
+  /** The engine profile whose rules are in effect instead of the saved rules, if any. */
+  const [rulesProfileName, setRulesProfileName] = useState<string | null>(null);
+  const [ruleLog, setRuleLog] = useState<RuleLogEntry[]>([]);
+  const [progress, setProgress] = useState<{ stage: PipelineStage; fraction: number } | null>(null);
+  const [review, setReview] = useState<ReviewEntry[]>([]);
+  const [reviewer, setReviewer] = useState(loadReviewer);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>(ALL_REVIEW_ITEMS);
+  const [bulkAcceptScore, setBulkAcceptScore] = useState(0.95);
+  const [threadKey, setThreadKey] = useState<string | null>(null);
+  const [categorisation, setCategorisation] = useState<CategorisationSettings>(loadCategorisation);
+  const [categoryOverrides, setCategoryOverrides] = useState<CategoryOverrides>(EMPTY_CATEGORY_OVERRIDES);
+  const runTask = useRef<ReconciliationTask | null>(null);
+
+  const locked = isLocked(session);
+  const activeProfile = engineProfiles.find((profile) => profile.id === activeProfileId) ?? null;
+  const configIssues = useMemo(() => describeConfigIssues(config), [config]);
+
+  useEffect(() => {
+    const sessionId = new URLSearchParams(window.location.search).get("session");
+    if (!sessionId) return;
+    getSessionStorage()
+      .get(sessionId)
+      .then((stored) => {
+        if (!stored) {
+          setSessionMessage("The requested session could not be found.");
+          return;
+        }
+        setSession(stored);
+        setSessionName(stored.name);
+        setSessionPeriod(stored.period);
+        setStatementInput(stored.statementInput);
+        setLedgerInput(stored.ledgerInput);
+        setConfig(stored.config);
+        setEngineRun(stored.run);
+        setDecisions(stored.decisions);
+        setBalances(stored.balances ?? EMPTY_BALANCES);
+        setFxSettings(stored.fx ?? DEFAULT_FX_SETTINGS);
+        setExclusions(stored.exclusions ?? EMPTY_EXCLUSIONS);
+        setEscalationDays(stored.escalationDays ?? DEFAULT_ESCALATION_DAYS);
+        setReview(stored.review ?? []);
+        setCategoryOverrides(stored.categoryOverrides ?? EMPTY_CATEGORY_OVERRIDES);
+      })
+      .catch((err) => setSessionMessage(err instanceof Error ? err.message : "Unable to open the session."));
+  }, []);
 
-  const stats = useMemo(() => {
-    if (!result) return null;
-    const totalStatement = result.matched.length + result.aggregated.length + result.unmatchedStatements.length;
-    const totalLedger = result.matched.length + result.aggregated.length + result.unmatchedLedger.length;
-    return {
-      totalStatement,
-      totalLedger,
-      matched: result.matched.length,
-      aggregated: result.aggregated.length,
-      unmatchedStatement: result.unmatchedStatements.length,
-      unmatchedLedger: result.unmatchedLedger.length,
-      coverage: totalLedger === 0 ? 0 : ((result.matched.length + result.aggregated.length) / totalLedger) * 100,
+  useEffect(() => {
+    // A signed-off session keeps the open items it was run with; otherwise take them from the last closed period.
+    let active = true;
+    const pending = locked ? Promise.resolve(session?.carryForward ?? null) : loadCarryForward(sessionPeriod);
+    pending
+      .then((found) => {
+        if (active) setCarryForward(found);
+      })
+      .catch(() => {
+        if (active) setCarryForward(null);
+      });
+    return () => {
+      active = false;
     };
-  }, [result]);
+  }, [locked, session, sessionPeriod]);
+
+  const result = useMemo(
+    () => (engineRun ? recategoriseRun(applyManualDecisions(engineRun, decisions), categoryOverrides) : null),
+    [engineRun, decisions, categoryOverrides],
+  );
+  // Tolerances the run was made with; the settings form may already hold edits for the next run.
+  const runConfig = engineRun?.config ?? config;
+  const stats = useMemo(() => (result ? summarizeRun(result) : null), [result]);
+  const categorySummary = useMemo(
+    () => (result ? summarizeCategories(result, categorisation.chart) : null),
+    [result, categorisation],
+  );
+  const balanceProof = useMemo(() => (result ? buildBalanceProof(result, balances) : null), [result, balances]);
+  const ageing = useMemo(
+    () => (result && sessionPeriod ? buildAgeingReport(result, sessionPeriod, escalationDays) : null),
+    [result, sessionPeriod, escalationDays],
+  );
+  const fxSummary = useMemo(
+    () => (result && engineRun?.fx?.length ? summarizeFx(result.matched, engineRun.fx) : null),
+    [result, engineRun],
+  );
+  const reviewIndex = useMemo(() => (result ? buildReviewIndex(result, review) : null), [result, review]);
+  const reviewStatus = useMemo(() => (reviewIndex ? reviewCompletion(reviewIndex) : null), [reviewIndex]);
+  const filteredMatches = useMemo(
+    () =>
+      (result?.matched ?? []).filter((match) => {
+        const item = reviewIndex?.get(reviewKey([match.statement.id], [match.ledger.id]));
+        return !item || matchesReviewFilter(item, reviewFilter);
+      }),
+    [result, reviewIndex, reviewFilter],
+  );
+  const matchedRows = useVirtualRows(filteredMatches, 72);
+  const explanationRows = useVirtualRows(result?.matched ?? [], 96);
+  const aggregationRows = useVirtualRows(result?.aggregated ?? [], 200);
+  const groupRows = useVirtualRows(result?.groups ?? [], 200);
+  const threadItem = threadKey ? (reviewIndex?.get(threadKey) ?? null) : null;
 
   const viewModel = result && stats ? { result, stats } : null;
 
-  function handleRun() {
+  function recordDecision(decision: ManualDecision) {
+    if (!engineRun || locked) return false;
+    try {
+      const stale = applyManualDecisions(engineRun, [...decisions, decision]).staleDecisions.find(
+        (entry) => entry.decision.id === decision.id,
+      );
+      if (stale) throw new Error(stale.reason);
+      setDecisions((previous) => [...previous, decision]);
+      setWorkbenchError(null);
+      return true;
+    } catch (err) {
+      setWorkbenchError(err instanceof Error ? err.message : "Unable to record the decision.");
+      return false;
+    }
+  }
+
+  function handleManualMatch(input: {
+    statementIds: string[];
+    ledgerIds: string[];
+    reasonCode?: DifferenceReasonCode;
+    note?: string;
+  }) {
+    return recordDecision({ kind: "match", id: createDecisionId(), decidedAt: new Date().toISOString(), ...input });
+  }
+
+  function handleUnmatch(statementIds: string[], ledgerId: string) {
+    recordDecision({
+      kind: "unmatch",
+      id: createDecisionId(),
+      statementIds,
+      ledgerIds: [ledgerId],
+      decidedAt: new Date().toISOString(),
+    });
+  }
+
+  function handleAcceptDifference(ledgerId: string) {
+    recordDecision({
+      kind: "accept-difference",
+      id: createDecisionId(),
+      ledgerId,
+      reasonCode: differenceReasons[ledgerId] ?? DIFFERENCE_REASON_CODES[0].code,
+      decidedAt: new Date().toISOString(),
+    });
+  }
+
+  function handleReview(key: string, action: ReviewAction, text?: string) {
+    const item = reviewIndex?.get(key);
+    if (!item || locked) return false;
+    const entry: ReviewEntry = {
+      id: createReviewEntryId(),
+      key,
+      action,
+      user: reviewer.trim(),
+      text: text?.trim(),
+      at: new Date().toISOString(),
+    };
+    try {
+      validateReviewEntry(item, entry);
+      setReview((previous) => [...previous, entry]);
+      setReviewError(null);
+      return true;
+    } catch (err) {
+      setReviewError(err instanceof Error ? err.message : "Unable to record the review.");
+      return false;
+    }
+  }
+
+  function handleBulkAccept() {
+    if (!reviewIndex || locked) return;
+    try {
+      const entries = bulkAcceptExact(reviewIndex, reviewer, bulkAcceptScore);
+      setReview((previous) => [...previous, ...entries]);
+      setReviewError(entries.length === 0 ? "No suggested exact matches score that high." : null);
+    } catch (err) {
+      setReviewError(err instanceof Error ? err.message : "Unable to accept the matches.");
+    }
+  }
+
+  function handleReviewerChange(name: string) {
+    setReviewer(name);
+    saveReviewer(name);
+  }
+
+  function handleCategoryChange(side: "statement" | "ledger", id: string, category: string) {
+    if (locked) return;
+    setCategoryOverrides((previous) => ({ ...previous, [side]: { ...previous[side], [id]: category } }));
+  }
+
+  function openWizard(target: "statement" | "ledger" | null, text = "") {
+    setWizardText(text);
+    setWizardKey((previous) => previous + 1);
+    setWizardTarget(target);
+  }
+
+  function handleUndoDecision(decisionId: string) {
+    if (locked) return;
+    setDecisions((previous) => previous.filter((decision) => decision.id !== decisionId));
+    setWorkbenchError(null);
+  }
+
+  async function handleSaveSession() {
+    try {
+      const base =
+        session ?? createSession({ name: sessionName, period: sessionPeriod, statementInput, ledgerInput, config });
+      const saved = await saveSession({
+        ...base,
+        name: sessionName.trim() || "Untitled reconciliation",
+        period: sessionPeriod,
+        statementInput,
+        ledgerInput,
+        config,
+        run: engineRun,
+        decisions,
+        balances,
+        fx: fxSettings,
+        exclusions,
+        carryForward,
+        escalationDays,
+        review,
+        categoryOverrides,
+      });
+      setSession(saved);
+      window.history.replaceState(null, "", `?session=${saved.id}`);
+      const learned = engineRun
+        ? rememberDecisions(engineRun, decisions, { period: saved.period, sessionName: saved.name })
+        : 0;
+      setSessionMessage(
+        `Saved at ${new Date(saved.updatedAt).toLocaleTimeString()}.${learned > 0 ? ` Learned ${learned} matching rules from your decisions.` : ""}`,
+      );
+    } catch (err) {
+      setSessionMessage(err instanceof Error ? err.message : "Unable to save the session.");
+    }
+  }
+
+  async function handleImportRun(file: File) {
     try {
+      const imported = parseRunExport(await file.text());
+      setSession(null);
+      setSessionName(imported.name);
+      setSessionPeriod(imported.period || currentPeriod());
+      setConfig(imported.config);
+      setEngineRun(imported.run);
+      setDecisions(imported.decisions);
+      setBalances(imported.balances ?? EMPTY_BALANCES);
+      setQualityReport(null);
+      setExclusions(EMPTY_EXCLUSIONS);
+      setReview(imported.review);
+      setThreadKey(null);
+      setCategoryOverrides(imported.categoryOverrides);
+      if (imported.fx) setFxSettings(imported.fx);
+      setRuleUses([]);
+      setRuleLog([]);
       setError(null);
-      const statementRows = parseCsv(statementInput, "statement");
-      const ledgerRows = parseCsv(ledgerInput, "ledger");
+      setWorkbenchError(null);
+      window.history.replaceState(null, "", window.location.pathname);
+      setSessionMessage(`Imported ${file.name}. Save it to keep it as a new session.`);
+    } catch (err) {
+      setSessionMessage(err instanceof Error ? err.message : "Unable to import the run.");
+    }
+  }
+
+  function handleApplyProfile(profile: EngineProfile) {
+    // The profile's rules drive the next runs, but the saved rules only change when the bookkeeper saves in the editor:
+    // the presets carry no rules and would otherwise wipe them.
+    const saved = loadMatchingRules();
+    setMatchingRules(profile.matchingRules);
+    setRulesProfileName(JSON.stringify(saved) === JSON.stringify(profile.matchingRules) ? null : profile.name);
+    setConfig(profile.config);
+    setActiveProfileId(profile.id);
+    saveActiveProfileId(profile.id);
+    setError(null);
+  }
+
+  function handleSaveMatchingRules(rules: MatchingRule[]) {
+    setMatchingRules(saveMatchingRules(rules));
+    setRulesProfileName(null);
+  }
 
-      if (statementRows.length === 0 || ledgerRows.length === 0) {
-        throw new Error("Please provide at least one row in both statement and ledger data.");
-      }
+  function handleRestoreMatchingRules() {
+    setMatchingRules(loadMatchingRules());
+    setRulesProfileName(null);
+  }
 
-      const statement = normalizeDataset(statementRows, "statement");
-      const ledger = normalizeDataset(ledgerRows, "ledger");
+  async function handleCompareProfile(profile: EngineProfile) {
+    const task = startReconciliation(
+      {
+        statementInput,
+        ledgerInput,
+        config: profile.config,
+        matchingRules: profile.matchingRules,
+        learnedRules: loadLearnedRules(),
+        fx: fxSettings,
+        exclusions,
+        carriedForward: carryForward,
+        categorisation,
+        categoryOverrides,
+      },
+      () => {},
+    );
+    return (await task.promise).run;
+  }
 
-      const reconciliation = reconcileTransactions(statement, ledger, config);
-      setResult(reconciliation);
+  async function handleRun() {
+    if (locked || runTask.current) return;
+    if (configIssues.length > 0) {
+      setError(configIssues.join(" "));
+      return;
+    }
+    setError(null);
+    setProgress({ stage: "parsing", fraction: 0 });
+    const task = startReconciliation(
+      {
+        statementInput,
+        ledgerInput,
+        config,
+        matchingRules,
+        learnedRules: loadLearnedRules(),
+        fx: fxSettings,
+        exclusions,
+        carriedForward: carryForward,
+        categorisation,
+        categoryOverrides,
+      },
+      (stage, fraction) => setProgress({ stage, fraction }),
+    );
+    runTask.current = task;
+    try {
+      const { run, uses, log } = await task.promise;
+      recordRuleUses(uses);
+      setRuleUses(uses);
+      setRuleLog(log);
+      // The decision log is replayed on the new run; decisions it no longer fits are listed as stale, not dropped.
+      setEngineRun(run);
+      setWorkbenchError(null);
     } catch (err) {
-      setResult(null);
-      setError(err instanceof Error ? err.message : "Unexpected error during reconciliation.");
+      const message = err instanceof Error ? err.message : "Unexpected error during reconciliation.";
+      if (message !== CANCELLED_MESSAGE) setEngineRun(null);
+      setError(message);
+    } finally {
+      runTask.current = null;
+      setProgress(null);
     }
   }
 
+  function handleCheckQuality() {
+    try {
+      setError(null);
+      const prepared = prepareDatasets({ statementInput, ledgerInput, fx: fxSettings });
+      setQualityReport(
+        analyzeDataQuality({
+          statement: prepared.statement,
+          ledger: prepared.ledger,
+          rawStatement: prepared.statementRows,
+          rawLedger: prepared.ledgerRows,
+          period: sessionPeriod,
+        }),
+      );
+    } catch (err) {
+      setQualityReport(null);
+      setError(err instanceof Error ? err.message : "Unable to check the data.");
+    }
+  }
+
+  function handleCancelRun() {
+    runTask.current?.cancel();
+  }
+
   function handleReset() {
+    runTask.current?.cancel();
     setStatementInput(sampleStatementCsv);
     setLedgerInput(sampleLedgerCsv);
-    setConfig(DEFAULT_CONFIG);
-    setResult(null);
+    setConfig(activeProfile?.config ?? DEFAULT_ENGINE_CONFIG);
+    setEngineRun(null);
+    setDecisions([]);
     setError(null);
+    setWorkbenchError(null);
+    setSession(null);
+    setSessionName("Untitled reconciliation");
+    setSessionPeriod(currentPeriod());
+    setSessionMessage(null);
+    setStatementFile(null);
+    setBalances(EMPTY_BALANCES);
+    setFxSettings(DEFAULT_FX_SETTINGS);
+    setQualityReport(null);
+    setExclusions(EMPTY_EXCLUSIONS);
+    setEscalationDays(DEFAULT_ESCALATION_DAYS);
+    setReview([]);
+    setReviewError(null);
+    setThreadKey(null);
+    setCategoryOverrides(EMPTY_CATEGORY_OVERRIDES);
+    setRuleUses([]);
+    setRuleLog([]);
+    window.history.replaceState(null, "", window.location.pathname);
   }
 
   return (
@@ -83,6 +535,68 @@ export default function Home() {
           </p>
         </header>
 
+        <section className="mb-6 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="min-w-[14rem] flex-1">
+              <label htmlFor="sessionName" className="mb-1 block text-sm font-medium text-slate-700">
+                Session
+              </label>
+              <input
+                id="sessionName"
+                type="text"
+                value={sessionName}
+                disabled={locked}
+                onChange={(event) => setSessionName(event.target.value)}
+                className="w-full rounded-md border border-slate-200 px-3 py-1.5 text-sm text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:bg-slate-50"
+              />
+            </div>
+            <div>
+              <label htmlFor="sessionPeriod" className="mb-1 block text-sm font-medium text-slate-700">
+                Period
+              </label>
+              <input
+                id="sessionPeriod"
+                type="month"
+                value={sessionPeriod}
+                disabled={locked}
+                onChange={(event) => setSessionPeriod(event.target.value)}
+                className="rounded-md border border-slate-200 px-3 py-1.5 text-sm text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500 disabled:bg-slate-50"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleSaveSession}
+              disabled={locked}
+              className="inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Save session
+            </button>
+            <label className="cursor-pointer rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-100">
+              Import run (.json)
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="sr-only"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  event.target.value = "";
+                  if (file) void handleImportRun(file);
+                }}
+              />
+            </label>
+            <Link href="/sessions" className="text-sm font-semibold text-sky-700 hover:text-sky-600">
+              Session history →
+            </Link>
+          </div>
+          {session?.signOff ? (
+            <p className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+              Period locked — signed off by <span className="font-semibold">{session.signOff.signedOffBy}</span> on{" "}
+              {new Date(session.signOff.signedOffAt).toLocaleString()}. This session is read-only.
+            </p>
+          ) : null}
+          {sessionMessage ? <p className="mt-3 text-xs text-slate-500">{sessionMessage}</p> : null}
+        </section>
+
         <section className="grid gap-6 lg:grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)]">
           <div className="space-y-6 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
             <h2 className="text-lg font-semibold text-slate-900">Data Inputs</h2>
@@ -91,42 +605,223 @@ export default function Home() {
               <code className="rounded bg-slate-100 px-1 py-0.5">date</code>,{" "}
               <code className="rounded bg-slate-100 px-1 py-0.5">description</code>,{" "}
               <code className="rounded bg-slate-100 px-1 py-0.5">amount</code>,{" "}
-              <code className="rounded bg-slate-100 px-1 py-0.5">type</code>.
+              <code className="rounded bg-slate-100 px-1 py-0.5">type</code>. Bank exports in any other layout can be
+              mapped with the import wizard.
             </p>
             <div className="space-y-4">
               <div>
-                <label htmlFor="statement" className="mb-2 block text-sm font-medium text-slate-700">
-                  Bank Statement
-                </label>
+                <div className="mb-2 flex items-center justify-between">
+                  <label htmlFor="statement" className="block text-sm font-medium text-slate-700">
+                    Bank Statement
+                  </label>
+                  {locked ? null : (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        openWizard(wizardTarget === "statement" ? null : "statement");
+                      }}
+                      className="text-xs font-semibold text-sky-700 hover:text-sky-600"
+                    >
+                      Import wizard
+                    </button>
+                  )}
+                </div>
+                {wizardTarget === "statement" ? (
+                  <div className="mb-3">
+                    <ImportWizard
+                      key={wizardKey}
+                      title="Map a bank statement export"
+                      initialText={wizardText}
+                      mapping={activeProfile?.importMapping}
+                      onApply={(csv) => {
+                        setStatementInput(csv);
+                        setWizardTarget(null);
+                      }}
+                      onClose={() => setWizardTarget(null)}
+                    />
+                  </div>
+                ) : null}
+                {locked ? null : (
+                  <div className="mb-3">
+                    <StatementDropZone
+                      onStatement={(statement, csv, fileName) => {
+                        setStatementInput(csv);
+                        setStatementFile({ statement, fileName });
+                        setBalances((previous) => ({
+                          ...previous,
+                          bankOpening: statement.openingBalance?.amount ?? previous.bankOpening,
+                          bankClosing: statement.closingBalance?.amount ?? previous.bankClosing,
+                        }));
+                        const currency = statement.currency;
+                        if (currency) setFxSettings((previous) => ({ ...previous, statementCurrency: currency }));
+                        setWizardTarget(null);
+                      }}
+                      onCsv={(text, fileName) => {
+                        setStatementFile(null);
+                        if (isCanonicalHeader(text.split(/\r?\n/)[0] ?? "")) {
+                          setStatementInput(text);
+                          return;
+                        }
+                        openWizard("statement", text);
+                        setSessionMessage(`${fileName} needs a column mapping before it can be used.`);
+                      }}
+                    />
+                  </div>
+                )}
+                {statementFile ? (
+                  <p className="mb-2 rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-600">
+                    {statementFile.fileName} · {STATEMENT_FORMAT_LABELS[statementFile.statement.format]}
+                    {statementFile.statement.accountId
+                      ? ` · account ${statementFile.statement.accountId}`
+                      : null} · {statementFile.statement.lines.length} lines
+                    {statementFile.statement.openingBalance
+                      ? ` · opening ${formatCurrency(statementFile.statement.openingBalance.amount)}`
+                      : null}
+                    {statementFile.statement.closingBalance
+                      ? ` · closing ${formatCurrency(statementFile.statement.closingBalance.amount)}`
+                      : null}
+                  </p>
+                ) : null}
                 <textarea
                   id="statement"
                   value={statementInput}
+                  readOnly={locked}
                   onChange={(event) => setStatementInput(event.target.value)}
                   className="min-h-[10rem] w-full rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 font-mono text-xs text-slate-800 shadow-inner focus:border-sky-500 focus:bg-white focus:outline-none focus:ring-1 focus:ring-sky-500"
                 />
               </div>
 
               <div>
-                <label htmlFor="ledger" className="mb-2 block text-sm font-medium text-slate-700">
-                  General Ledger
-                </label>
+                <div className="mb-2 flex items-center justify-between">
+                  <label htmlFor="ledger" className="block text-sm font-medium text-slate-700">
+                    General Ledger
+                  </label>
+                  {locked ? null : (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        openWizard(wizardTarget === "ledger" ? null : "ledger");
+                      }}
+                      className="text-xs font-semibold text-sky-700 hover:text-sky-600"
+                    >
+                      Import wizard
+                    </button>
+                  )}
+                </div>
+                {wizardTarget === "ledger" ? (
+                  <div className="mb-3">
+                    <ImportWizard
+                      key={wizardKey}
+                      title="Map a general ledger export"
+                      initialText={wizardText}
+                      onApply={(csv) => {
+                        setLedgerInput(csv);
+                        setWizardTarget(null);
+                      }}
+                      onClose={() => setWizardTarget(null)}
+                    />
+                  </div>
+                ) : null}
                 <textarea
                   id="ledger"
                   value={ledgerInput}
+                  readOnly={locked}
                   onChange={(event) => setLedgerInput(event.target.value)}
                   className="min-h-[10rem] w-full rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 font-mono text-xs text-slate-800 shadow-inner focus:border-sky-500 focus:bg-white focus:outline-none focus:ring-1 focus:ring-sky-500"
                 />
               </div>
+
+              <fieldset disabled={locked}>
+                <legend className="mb-2 text-sm font-medium text-slate-700">Balances</legend>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div>
+                    <label htmlFor="bankOpening" className="mb-1 block text-xs font-medium text-slate-600">
+                      Bank opening balance
+                    </label>
+                    <input
+                      id="bankOpening"
+                      type="number"
+                      step={0.01}
+                      value={balances.bankOpening ?? ""}
+                      onChange={(event) =>
+                        setBalances((previous) => ({ ...previous, bankOpening: parseBalanceInput(event.target.value) }))
+                      }
+                      className="w-full rounded-md border border-slate-200 px-2 py-1 text-right text-sm text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="bankClosing" className="mb-1 block text-xs font-medium text-slate-600">
+                      Bank closing balance
+                    </label>
+                    <input
+                      id="bankClosing"
+                      type="number"
+                      step={0.01}
+                      value={balances.bankClosing ?? ""}
+                      onChange={(event) =>
+                        setBalances((previous) => ({ ...previous, bankClosing: parseBalanceInput(event.target.value) }))
+                      }
+                      className="w-full rounded-md border border-slate-200 px-2 py-1 text-right text-sm text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ledgerOpening" className="mb-1 block text-xs font-medium text-slate-600">
+                      Ledger opening balance
+                    </label>
+                    <input
+                      id="ledgerOpening"
+                      type="number"
+                      step={0.01}
+                      value={balances.ledgerOpening ?? ""}
+                      onChange={(event) =>
+                        setBalances((previous) => ({
+                          ...previous,
+                          ledgerOpening: parseBalanceInput(event.target.value),
+                        }))
+                      }
+                      className="w-full rounded-md border border-slate-200 px-2 py-1 text-right text-sm text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="ledgerClosing" className="mb-1 block text-xs font-medium text-slate-600">
+                      Ledger closing balance
+                    </label>
+                    <input
+                      id="ledgerClosing"
+                      type="number"
+                      step={0.01}
+                      value={balances.ledgerClosing ?? ""}
+                      onChange={(event) =>
+                        setBalances((previous) => ({
+                          ...previous,
+                          ledgerClosing: parseBalanceInput(event.target.value),
+                        }))
+                      }
+                      className="w-full rounded-md border border-slate-200 px-2 py-1 text-right text-sm text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                    />
+                  </div>
+                </div>
+              </fieldset>
             </div>
 
             <div className="flex flex-wrap items-center gap-3">
               <button
                 type="button"
                 onClick={handleRun}
-                className="inline-flex items-center justify-center rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-sky-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-600"
+                disabled={locked || progress !== null}
+                className="inline-flex items-center justify-center rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-sky-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-600 disabled:cursor-not-allowed disabled:opacity-50"
               >
                 Run Reconciliation
               </button>
+              {progress ? (
+                <button
+                  type="button"
+                  onClick={handleCancelRun}
+                  className="inline-flex items-center justify-center rounded-lg border border-rose-200 bg-white px-4 py-2 text-sm font-semibold text-rose-600 hover:bg-rose-50"
+                >
+                  Cancel
+                </button>
+              ) : null}
               <button
                 type="button"
                 onClick={handleReset}
@@ -134,8 +829,47 @@ export default function Home() {
               >
                 Reset &amp; Load Sample
               </button>
+              <button
+                type="button"
+                onClick={handleCheckQuality}
+                disabled={locked}
+                className="inline-flex items-center justify-center rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Check Data Quality
+              </button>
             </div>
 
+            {carryForward && carryForward.statement.length + carryForward.ledger.length > 0 ? (
+              <p className="text-sm text-slate-600">
+                Carrying forward {carryForward.statement.length} statement and {carryForward.ledger.length} ledger open
+                items from {carryForward.period} ({carryForward.sessionName}) into this run.
+              </p>
+            ) : null}
+
+            {qualityReport ? (
+              <DataQualityPanel
+                report={qualityReport}
+                exclusions={exclusions}
+                disabled={locked}
+                onChange={setExclusions}
+              />
+            ) : null}
+
+            {progress ? (
+              <div className="space-y-1 text-sm text-slate-600" role="status">
+                <p>
+                  {PIPELINE_STAGE_LABELS[progress.stage]}…
+                  {progress.stage === "aggregation" ? ` ${Math.round(progress.fraction * 100)}%` : null}
+                </p>
+                <div className="h-1.5 overflow-hidden rounded-full bg-slate-100">
+                  <div
+                    className="h-full bg-sky-500 transition-all"
+                    style={{ width: `${Math.round(overallProgress(progress.stage, progress.fraction) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            ) : null}
+
             {error ? (
               <div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
                 {error}
@@ -145,7 +879,19 @@ export default function Home() {
 
           <div className="space-y-6 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
             <h2 className="text-lg font-semibold text-slate-900">Matching Rules</h2>
-            <div className="space-y-4 text-sm text-slate-600">
+            {engineProfiles.length > 0 ? (
+              <EngineProfilePanel
+                profiles={engineProfiles}
+                activeId={activeProfileId}
+                config={config}
+                matchingRules={matchingRules}
+                disabled={locked}
+                onApply={handleApplyProfile}
+                onProfilesChange={setEngineProfiles}
+                onCompare={handleCompareProfile}
+              />
+            ) : null}
+            <fieldset disabled={locked} className="space-y-4 text-sm text-slate-600">
               <div className="flex items-center justify-between">
                 <label htmlFor="dateTolerance" className="font-medium text-slate-700">
                   Date tolerance (days)
@@ -243,40 +989,176 @@ export default function Home() {
                   className="w-20 rounded-md border border-slate-200 px-2 py-1 text-right text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
                 />
               </div>
-            </div>
+            </fieldset>
+            {configIssues.length > 0 ? (
+              <ul className="space-y-1 rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-xs text-rose-700">
+                {configIssues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            ) : null}
+            <FxSettingsPanel settings={fxSettings} disabled={locked} onChange={setFxSettings} />
             <p className="rounded-lg bg-slate-50 px-4 py-3 text-sm text-slate-600">
-              The engine runs deterministic exact matches first, then fuzzy matches, and finally searches for
-              aggregation opportunities within the configured tolerance window.
+              The engine runs your custom rules first, then converts foreign-currency lines, then deterministic exact
+              matches, then fuzzy matches, and finally searches for aggregation opportunities within the configured
+              tolerance window.
             </p>
+            <ParameterSweepPanel
+              config={config}
+              disabled={locked}
+              onApply={setConfig}
+              pool={{ statementInput, ledgerInput, fx: fxSettings, exclusions, carriedForward: carryForward }}
+            />
+            <MatchingRulesEditor
+              key={matchingRules.map((rule) => rule.id).join("|")}
+              rules={matchingRules}
+              log={ruleLog}
+              disabled={locked}
+              profileName={rulesProfileName}
+              onSave={handleSaveMatchingRules}
+              onRestore={handleRestoreMatchingRules}
+            />
+            <CategorisationPanel
+              key={JSON.stringify(categorisation)}
+              settings={categorisation}
+              disabled={locked}
+              onSave={(next) => setCategorisation(saveCategorisation(next))}
+            />
+            <div className="rounded-lg border border-slate-100 px-4 py-3 text-sm text-slate-600">
+              <div className="flex items-center justify-between gap-3">
+                <p className="font-medium text-slate-700">Learned rules</p>
+                <Link href="/rules" className="text-xs font-semibold text-sky-700 hover:text-sky-600">
+                  Review learned rules →
+                </Link>
+              </div>
+              {ruleUses.length === 0 ? (
+                <p className="mt-1 text-xs text-slate-500">
+                  Manual matches and unmatched fuzzy suggestions are remembered when you save a session.
+                </p>
+              ) : (
+                <ul className="mt-2 space-y-1 text-xs text-slate-500">
+                  {ruleUses.map((use, index) => (
+                    <li key={`${use.ruleId}-${index}`}>{use.reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
         </section>
 
         {viewModel ? (
           <section className="mt-10 space-y-6">
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-              <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
-                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Ledger Coverage</p>
-                <p className="mt-2 text-2xl font-bold text-slate-900">{viewModel.stats.coverage.toFixed(0)}%</p>
-                <p className="text-xs text-slate-500">Matches + aggregations over ledger population</p>
-              </div>
-              <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
-                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Exact / Fuzzy matches</p>
-                <p className="mt-2 text-2xl font-bold text-slate-900">{viewModel.stats.matched}</p>
-                <p className="text-xs text-slate-500">One-to-one confirmations</p>
+            <div className="grid gap-4 xl:grid-cols-[minmax(0,1fr)_22rem]">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 xl:grid-cols-3">
+                <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Ledger Coverage</p>
+                  <p className="mt-2 text-2xl font-bold text-slate-900">{viewModel.stats.coverage.toFixed(0)}%</p>
+                  <p className="text-xs text-slate-500">Engine + manual matches over ledger population</p>
+                </div>
+                <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Exact / Fuzzy matches</p>
+                  <p className="mt-2 text-2xl font-bold text-slate-900">{viewModel.stats.matched}</p>
+                  <p className="text-xs text-slate-500">One-to-one confirmations</p>
+                </div>
+                <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Aggregations</p>
+                  <p className="mt-2 text-2xl font-bold text-slate-900">{viewModel.stats.aggregated}</p>
+                  <p className="text-xs text-slate-500">Grouped matches &amp; rolling totals</p>
+                </div>
+                <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Manual matches</p>
+                  <p className="mt-2 text-2xl font-bold text-slate-900">{viewModel.stats.manual}</p>
+                  <p className="text-xs text-slate-500">Bookkeeper decisions</p>
+                </div>
+                <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Unmatched</p>
+                  <p className="mt-2 text-2xl font-bold text-amber-600">
+                    {viewModel.stats.unmatchedLedger + viewModel.stats.unmatchedStatement}
+                  </p>
+                  <p className="text-xs text-slate-500">Requires review</p>
+                </div>
               </div>
-              <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
-                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Aggregations</p>
-                <p className="mt-2 text-2xl font-bold text-slate-900">{viewModel.stats.aggregated}</p>
-                <p className="text-xs text-slate-500">Grouped matches &amp; rolling totals</p>
+              {categorySummary ? <CategorySummary summary={categorySummary} /> : null}
+            </div>
+
+            {reviewStatus && reviewStatus.total > 0 ? (
+              <div
+                className={`rounded-2xl border p-5 shadow-sm ${reviewStatus.complete ? "border-emerald-200 bg-emerald-50" : "border-amber-200 bg-amber-50"}`}
+              >
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Maker-checker review</p>
+                <p
+                  className={`mt-2 text-lg font-semibold ${reviewStatus.complete ? "text-emerald-800" : "text-amber-800"}`}
+                >
+                  {reviewStatus.complete
+                    ? "Review complete"
+                    : `${reviewStatus.awaitingApproval} awaiting approval · ${reviewStatus.rejected} rejected`}
+                </p>
+                <p className="text-xs text-slate-600">
+                  Fuzzy, rule, aggregated and manual matches count once someone other than the person who accepted them
+                  approves them. Rejected matches must be accepted again or unmatched before the period can be signed
+                  off.
+                </p>
               </div>
+            ) : null}
+
+            {fxSummary ? (
               <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
-                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Unmatched</p>
-                <p className="mt-2 text-2xl font-bold text-amber-600">
-                  {viewModel.stats.unmatchedLedger + viewModel.stats.unmatchedStatement}
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Realised FX gain / loss</p>
+                <p className={`mt-2 text-2xl font-bold ${fxSummary.net < 0 ? "text-rose-600" : "text-emerald-600"}`}>
+                  {formatCurrency(fxSummary.net)}
                 </p>
-                <p className="text-xs text-slate-500">Requires review</p>
+                <p className="text-xs text-slate-500">
+                  {fxSummary.matches} FX matches · gains {formatCurrency(fxSummary.gains)} · losses{" "}
+                  {formatCurrency(Math.abs(fxSummary.losses))}
+                </p>
+                <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+                  {fxSummary.byCurrency.map((entry) => (
+                    <li key={entry.currency}>
+                      {entry.currency}: {entry.matches} matches, net {formatCurrency(entry.net)}
+                    </li>
+                  ))}
+                </ul>
               </div>
-            </div>
+            ) : null}
+
+            {engineRun?.excluded && engineRun.excluded.statement.length + engineRun.excluded.ledger.length > 0 ? (
+              <details className="rounded-2xl border border-slate-200 bg-white p-5 text-sm text-slate-600 shadow-sm">
+                <summary className="cursor-pointer font-semibold text-slate-700">
+                  Excluded from matching: {engineRun.excluded.statement.length} statement,{" "}
+                  {engineRun.excluded.ledger.length} ledger rows
+                </summary>
+                <ul className="mt-2 space-y-1 text-xs">
+                  {[...engineRun.excluded.statement, ...engineRun.excluded.ledger].map((tx, index) => (
+                    // Banks repeat reference ids, so two excluded rows can share one.
+                    <li key={`${tx.source}-${index}`}>
+                      {tx.source === "statement" ? "Statement" : "Ledger"} {tx.id} · {tx.normalizedDate} ·{" "}
+                      {tx.description} · {formatCurrency(tx.amount)}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ) : null}
+
+            {ageing ? (
+              <AgeingReport report={ageing} disabled={locked} onEscalationDaysChange={setEscalationDays} />
+            ) : null}
+
+            <BalanceProofReport proof={balanceProof} title={sessionName} period={sessionPeriod} />
+
+            {engineRun ? (
+              <ExportPanel
+                result={viewModel.result}
+                engineRun={engineRun}
+                decisions={decisions}
+                review={review}
+                categoryOverrides={categoryOverrides}
+                fx={fxSettings}
+                config={runConfig}
+                balances={balances}
+                name={sessionName}
+                period={sessionPeriod}
+              />
+            ) : null}
 
             <div className="grid gap-6 lg:grid-cols-[minmax(0,1.1fr)_minmax(0,0.9fr)]">
               <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -284,51 +1166,195 @@ export default function Home() {
                 <p className="mt-1 text-sm text-slate-600">
                   Deterministic and fuzzy matches that meet the configured thresholds.
                 </p>
-                <div className="mt-4 overflow-hidden rounded-xl border border-slate-100">
+                <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+                  <input
+                    type="text"
+                    aria-label="Reviewer"
+                    placeholder="Reviewing as"
+                    value={reviewer}
+                    disabled={locked}
+                    onChange={(event) => handleReviewerChange(event.target.value)}
+                    className="w-32 rounded-md border border-slate-200 px-2 py-1 text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                  />
+                  <select
+                    aria-label="Match type"
+                    value={reviewFilter.kind}
+                    onChange={(event) =>
+                      setReviewFilter((previous) => ({
+                        ...previous,
+                        kind: event.target.value as ReviewFilter["kind"],
+                      }))
+                    }
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-700"
+                  >
+                    <option value="all">All types</option>
+                    <option value="exact">Exact</option>
+                    <option value="fuzzy">Fuzzy</option>
+                    <option value="rule">Rule</option>
+                  </select>
+                  <select
+                    aria-label="Review state"
+                    value={reviewFilter.state}
+                    onChange={(event) =>
+                      setReviewFilter((previous) => ({
+                        ...previous,
+                        state: event.target.value as ReviewFilter["state"],
+                      }))
+                    }
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-700"
+                  >
+                    <option value="all">All states</option>
+                    {REVIEW_STATES.map((entry) => (
+                      <option key={entry.state} value={entry.state}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label="Score band"
+                    value={reviewFilter.band}
+                    onChange={(event) =>
+                      setReviewFilter((previous) => ({
+                        ...previous,
+                        band: event.target.value as ReviewFilter["band"],
+                      }))
+                    }
+                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-700"
+                  >
+                    <option value="all">All scores</option>
+                    {SCORE_BANDS.map((entry) => (
+                      <option key={entry.band} value={entry.band}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  </select>
+                  {filteredMatches.length !== viewModel.result.matched.length ? (
+                    <span className="text-slate-500">
+                      Showing {filteredMatches.length} of {viewModel.result.matched.length}
+                    </span>
+                  ) : null}
+                </div>
+                {locked ? null : (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                    <label htmlFor="bulk-accept-score">Accept all suggested exact matches scoring at least</label>
+                    <input
+                      id="bulk-accept-score"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={Math.round(bulkAcceptScore * 100)}
+                      onChange={(event) => setBulkAcceptScore(Number(event.target.value) / 100)}
+                      className="w-16 rounded-md border border-slate-200 px-2 py-1 text-right text-slate-700"
+                    />
+                    %
+                    <button
+                      type="button"
+                      onClick={handleBulkAccept}
+                      className="rounded-md border border-sky-200 bg-white px-2 py-1 font-semibold text-sky-700 hover:bg-sky-50"
+                    >
+                      Accept exact
+                    </button>
+                  </div>
+                )}
+                {reviewError ? <p className="mt-2 text-xs text-rose-600">{reviewError}</p> : null}
+                <div
+                  onScroll={matchedRows.onScroll}
+                  style={matchedRows.enabled ? { maxHeight: matchedRows.viewportHeight } : undefined}
+                  className={`mt-3 rounded-xl border border-slate-100 ${matchedRows.enabled ? "overflow-auto" : "overflow-hidden"}`}
+                >
                   <table className="min-w-full divide-y divide-slate-100 text-left text-sm text-slate-700">
-                    <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                    <thead className="sticky top-0 bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
                       <tr>
                         <th className="px-4 py-3">Statement</th>
                         <th className="px-4 py-3">Ledger</th>
                         <th className="px-4 py-3 text-right">Amount</th>
                         <th className="px-4 py-3 text-right">Score</th>
+                        <th className="px-4 py-3">
+                          <span className="sr-only">Actions</span>
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
-                      {viewModel.result.matched.map((match) => (
-                        <tr key={`${match.statement.id}-${match.ledger.id}`}>
-                          <td className="px-4 py-3">
-                            <p className="font-medium text-slate-900">{match.statement.description}</p>
-                            <p className="text-xs text-slate-500">
-                              {match.statement.normalizedDate} · {match.statement.category}
-                            </p>
-                          </td>
-                          <td className="px-4 py-3">
-                            <p className="font-medium text-slate-900">{match.ledger.description}</p>
-                            <p className="text-xs text-slate-500">
-                              {match.ledger.normalizedDate} · {match.ledger.category}
-                            </p>
-                          </td>
-                          <td className="px-4 py-3 text-right font-medium text-slate-900">
-                            {formatCurrency(match.statement.amount)}
-                          </td>
-                          <td className="px-4 py-3 text-right text-xs uppercase text-slate-500">
-                            {(match.score * 100).toFixed(0)}%
-                            <span className="block text-[10px] font-medium text-slate-400">{match.type}</span>
-                          </td>
-                        </tr>
-                      ))}
+                      {matchedRows.before > 0 ? <tr aria-hidden style={{ height: matchedRows.before }} /> : null}
+                      {matchedRows.rows.map(({ item: match }) => {
+                        const key = reviewKey([match.statement.id], [match.ledger.id]);
+                        const reviewItem = reviewIndex?.get(key);
+                        return (
+                          <tr key={`${match.statement.id}-${match.ledger.id}`}>
+                            <td className="px-4 py-3">
+                              <p className="font-medium text-slate-900">{match.statement.description}</p>
+                              <p className="text-xs text-slate-500">
+                                {match.statement.normalizedDate} · {match.statement.category}
+                              </p>
+                            </td>
+                            <td className="px-4 py-3">
+                              <p className="font-medium text-slate-900">{match.ledger.description}</p>
+                              <p className="text-xs text-slate-500">
+                                {match.ledger.normalizedDate} · {match.ledger.category}
+                              </p>
+                            </td>
+                            <td className="px-4 py-3 text-right font-medium text-slate-900">
+                              {formatCurrency(match.statement.amount)}
+                            </td>
+                            <td className="px-4 py-3 text-right text-xs uppercase text-slate-500">
+                              {(match.score * 100).toFixed(0)}%
+                              <span className="block text-[10px] font-medium text-slate-400">{match.type}</span>
+                              {reviewItem ? <ReviewStateBadge item={reviewItem} /> : null}
+                            </td>
+                            <td className="space-y-1 px-4 py-3 text-right">
+                              {reviewItem ? (
+                                <ReviewControls
+                                  item={reviewItem}
+                                  disabled={locked}
+                                  onRecord={(action) => handleReview(key, action)}
+                                  onShowComments={() => setThreadKey(key)}
+                                />
+                              ) : null}
+                              {locked ? null : (
+                                <button
+                                  type="button"
+                                  onClick={() => handleUnmatch([match.statement.id], match.ledger.id)}
+                                  className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100"
+                                >
+                                  Unmatch
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                      {matchedRows.after > 0 ? <tr aria-hidden style={{ height: matchedRows.after }} /> : null}
                     </tbody>
                   </table>
                   {viewModel.result.matched.length === 0 ? (
                     <div className="px-4 py-6 text-center text-sm text-slate-500">No direct matches yet.</div>
+                  ) : filteredMatches.length === 0 ? (
+                    <div className="px-4 py-6 text-center text-sm text-slate-500">No matches fit these filters.</div>
                   ) : null}
                 </div>
+                {threadItem && threadItem.kind !== "aggregated" && threadItem.kind !== "manual" ? (
+                  <ReviewThread
+                    key={threadItem.key}
+                    item={threadItem}
+                    disabled={locked}
+                    onComment={(text) => handleReview(threadItem.key, "comment", text)}
+                    onClose={() => setThreadKey(null)}
+                  />
+                ) : null}
                 {viewModel.result.matched.length > 0 ? (
                   <details className="mt-3 rounded-lg bg-slate-50 px-4 py-3 text-sm text-slate-600">
-                    <summary className="cursor-pointer text-sm font-semibold text-slate-700">Explainability log</summary>
-                    <ul className="mt-2 space-y-2 text-xs text-slate-600">
-                      {viewModel.result.matched.map((match) => (
+                    <summary className="cursor-pointer text-sm font-semibold text-slate-700">
+                      Explainability log
+                    </summary>
+                    <ul
+                      onScroll={explanationRows.onScroll}
+                      style={explanationRows.enabled ? { maxHeight: explanationRows.viewportHeight } : undefined}
+                      className={`mt-2 space-y-2 text-xs text-slate-600 ${explanationRows.enabled ? "overflow-auto pr-1" : ""}`}
+                    >
+                      {explanationRows.before > 0 ? (
+                        <li aria-hidden style={{ height: explanationRows.before }} />
+                      ) : null}
+                      {explanationRows.rows.map(({ item: match }) => (
                         <li
                           key={`reason-${match.statement.id}-${match.ledger.id}`}
                           className="border-t border-slate-200 pt-2 first:border-none first:pt-0"
@@ -341,8 +1367,10 @@ export default function Home() {
                               <li key={index}>{reason}</li>
                             ))}
                           </ul>
+                          <ScoreBreakdownDrillDown match={match} config={runConfig} />
                         </li>
                       ))}
+                      {explanationRows.after > 0 ? <li aria-hidden style={{ height: explanationRows.after }} /> : null}
                     </ul>
                   </details>
                 ) : null}
@@ -352,81 +1380,232 @@ export default function Home() {
                 <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-6 shadow-sm">
                   <h3 className="text-lg font-semibold text-emerald-900">Smart Aggregations</h3>
                   <p className="mt-1 text-sm text-emerald-800">
-                    Statement bundles that roll up to a single ledger entry within the tolerance window.
+                    Statement bundles that roll up to a single ledger entry, deposits that settle several ledger
+                    entries, and batches that only balance many-to-many, all within the tolerance window.
                   </p>
-                  <ul className="mt-4 space-y-3 text-sm text-emerald-900">
-                    {viewModel.result.aggregated.map((agg) => (
-                      <li
-                        key={agg.ledger.id}
-                        className="rounded-xl border border-emerald-200 bg-white/80 px-4 py-3 shadow-sm"
-                      >
-                        <p className="font-semibold">
-                          Ledger: {agg.ledger.description} ({formatCurrency(agg.ledger.amount)})
-                        </p>
-                        <p className="mt-1 text-xs text-emerald-700">
-                          Statements: {agg.statements.map((tx) => tx.description).join("; ")}
-                        </p>
-                        <p className="text-xs text-emerald-700">
-                          Combined{" "}
-                          {formatCurrency(agg.ledger.sign === "debit" ? -agg.total : agg.total)} · Difference{" "}
-                          {formatCurrency(agg.difference)}
-                        </p>
-                        <ul className="mt-2 list-disc pl-5 text-xs text-emerald-800">
-                          {agg.reasons.map((reason, index) => (
-                            <li key={index}>{reason}</li>
-                          ))}
-                        </ul>
-                      </li>
-                    ))}
+                  <ul
+                    onScroll={aggregationRows.onScroll}
+                    style={aggregationRows.enabled ? { maxHeight: aggregationRows.viewportHeight } : undefined}
+                    className={`mt-4 space-y-3 text-sm text-emerald-900 ${aggregationRows.enabled ? "overflow-auto pr-1" : ""}`}
+                  >
+                    {aggregationRows.before > 0 ? <li aria-hidden style={{ height: aggregationRows.before }} /> : null}
+                    {aggregationRows.rows.map(({ item: agg }) => {
+                      const accepted = viewModel.result.acceptedDifferences.find(
+                        (entry) => entry.ledgerId === agg.ledger.id,
+                      );
+                      const key = reviewKey(
+                        agg.statements.map((tx) => tx.id),
+                        [agg.ledger.id],
+                      );
+                      const reviewItem = reviewIndex?.get(key);
+                      return (
+                        <li
+                          key={agg.ledger.id}
+                          className="rounded-xl border border-emerald-200 bg-white/80 px-4 py-3 shadow-sm"
+                        >
+                          <p className="text-[10px] font-semibold uppercase tracking-wide text-emerald-600">
+                            Many statement → one ledger
+                          </p>
+                          <p className="font-semibold">
+                            Ledger: {agg.ledger.description} ({formatCurrency(agg.ledger.amount)})
+                          </p>
+                          <p className="mt-1 text-xs text-emerald-700">
+                            Statements: {agg.statements.map((tx) => tx.description).join("; ")}
+                          </p>
+                          <p className="text-xs text-emerald-700">
+                            Combined {formatCurrency(agg.ledger.sign === "debit" ? -agg.total : agg.total)} · Difference{" "}
+                            {formatCurrency(agg.difference)}
+                          </p>
+                          <ul className="mt-2 list-disc pl-5 text-xs text-emerald-800">
+                            {agg.reasons.map((reason, index) => (
+                              <li key={index}>{reason}</li>
+                            ))}
+                            {accepted ? <li>Difference accepted: {describeReasonCode(accepted.reasonCode)}</li> : null}
+                          </ul>
+                          {reviewItem ? (
+                            <ReviewCardFooter
+                              item={reviewItem}
+                              disabled={locked}
+                              threadOpen={threadKey === key}
+                              onRecord={(action) => handleReview(key, action)}
+                              onComment={(text) => handleReview(key, "comment", text)}
+                              onToggleThread={() => setThreadKey((current) => (current === key ? null : key))}
+                            />
+                          ) : null}
+                          {locked ? null : (
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                              {agg.difference !== 0 && !accepted ? (
+                                <>
+                                  <select
+                                    aria-label="Difference reason code"
+                                    value={differenceReasons[agg.ledger.id] ?? DIFFERENCE_REASON_CODES[0].code}
+                                    onChange={(event) =>
+                                      setDifferenceReasons((previous) => ({
+                                        ...previous,
+                                        [agg.ledger.id]: event.target.value as DifferenceReasonCode,
+                                      }))
+                                    }
+                                    className="rounded-md border border-emerald-200 bg-white px-2 py-1 text-xs text-emerald-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                                  >
+                                    {DIFFERENCE_REASON_CODES.map((entry) => (
+                                      <option key={entry.code} value={entry.code}>
+                                        {entry.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleAcceptDifference(agg.ledger.id)}
+                                    className="rounded-md bg-emerald-600 px-2 py-1 text-xs font-semibold text-white hover:bg-emerald-500"
+                                  >
+                                    Accept difference
+                                  </button>
+                                </>
+                              ) : null}
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  handleUnmatch(
+                                    agg.statements.map((tx) => tx.id),
+                                    agg.ledger.id,
+                                  )
+                                }
+                                className="rounded-md border border-emerald-200 bg-white px-2 py-1 text-xs font-semibold text-emerald-800 hover:bg-emerald-100"
+                              >
+                                Break aggregation
+                              </button>
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                    {aggregationRows.after > 0 ? <li aria-hidden style={{ height: aggregationRows.after }} /> : null}
                   </ul>
-                    {viewModel.result.aggregated.length === 0 ? (
+                  <ul
+                    onScroll={groupRows.onScroll}
+                    style={groupRows.enabled ? { maxHeight: groupRows.viewportHeight } : undefined}
+                    className={`mt-3 space-y-3 text-sm text-emerald-900 ${groupRows.enabled ? "overflow-auto pr-1" : ""}`}
+                  >
+                    {groupRows.before > 0 ? <li aria-hidden style={{ height: groupRows.before }} /> : null}
+                    {groupRows.rows.map(({ item: group }) => {
+                      const groupKey = group.ledger[0].id;
+                      const accepted = viewModel.result.acceptedDifferences.find(
+                        (entry) => entry.ledgerId === groupKey,
+                      );
+                      const key = reviewKey(
+                        group.statements.map((tx) => tx.id),
+                        group.ledger.map((tx) => tx.id),
+                      );
+                      const reviewItem = reviewIndex?.get(key);
+                      return (
+                        <li
+                          key={group.id}
+                          className="rounded-xl border border-emerald-200 bg-white/80 px-4 py-3 shadow-sm"
+                        >
+                          <p className="text-[10px] font-semibold uppercase tracking-wide text-emerald-600">
+                            {group.direction === "one-to-many" ? "One statement → many ledger" : "Many ↔ many"}
+                          </p>
+                          <p className="font-semibold">Ledger: {describeTransactions(group.ledger)}</p>
+                          <p className="mt-1 text-xs text-emerald-700">
+                            Statements: {describeTransactions(group.statements)}
+                          </p>
+                          <p className="text-xs text-emerald-700">
+                            Statement {formatCurrency(group.statementTotal)} · Ledger{" "}
+                            {formatCurrency(group.ledgerTotal)} · Difference {formatCurrency(group.difference)}
+                          </p>
+                          <ul className="mt-2 list-disc pl-5 text-xs text-emerald-800">
+                            {group.reasons.map((reason, index) => (
+                              <li key={index}>{reason}</li>
+                            ))}
+                            {accepted ? <li>Difference accepted: {describeReasonCode(accepted.reasonCode)}</li> : null}
+                          </ul>
+                          {reviewItem ? (
+                            <ReviewCardFooter
+                              item={reviewItem}
+                              disabled={locked}
+                              threadOpen={threadKey === key}
+                              onRecord={(action) => handleReview(key, action)}
+                              onComment={(text) => handleReview(key, "comment", text)}
+                              onToggleThread={() => setThreadKey((current) => (current === key ? null : key))}
+                            />
+                          ) : null}
+                          {locked ? null : (
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                              {group.difference !== 0 && !accepted ? (
+                                <>
+                                  <select
+                                    aria-label="Difference reason code"
+                                    value={differenceReasons[groupKey] ?? DIFFERENCE_REASON_CODES[0].code}
+                                    onChange={(event) =>
+                                      setDifferenceReasons((previous) => ({
+                                        ...previous,
+                                        [groupKey]: event.target.value as DifferenceReasonCode,
+                                      }))
+                                    }
+                                    className="rounded-md border border-emerald-200 bg-white px-2 py-1 text-xs text-emerald-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                                  >
+                                    {DIFFERENCE_REASON_CODES.map((entry) => (
+                                      <option key={entry.code} value={entry.code}>
+                                        {entry.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleAcceptDifference(groupKey)}
+                                    className="rounded-md bg-emerald-600 px-2 py-1 text-xs font-semibold text-white hover:bg-emerald-500"
+                                  >
+                                    Accept difference
+                                  </button>
+                                </>
+                              ) : null}
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  handleUnmatch(
+                                    group.statements.map((tx) => tx.id),
+                                    groupKey,
+                                  )
+                                }
+                                className="rounded-md border border-emerald-200 bg-white px-2 py-1 text-xs font-semibold text-emerald-800 hover:bg-emerald-100"
+                              >
+                                Break group
+                              </button>
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                    {groupRows.after > 0 ? <li aria-hidden style={{ height: groupRows.after }} /> : null}
+                  </ul>
+                  {viewModel.result.aggregated.length + viewModel.result.groups.length === 0 ? (
                     <p className="rounded-lg bg-emerald-100/60 px-4 py-3 text-sm text-emerald-800">
                       No aggregation opportunities detected.
                     </p>
                   ) : null}
                 </div>
 
-                <div className="rounded-2xl border border-amber-200 bg-white p-6 shadow-sm">
-                  <h3 className="text-lg font-semibold text-amber-900">Remaining Exceptions</h3>
-                  <div className="mt-4 space-y-4 text-sm text-amber-800">
-                    <div>
-                      <p className="font-semibold">Unmatched Statements</p>
-                      <ul className="mt-2 space-y-2">
-                        {viewModel.result.unmatchedStatements.map((tx) => (
-                          <li key={tx.id} className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2">
-                            <p className="font-medium text-amber-900">{tx.description}</p>
-                            <p className="text-xs text-amber-700">
-                              {tx.normalizedDate} · {tx.category} · {formatCurrency(tx.amount)}
-                            </p>
-                          </li>
-                        ))}
-                      </ul>
-                      {viewModel.result.unmatchedStatements.length === 0 ? (
-                        <p className="mt-2 rounded-md bg-amber-50/60 px-3 py-2 text-xs text-amber-700">
-                          Statement side looks tidy.
-                        </p>
-                      ) : null}
-                    </div>
-                    <div>
-                      <p className="font-semibold">Unmatched Ledger Entries</p>
-                      <ul className="mt-2 space-y-2">
-                        {viewModel.result.unmatchedLedger.map((tx) => (
-                          <li key={tx.id} className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2">
-                            <p className="font-medium text-amber-900">{tx.description}</p>
-                            <p className="text-xs text-amber-700">
-                              {tx.normalizedDate} · {tx.category} · {formatCurrency(tx.amount)}
-                            </p>
-                          </li>
-                        ))}
-                      </ul>
-                      {viewModel.result.unmatchedLedger.length === 0 ? (
-                        <p className="mt-2 rounded-md bg-amber-50/60 px-3 py-2 text-xs text-amber-700">
-                          Ledger side fully reconciled.
-                        </p>
-                      ) : null}
-                    </div>
-                  </div>
-                </div>
+                <ExceptionWorkbench
+                  result={viewModel.result}
+                  onManualMatch={handleManualMatch}
+                  onUndoDecision={handleUndoDecision}
+                  error={workbenchError}
+                  readOnly={locked}
+                  config={runConfig}
+                  categories={chartCategories(categorisation.chart)}
+                  onCategoryChange={handleCategoryChange}
+                  review={
+                    reviewIndex
+                      ? {
+                          items: reviewIndex,
+                          threadKey,
+                          onRecord: (key, action) => handleReview(key, action),
+                          onComment: (key, text) => handleReview(key, "comment", text),
+                          onToggleThread: (key) => setThreadKey((current) => (current === key ? null : key)),
+                        }
+                      : undefined
+                  }
+                />
               </div>
             </div>
           </section>
@@ -0,0 +1,236 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { useHydrated } from "@/lib/hydration";
+import { deleteLearnedRule, loadLearnedRules, saveLearnedRule, type LearnedRule } from "@/lib/learnedRules";
+
+const KIND_LABELS: Record<LearnedRule["kind"], { title: string; description: string }> = {
+  alias: {
+    title: "Description aliases",
+    description: "Statement and ledger descriptions you confirmed or rejected as the same payee.",
+  },
+  payee: {
+    title: "Payee normalisations",
+    description: "Bank narratives mapped to the payee name used in the books, used to score fuzzy candidates.",
+  },
+  category: {
+    title: "Category mappings",
+    description: "Categories applied to statement lines before matching.",
+  },
+};
+
+const INPUT_CLASS =
+  "w-full rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+function RuleFields({ rule, onChange }: { rule: LearnedRule; onChange: (rule: LearnedRule) => void }) {
+  switch (rule.kind) {
+    case "alias":
+      return (
+        <div className="grid gap-2 sm:grid-cols-[1fr_1fr_8rem]">
+          <input
+            aria-label="Statement description key"
+            value={rule.statementKey}
+            onChange={(event) => onChange({ ...rule, statementKey: event.target.value })}
+            className={INPUT_CLASS}
+          />
+          <input
+            aria-label="Ledger description key"
+            value={rule.ledgerKey}
+            onChange={(event) => onChange({ ...rule, ledgerKey: event.target.value })}
+            className={INPUT_CLASS}
+          />
+          <select
+            aria-label="Polarity"
+            value={rule.polarity}
+            onChange={(event) => onChange({ ...rule, polarity: event.target.value as typeof rule.polarity })}
+            className={INPUT_CLASS}
+          >
+            <option value="confirmed">Confirmed</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+      );
+    case "payee":
+      return (
+        <div className="grid gap-2 sm:grid-cols-2">
+          <input
+            aria-label="Bank narrative key"
+            value={rule.pattern}
+            onChange={(event) => onChange({ ...rule, pattern: event.target.value })}
+            className={INPUT_CLASS}
+          />
+          <input
+            aria-label="Payee"
+            value={rule.payee}
+            onChange={(event) => onChange({ ...rule, payee: event.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+      );
+    case "category":
+      return (
+        <div className="grid gap-2 sm:grid-cols-2">
+          <input
+            aria-label="Bank narrative key"
+            value={rule.pattern}
+            onChange={(event) => onChange({ ...rule, pattern: event.target.value })}
+            className={INPUT_CLASS}
+          />
+          <input
+            aria-label="Category"
+            value={rule.category}
+            onChange={(event) => onChange({ ...rule, category: event.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+      );
+  }
+}
+
+function describeRule(rule: LearnedRule) {
+  switch (rule.kind) {
+    case "alias":
+      return `“${rule.statementKey}” ${rule.polarity === "confirmed" ? "=" : "≠"} “${rule.ledgerKey}”`;
+    case "payee":
+      return `“${rule.pattern}” → ${rule.payee}`;
+    case "category":
+      return `“${rule.pattern}” → ${rule.category}`;
+  }
+}
+
+/** Learned rules live in this browser's storage, so the list renders once hydrated. */
+export default function LearnedRulesPage() {
+  return useHydrated() ? <LearnedRules /> : null;
+}
+
+function LearnedRules() {
+  const [rules, setRules] = useState<LearnedRule[]>(loadLearnedRules);
+  const [editing, setEditing] = useState<LearnedRule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function runAction(action: () => LearnedRule[]) {
+    try {
+      setError(null);
+      setRules(action());
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Rule action failed.");
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <main className="mx-auto max-w-6xl px-6 py-12">
+        <header className="mb-10 space-y-4">
+          <p className="text-sm font-semibold uppercase text-slate-500">Smart Reconciliation Engine</p>
+          <h1 className="text-3xl font-bold tracking-tight text-slate-900 sm:text-4xl">Learned rules</h1>
+          <p className="max-w-2xl text-base text-slate-600">
+            Every saved session teaches the engine from your manual matches and rejected suggestions. Review what it has
+            learned, correct a mapping, or delete a rule that no longer holds.
+          </p>
+          <Link href="/" className="inline-block text-sm font-semibold text-sky-700 hover:text-sky-600">
+            ← Back to workspace
+          </Link>
+        </header>
+
+        {error ? (
+          <div className="mb-6 rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </div>
+        ) : null}
+
+        <div className="space-y-6">
+          {(Object.keys(KIND_LABELS) as LearnedRule["kind"][]).map((kind) => {
+            const entries = rules.filter((rule) => rule.kind === kind);
+            return (
+              <section key={kind} className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+                <h2 className="text-lg font-semibold text-slate-900">{KIND_LABELS[kind].title}</h2>
+                <p className="mt-1 text-sm text-slate-600">{KIND_LABELS[kind].description}</p>
+                <div className="mt-4 overflow-hidden rounded-xl border border-slate-100">
+                  <table className="min-w-full divide-y divide-slate-100 text-left text-sm text-slate-700">
+                    <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                      <tr>
+                        <th className="px-4 py-3">Rule</th>
+                        <th className="px-4 py-3">Learned from</th>
+                        <th className="px-4 py-3 text-right">Uses</th>
+                        <th className="px-4 py-3 text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {entries.map((rule) => (
+                        <tr key={rule.id}>
+                          <td className="px-4 py-3">
+                            {editing?.id === rule.id ? (
+                              <RuleFields rule={editing} onChange={setEditing} />
+                            ) : (
+                              <p className="font-medium text-slate-900">{describeRule(rule)}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-xs">
+                            {rule.sessionName} · {rule.period}
+                            <span className="block text-slate-500">
+                              {new Date(rule.learnedAt).toLocaleDateString()}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-right text-xs">
+                            {rule.uses}
+                            {rule.lastUsedAt ? (
+                              <span className="block text-slate-500">
+                                last {new Date(rule.lastUsedAt).toLocaleDateString()}
+                              </span>
+                            ) : null}
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex justify-end gap-2 text-xs font-semibold">
+                              {editing?.id === rule.id ? (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => runAction(() => saveLearnedRule(editing))}
+                                    className="rounded-md bg-slate-900 px-2 py-1 text-white hover:bg-slate-700"
+                                  >
+                                    Save
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => setEditing(null)}
+                                    className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-600 hover:bg-slate-100"
+                                  >
+                                    Cancel
+                                  </button>
+                                </>
+                              ) : (
+                                <button
+                                  type="button"
+                                  onClick={() => setEditing(rule)}
+                                  className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-600 hover:bg-slate-100"
+                                >
+                                  Edit
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => runAction(() => deleteLearnedRule(rule.id))}
+                                className="rounded-md border border-rose-200 bg-white px-2 py-1 text-rose-600 hover:bg-rose-50"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {entries.length === 0 ? (
+                    <div className="px-4 py-6 text-center text-sm text-slate-500">Nothing learned yet.</div>
+                  ) : null}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
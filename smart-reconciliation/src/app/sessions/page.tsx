@@ -0,0 +1,234 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  compareSessions,
+  deleteSession,
+  duplicateSession,
+  getSessionStorage,
+  isLocked,
+  lockSession,
+  type ReconciliationSession,
+} from "@/lib/sessions";
+import { applyManualDecisions, summarizeRun } from "@/lib/workbench";
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<ReconciliationSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [signOffNames, setSignOffNames] = useState<Record<string, string>>({});
+
+  const refresh = useCallback(
+    () =>
+      getSessionStorage()
+        .list()
+        .then(setSessions)
+        .catch((err) => setError(err instanceof Error ? err.message : "Unable to load sessions."))
+        .finally(() => setLoading(false)),
+    [],
+  );
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const comparison = useMemo(() => {
+    if (compareIds.length !== 2) return null;
+    const left = sessions.find((session) => session.id === compareIds[0]);
+    const right = sessions.find((session) => session.id === compareIds[1]);
+    return left && right ? { left, right, diff: compareSessions(left, right) } : null;
+  }, [compareIds, sessions]);
+
+  async function runAction(action: () => Promise<unknown>) {
+    try {
+      setError(null);
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Session action failed.");
+    }
+  }
+
+  function toggleCompare(id: string) {
+    setCompareIds((previous) =>
+      previous.includes(id) ? previous.filter((entry) => entry !== id) : [...previous, id].slice(-2),
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <main className="mx-auto max-w-6xl px-6 py-12">
+        <header className="mb-10 space-y-4">
+          <p className="text-sm font-semibold uppercase text-slate-500">Smart Reconciliation Engine</p>
+          <h1 className="text-3xl font-bold tracking-tight text-slate-900 sm:text-4xl">Session history</h1>
+          <p className="max-w-2xl text-base text-slate-600">
+            Reopen, duplicate or compare saved reconciliations. Signing off a period locks its session so the
+            month-end close keeps an auditable trail of who reconciled what, and when.
+          </p>
+          <Link href="/" className="inline-block text-sm font-semibold text-sky-700 hover:text-sky-600">
+            ← Back to workspace
+          </Link>
+        </header>
+
+        {error ? (
+          <div className="mb-6 rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+        ) : null}
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Saved sessions</h2>
+          <p className="mt-1 text-sm text-slate-600">Tick two sessions to compare their results.</p>
+          <div className="mt-4 overflow-hidden rounded-xl border border-slate-100">
+            <table className="min-w-full divide-y divide-slate-100 text-left text-sm text-slate-700">
+              <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-3">
+                    <span className="sr-only">Compare</span>
+                  </th>
+                  <th className="px-4 py-3">Session</th>
+                  <th className="px-4 py-3">Period</th>
+                  <th className="px-4 py-3 text-right">Coverage</th>
+                  <th className="px-4 py-3">Sign-off</th>
+                  <th className="px-4 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {sessions.map((session) => {
+                  const stats = session.run ? summarizeRun(applyManualDecisions(session.run, session.decisions)) : null;
+                  return (
+                    <tr key={session.id}>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          aria-label={`Compare ${session.name}`}
+                          checked={compareIds.includes(session.id)}
+                          onChange={() => toggleCompare(session.id)}
+                          className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-slate-900">{session.name}</p>
+                        <p className="text-xs text-slate-500">Updated {new Date(session.updatedAt).toLocaleString()}</p>
+                      </td>
+                      <td className="px-4 py-3">{session.period}</td>
+                      <td className="px-4 py-3 text-right">{stats ? `${stats.coverage.toFixed(0)}%` : "Not run"}</td>
+                      <td className="px-4 py-3 text-xs">
+                        {session.signOff ? (
+                          <span className="text-emerald-700">
+                            Locked by <span className="font-semibold">{session.signOff.signedOffBy}</span>
+                            <span className="block text-emerald-600">
+                              {new Date(session.signOff.signedOffAt).toLocaleString()}
+                            </span>
+                          </span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              placeholder="Signed off by"
+                              value={signOffNames[session.id] ?? ""}
+                              onChange={(event) =>
+                                setSignOffNames((previous) => ({ ...previous, [session.id]: event.target.value }))
+                              }
+                              className="w-28 rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => runAction(() => lockSession(session.id, signOffNames[session.id] ?? ""))}
+                              className="rounded-md bg-emerald-600 px-2 py-1 text-xs font-semibold text-white hover:bg-emerald-500"
+                            >
+                              Lock period
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-2 text-xs font-semibold">
+                          <Link
+                            href={`/?session=${session.id}`}
+                            className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-600 hover:bg-slate-100"
+                          >
+                            Open
+                          </Link>
+                          <button
+                            type="button"
+                            onClick={() => runAction(() => duplicateSession(session.id))}
+                            className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-600 hover:bg-slate-100"
+                          >
+                            Duplicate
+                          </button>
+                          {isLocked(session) ? null : (
+                            <button
+                              type="button"
+                              onClick={() => runAction(() => deleteSession(session.id))}
+                              className="rounded-md border border-rose-200 bg-white px-2 py-1 text-rose-600 hover:bg-rose-50"
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {!loading && sessions.length === 0 ? (
+              <div className="px-4 py-6 text-center text-sm text-slate-500">
+                No saved sessions yet. Run a reconciliation and choose “Save session”.
+              </div>
+            ) : null}
+          </div>
+        </section>
+
+        {comparison ? (
+          <section className="mt-10 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-900">
+              {comparison.left.name} vs {comparison.right.name}
+            </h2>
+            <div className="mt-4 grid gap-4 sm:grid-cols-2">
+              {[
+                { session: comparison.left, stats: comparison.diff.left, only: comparison.diff.onlyInLeft },
+                { session: comparison.right, stats: comparison.diff.right, only: comparison.diff.onlyInRight },
+              ].map(({ session, stats, only }) => (
+                <div key={session.id} className="rounded-xl border border-slate-100 bg-slate-50 px-4 py-3 text-sm">
+                  <p className="font-semibold text-slate-900">
+                    {session.name} · {session.period}
+                  </p>
+                  {stats ? (
+                    <p className="mt-1 text-xs text-slate-600">
+                      Coverage {stats.coverage.toFixed(0)}% · {stats.matched} matched · {stats.aggregated} aggregated ·{" "}
+                      {stats.manual} manual · {stats.unmatchedStatement + stats.unmatchedLedger} unmatched
+                    </p>
+                  ) : (
+                    <p className="mt-1 text-xs text-slate-500">Not run yet.</p>
+                  )}
+                  <p className="mt-3 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Only in this session ({only.length})
+                  </p>
+                  <ul className="mt-1 space-y-1 font-mono text-xs text-slate-600">
+                    {only.map((key) => (
+                      <li key={key}>{key}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            {comparison.diff.configChanges.length > 0 ? (
+              <div className="mt-4 text-sm text-slate-600">
+                <p className="font-semibold text-slate-700">Configuration changes</p>
+                <ul className="mt-1 list-disc pl-5 text-xs">
+                  {comparison.diff.configChanges.map((change) => (
+                    <li key={change.key}>
+                      {change.key}: {JSON.stringify(change.left)} → {JSON.stringify(change.right)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+          </section>
+        ) : null}
+      </main>
+    </div>
+  );
+}
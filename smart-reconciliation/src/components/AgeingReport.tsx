@@ -0,0 +1,78 @@
+"use client";
+
+import { formatCurrency } from "@/lib/format";
+import type { AgeingReport as AgeingReportData } from "@/lib/carryForward";
+
+interface AgeingReportProps {
+  report: AgeingReportData;
+  disabled?: boolean;
+  onEscalationDaysChange: (days: number) => void;
+}
+
+export function AgeingReport({ report, disabled = false, onEscalationDaysChange }: AgeingReportProps) {
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Open item ageing</p>
+          <p className="text-xs text-slate-500">
+            {report.items.length} open items aged to {report.asOf}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          Escalate after
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={report.escalationDays}
+            disabled={disabled}
+            onChange={(event) => {
+              const days = Number.parseInt(event.target.value, 10);
+              if (Number.isFinite(days) && days > 0) onEscalationDaysChange(days);
+            }}
+            className="w-16 rounded-md border border-slate-200 px-2 py-1 text-right text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          />
+          days
+        </label>
+      </div>
+
+      <table className="mt-3 w-full text-left text-sm">
+        <thead className="text-xs text-slate-500">
+          <tr>
+            <th className="py-1 pr-2 font-medium">Age</th>
+            <th className="py-1 pr-2 text-right font-medium">Statement</th>
+            <th className="py-1 pr-2 text-right font-medium">Ledger</th>
+            <th className="py-1 text-right font-medium">Amount</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-700">
+          {report.buckets.map((bucket) => (
+            <tr key={bucket.label} className="border-t border-slate-100">
+              <td className="py-1 pr-2">{bucket.label}</td>
+              <td className="py-1 pr-2 text-right">{bucket.statement}</td>
+              <td className="py-1 pr-2 text-right">{bucket.ledger}</td>
+              <td className="py-1 text-right">{formatCurrency(bucket.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {report.escalated.length > 0 ? (
+        <div className="mt-3 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+          <p className="font-semibold">
+            {report.escalated.length} items open longer than {report.escalationDays} days need escalation
+          </p>
+          <ul className="mt-1 space-y-0.5">
+            {report.escalated.map((item) => (
+              <li key={`${item.side}-${item.transaction.id}`}>
+                {item.side === "statement" ? "Statement" : "Ledger"} · {item.transaction.description} ·{" "}
+                {formatCurrency(item.transaction.amount)} · {item.ageDays} days · since {item.originPeriod}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
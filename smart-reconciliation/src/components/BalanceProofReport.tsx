@@ -0,0 +1,121 @@
+"use client";
+
+import { formatCurrency } from "@/lib/format";
+import type { BalanceProof, RollForward } from "@/lib/balanceProof";
+import { formatMoney } from "@/lib/fx";
+
+interface BalanceProofReportProps {
+  proof: BalanceProof | null;
+  title: string;
+  period: string;
+}
+
+function RollForwardRow({ label, rollForward }: { label: string; rollForward: RollForward | null }) {
+  if (!rollForward) return null;
+  return (
+    <p className={`text-xs ${rollForward.variance === 0 ? "text-slate-500" : "text-rose-600"}`}>
+      {label}: opening {formatCurrency(rollForward.opening)} + movement {formatCurrency(rollForward.movement)} ={" "}
+      {formatCurrency(rollForward.expectedClosing)} vs closing {formatCurrency(rollForward.closing)}
+      {rollForward.variance === 0 ? " ✓" : ` · missing ${formatCurrency(rollForward.variance)} of transactions`}
+    </p>
+  );
+}
+
+export function BalanceProofReport({ proof, title, period }: BalanceProofReportProps) {
+  if (!proof) {
+    return (
+      <div className="rounded-2xl border border-dashed border-slate-300 bg-white p-6 text-sm text-slate-500">
+        Enter the bank and ledger closing balances to prove the reconciliation.
+      </div>
+    );
+  }
+
+  return (
+    <div id="balance-proof-report" className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Bank Reconciliation Statement</h3>
+          <p className="text-sm text-slate-600">
+            {title} · {period}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span
+            className={`rounded-full px-3 py-1 text-xs font-semibold ${
+              proof.balanced ? "bg-emerald-100 text-emerald-800" : "bg-rose-100 text-rose-700"
+            }`}
+          >
+            {proof.balanced ? "Balanced" : `Unexplained variance ${formatCurrency(proof.variance)}`}
+          </span>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100 print:hidden"
+          >
+            Print report
+          </button>
+        </div>
+      </div>
+
+      <table className="mt-4 min-w-full text-sm text-slate-700">
+        <tbody className="divide-y divide-slate-100">
+          <tr className="font-semibold text-slate-900">
+            <td className="py-2">Balance per ledger</td>
+            <td className="py-2 text-right">{formatCurrency(proof.ledgerClosing)}</td>
+          </tr>
+          {proof.lines.map((line) => (
+            <tr key={line.label}>
+              <td className="py-2">
+                {line.label}
+                {line.items.length > 0 ? (
+                  <ul className="mt-1 space-y-0.5 pl-4 text-xs text-slate-500">
+                    {line.items.map((tx) => (
+                      <li key={tx.id}>
+                        {tx.normalizedDate} · {tx.description} · {formatCurrency(tx.amount)}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </td>
+              <td className="py-2 text-right align-top">{formatCurrency(line.amount)}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold text-slate-900">
+            <td className="py-2">Calculated balance per bank</td>
+            <td className="py-2 text-right">{formatCurrency(proof.expectedBankClosing)}</td>
+          </tr>
+          <tr className="font-semibold text-slate-900">
+            <td className="py-2">Balance per bank statement</td>
+            <td className="py-2 text-right">{formatCurrency(proof.bankClosing)}</td>
+          </tr>
+          <tr className={`font-semibold ${proof.balanced ? "text-emerald-700" : "text-rose-700"}`}>
+            <td className="py-2">Unexplained variance</td>
+            <td className="py-2 text-right">{formatCurrency(proof.variance)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {proof.unconverted.length > 0 ? (
+        <div className="mt-4 rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          <p className="font-semibold">
+            {proof.unconverted.length} foreign-currency statement line{proof.unconverted.length === 1 ? "" : "s"} left
+            out of the proof: no exchange rate paired {proof.unconverted.length === 1 ? "it" : "them"} with a ledger
+            entry.
+          </p>
+          <ul className="mt-1 space-y-0.5 pl-4">
+            {proof.unconverted.map((tx) => (
+              <li key={tx.id}>
+                {tx.normalizedDate} · {tx.description} · {formatMoney(tx.amount, tx.currency)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="mt-4 space-y-1">
+        <RollForwardRow label="Bank roll-forward" rollForward={proof.bankRollForward} />
+        <RollForwardRow label="Ledger roll-forward" rollForward={proof.ledgerRollForward} />
+      </div>
+    </div>
+  );
+}
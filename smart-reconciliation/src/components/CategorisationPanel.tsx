@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CATEGORY_MATCHING_LABELS,
+  RULE_KIND_LABELS,
+  chartCategories,
+  createCategorisationRule,
+  type CategorisationRule,
+  type CategorisationRuleKind,
+  type CategorisationSettings,
+  type CategoryMatching,
+  type ChartAccount,
+} from "@/lib/categorisation";
+
+interface CategorisationPanelProps {
+  settings: CategorisationSettings;
+  disabled?: boolean;
+  /** Persists the edited settings; throws when a rule or the chart is invalid. */
+  onSave: (settings: CategorisationSettings) => void;
+}
+
+const INPUT_CLASS =
+  "w-full rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+function parseAmount(value: string) {
+  const amount = Number.parseFloat(value);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+export function CategorisationPanel({ settings, disabled = false, onSave }: CategorisationPanelProps) {
+  const [draft, setDraft] = useState<CategorisationRule[]>(settings.rules);
+  const [matching, setMatching] = useState<CategoryMatching>(settings.matching);
+  const [chartText, setChartText] = useState(JSON.stringify(settings.chart, null, 2));
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function update(id: string, patch: Partial<CategorisationRule>) {
+    setDraft((previous) => previous.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+    setMessage(null);
+  }
+
+  function handleSave() {
+    try {
+      let chart: ChartAccount[];
+      try {
+        chart = JSON.parse(chartText) as ChartAccount[];
+      } catch {
+        throw new Error("The chart of accounts must be valid JSON.");
+      }
+      if (!Array.isArray(chart)) {
+        throw new Error("The chart of accounts must be a JSON array of accounts.");
+      }
+      onSave({ rules: draft, chart, matching });
+      setError(null);
+      setMessage(`Saved ${draft.length} bank rules. They apply from the next run.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the categorisation settings.");
+    }
+  }
+
+  const categories = chartCategories(settings.chart);
+  const nextPriority = draft.reduce((max, rule) => Math.max(max, rule.priority), 0) + 10;
+
+  return (
+    <details className="rounded-lg border border-slate-100 px-4 py-3 text-sm text-slate-600">
+      <summary className="cursor-pointer font-medium text-slate-700">Categories and bank rules</summary>
+      <p className="mt-2 text-xs text-slate-500">
+        Bank rules set the category of statement lines before matching, in priority order, and of ledger entries whose
+        category is not on the chart of accounts. Categories booked to the same account in the chart of accounts are
+        compatible.
+      </p>
+
+      <fieldset disabled={disabled} className="mt-3 space-y-3">
+        <label className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          Matching
+          <select
+            value={matching}
+            onChange={(event) => {
+              setMatching(event.target.value as CategoryMatching);
+              setMessage(null);
+            }}
+            className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          >
+            {(Object.keys(CATEGORY_MATCHING_LABELS) as CategoryMatching[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {CATEGORY_MATCHING_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <datalist id="chart-categories">
+          {categories.map((category) => (
+            <option key={category} value={category} />
+          ))}
+        </datalist>
+        {draft.map((rule) => (
+          <div key={rule.id} className="space-y-2 rounded-lg bg-slate-50 p-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                aria-label={`Enable ${rule.name}`}
+                checked={rule.enabled}
+                onChange={(event) => update(rule.id, { enabled: event.target.checked })}
+                className="h-3.5 w-3.5 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+              />
+              <input
+                aria-label="Rule name"
+                value={rule.name}
+                onChange={(event) => update(rule.id, { name: event.target.value })}
+                className={INPUT_CLASS}
+              />
+              <input
+                aria-label="Priority"
+                type="number"
+                value={rule.priority}
+                onChange={(event) => update(rule.id, { priority: Number.parseInt(event.target.value, 10) || 0 })}
+                className="w-16 rounded-md border border-slate-200 px-2 py-1 text-right text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+              />
+              <button
+                type="button"
+                onClick={() => setDraft((previous) => previous.filter((entry) => entry.id !== rule.id))}
+                className="rounded-md border border-rose-200 bg-white px-2 py-1 text-xs font-semibold text-rose-600 hover:bg-rose-50"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                aria-label="Rule kind"
+                value={rule.kind}
+                onChange={(event) => update(rule.id, { kind: event.target.value as CategorisationRuleKind })}
+                className={INPUT_CLASS}
+              >
+                {(Object.keys(RULE_KIND_LABELS) as CategorisationRuleKind[]).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {RULE_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Sign"
+                value={rule.sign ?? ""}
+                onChange={(event) =>
+                  update(rule.id, { sign: (event.target.value || undefined) as "debit" | "credit" | undefined })
+                }
+                className={INPUT_CLASS}
+              >
+                <option value="">Debits and credits</option>
+                <option value="debit">Debits only</option>
+                <option value="credit">Credits only</option>
+              </select>
+              {rule.kind === "amount-range" ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    aria-label="Minimum amount"
+                    type="number"
+                    min={0}
+                    placeholder="From"
+                    value={rule.minAmount ?? ""}
+                    onChange={(event) => update(rule.id, { minAmount: parseAmount(event.target.value) })}
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    aria-label="Maximum amount"
+                    type="number"
+                    min={0}
+                    placeholder="To"
+                    value={rule.maxAmount ?? ""}
+                    onChange={(event) => update(rule.id, { maxAmount: parseAmount(event.target.value) })}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              ) : (
+                <input
+                  aria-label={rule.kind === "keyword" ? "Keywords" : "Description pattern"}
+                  placeholder={rule.kind === "keyword" ? "Keywords, comma-separated" : "Regex, e.g. \\bSARS\\b"}
+                  value={rule.pattern}
+                  onChange={(event) => update(rule.id, { pattern: event.target.value })}
+                  className={INPUT_CLASS}
+                />
+              )}
+              <input
+                aria-label="Category"
+                placeholder="Category"
+                list="chart-categories"
+                value={rule.category}
+                onChange={(event) => update(rule.id, { category: event.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+        ))}
+
+        <details className="text-xs">
+          <summary className="cursor-pointer font-semibold text-sky-700">Chart of accounts (JSON)</summary>
+          <textarea
+            aria-label="Chart of accounts JSON"
+            value={chartText}
+            onChange={(event) => {
+              setChartText(event.target.value);
+              setMessage(null);
+            }}
+            className="mt-2 h-56 w-full rounded-md border border-slate-200 bg-slate-50 p-2 font-mono text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          />
+        </details>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft((previous) => [...previous, createCategorisationRule(nextPriority)])}
+            className="rounded-md border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+          >
+            Add rule
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-slate-700"
+          >
+            Save
+          </button>
+        </div>
+      </fieldset>
+
+      {error ? <p className="mt-2 text-xs text-rose-600">{error}</p> : null}
+      {message ? <p className="mt-2 text-xs text-slate-500">{message}</p> : null}
+    </details>
+  );
+}
@@ -0,0 +1,47 @@
+import type { CategorySummary as CategorySummaryData } from "@/lib/categorisation";
+import { formatCurrency } from "@/lib/format";
+
+export function CategorySummary({ summary }: { summary: CategorySummaryData }) {
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">By category</p>
+      {summary.onlyUnmatchedCategory ? (
+        <p className="mt-2 text-sm font-semibold text-amber-700">
+          Every unmatched item is {summary.onlyUnmatchedCategory}.
+        </p>
+      ) : null}
+      <table className="mt-2 w-full text-left text-xs text-slate-600">
+        <thead className="text-slate-400">
+          <tr>
+            <th className="py-1 pr-2 font-medium">Category</th>
+            <th className="py-1 pr-2 text-right font-medium">Matched</th>
+            <th className="py-1 text-right font-medium">Unmatched</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summary.rows.map((row) => (
+            <tr key={row.category} className="border-t border-slate-100">
+              <td className="py-1 pr-2">
+                <span className="font-semibold text-slate-700">{row.category}</span>
+                {row.account ? (
+                  <span className="block text-[10px] text-slate-400">
+                    {row.account.code} {row.account.name}
+                  </span>
+                ) : null}
+              </td>
+              <td className="py-1 pr-2 text-right">
+                {row.matched.count} · {formatCurrency(row.matched.amount)}
+              </td>
+              <td className={`py-1 text-right ${row.unmatched.count > 0 ? "font-semibold text-amber-700" : ""}`}>
+                {row.unmatched.count} · {formatCurrency(row.unmatched.amount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-[10px] text-slate-400">
+        Matched counts ledger entries settled; unmatched counts open items on both sides.
+      </p>
+    </div>
+  );
+}
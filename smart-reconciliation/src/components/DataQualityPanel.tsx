@@ -0,0 +1,108 @@
+"use client";
+
+import {
+  DATA_QUALITY_LABELS,
+  type DataQualityIssue,
+  type DataQualityKind,
+  type DataQualityReport,
+  type Exclusions,
+} from "@/lib/dataQuality";
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  exclusions: Exclusions;
+  disabled?: boolean;
+  onChange: (exclusions: Exclusions) => void;
+}
+
+/** Finding kinds whose suggested rows are excluded by the bulk action; outliers and period breaks need a judgement. */
+const BULK_KINDS: DataQualityKind[] = ["duplicate", "reversal", "malformed-amount"];
+
+function isExcluded(issue: DataQualityIssue, exclusions: Exclusions) {
+  return issue.suggestedExclusions.every((id) => exclusions[issue.side].includes(id));
+}
+
+function withIssue(exclusions: Exclusions, issue: DataQualityIssue, exclude: boolean): Exclusions {
+  const rows = issue.suggestedExclusions;
+  const current = exclusions[issue.side].filter((id) => !rows.includes(id));
+  return { ...exclusions, [issue.side]: exclude ? [...current, ...rows] : current };
+}
+
+export function DataQualityPanel({ report, exclusions, disabled = false, onChange }: DataQualityPanelProps) {
+  const excludedCount = exclusions.statement.length + exclusions.ledger.length;
+
+  function excludeSuggested() {
+    onChange(
+      report.issues
+        .filter((issue) => BULK_KINDS.includes(issue.kind))
+        .reduce((next, issue) => withIssue(next, issue, true), exclusions),
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-600">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-medium text-slate-700">Data Quality</p>
+        <p className="text-xs text-slate-500">
+          {report.issues.length} findings · {excludedCount} rows excluded from matching
+        </p>
+      </div>
+      {report.issues.length === 0 ? (
+        <p className="text-xs text-slate-500">No duplicates, reversals, period breaks or unusual amounts found.</p>
+      ) : (
+        <>
+          <ul className="flex flex-wrap gap-2 text-xs">
+            {(Object.keys(DATA_QUALITY_LABELS) as DataQualityKind[]).map((kind) => (
+              <li key={kind} className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-600">
+                {DATA_QUALITY_LABELS[kind]}: {report.counts[kind]}
+              </li>
+            ))}
+          </ul>
+          {disabled ? null : (
+            <div className="flex gap-2 text-xs font-semibold">
+              <button
+                type="button"
+                onClick={excludeSuggested}
+                className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-700 hover:bg-slate-100"
+              >
+                Exclude duplicates, reversals &amp; malformed rows
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ statement: [], ledger: [] })}
+                className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-700 hover:bg-slate-100"
+              >
+                Keep everything
+              </button>
+            </div>
+          )}
+          <ul className="max-h-72 space-y-2 overflow-auto text-xs">
+            {report.issues.map((issue) => {
+              const excluded = isExcluded(issue, exclusions);
+              return (
+                <li
+                  key={issue.id}
+                  className={`flex items-start justify-between gap-3 rounded-lg px-3 py-2 ${excluded ? "bg-slate-100 text-slate-400" : "bg-amber-50 text-amber-900"}`}
+                >
+                  <span>
+                    <span className="block font-semibold">{DATA_QUALITY_LABELS[issue.kind]}</span>
+                    {issue.message}
+                  </span>
+                  {disabled ? null : (
+                    <button
+                      type="button"
+                      onClick={() => onChange(withIssue(exclusions, issue, !excluded))}
+                      className="shrink-0 rounded-md border border-slate-200 bg-white px-2 py-1 font-semibold text-slate-700 hover:bg-slate-100"
+                    >
+                      {excluded ? "Keep" : "Exclude"}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
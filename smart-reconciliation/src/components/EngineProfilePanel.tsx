@@ -0,0 +1,389 @@
+"use client";
+
+import { useState } from "react";
+import {
+  createEngineProfileId,
+  deleteEngineProfile,
+  parseEngineProfiles,
+  saveEngineProfile,
+  serializeEngineProfiles,
+  type EngineProfile,
+} from "@/lib/engineProfiles";
+import { loadImportProfiles } from "@/lib/importMapping";
+import type { MatchingRule } from "@/lib/ruleEngine";
+import { compareSessions, type SessionComparison } from "@/lib/sessions";
+import type { EngineConfig } from "@/lib/types";
+import type { EngineRun } from "@/lib/workbench";
+
+interface EngineProfilePanelProps {
+  profiles: EngineProfile[];
+  activeId: string | null;
+  config: EngineConfig;
+  matchingRules: MatchingRule[];
+  disabled?: boolean;
+  onApply: (profile: EngineProfile) => void;
+  onProfilesChange: (profiles: EngineProfile[]) => void;
+  /** Runs the current statement and ledger through a profile without touching the page's own run. */
+  onCompare: (profile: EngineProfile) => Promise<EngineRun>;
+}
+
+interface ProfileComparison {
+  left: EngineProfile;
+  right: EngineProfile;
+  diff: SessionComparison;
+  rulesOnlyInLeft: string[];
+  rulesOnlyInRight: string[];
+}
+
+const selectClassName =
+  "rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+/** Shown per side, so a long list of differences does not push the rest of the panel away. */
+const MAX_LISTED = 50;
+
+function download(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function ruleNamesOnlyIn(profile: EngineProfile, other: EngineProfile) {
+  const names = new Set(other.matchingRules.map((rule) => rule.name));
+  return profile.matchingRules.map((rule) => rule.name).filter((name) => !names.has(name));
+}
+
+export function EngineProfilePanel({
+  profiles,
+  activeId,
+  config,
+  matchingRules,
+  disabled = false,
+  onApply,
+  onProfilesChange,
+  onCompare,
+}: EngineProfilePanelProps) {
+  const active = profiles.find((profile) => profile.id === activeId) ?? null;
+  const [importMappings] = useState(() => loadImportProfiles());
+  const [mappingId, setMappingId] = useState(active?.importMapping?.id ?? "");
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [leftId, setLeftId] = useState(activeId ?? profiles[0]?.id ?? "");
+  const [rightId, setRightId] = useState(profiles.find((profile) => profile.id !== leftId)?.id ?? "");
+  const [comparing, setComparing] = useState(false);
+  const [comparison, setComparison] = useState<ProfileComparison | null>(null);
+
+  function current(base: Pick<EngineProfile, "id" | "name">): EngineProfile {
+    const mapping =
+      importMappings.find((entry) => entry.id === mappingId) ??
+      (active?.importMapping?.id === mappingId ? active.importMapping : null);
+    return { ...base, config, matchingRules, importMapping: mapping };
+  }
+
+  function run(action: () => string) {
+    try {
+      setMessage(action());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the profile.");
+      setMessage(null);
+    }
+  }
+
+  function handleSelect(id: string) {
+    const profile = profiles.find((entry) => entry.id === id);
+    if (!profile) return;
+    setMappingId(profile.importMapping?.id ?? "");
+    setError(null);
+    setMessage(`Applied “${profile.name}”.`);
+    onApply(profile);
+  }
+
+  function handleUpdate() {
+    run(() => {
+      if (!active) throw new Error("Choose a profile to update.");
+      const profile = current(active);
+      onProfilesChange(saveEngineProfile(profile));
+      return `Updated “${profile.name}”.`;
+    });
+  }
+
+  function handleSaveAs() {
+    run(() => {
+      const profile = current({ id: createEngineProfileId(), name: newName });
+      const next = saveEngineProfile(profile);
+      onProfilesChange(next);
+      onApply(profile);
+      setNewName("");
+      return `Saved “${profile.name}”.`;
+    });
+  }
+
+  function handleDelete() {
+    if (!active || active.builtIn) return;
+    onProfilesChange(deleteEngineProfile(active.id));
+    setMessage(`Deleted “${active.name}”.`);
+  }
+
+  async function handleImport(file: File | undefined) {
+    if (!file) return;
+    const text = await file.text();
+    run(() => {
+      const imported = parseEngineProfiles(text);
+      let next = profiles;
+      for (const profile of imported) next = saveEngineProfile(profile);
+      onProfilesChange(next);
+      return `Imported ${imported.length} profile${imported.length === 1 ? "" : "s"} from ${file.name}.`;
+    });
+  }
+
+  async function handleCompare() {
+    const left = profiles.find((profile) => profile.id === leftId);
+    const right = profiles.find((profile) => profile.id === rightId);
+    if (!left || !right) return;
+    setComparing(true);
+    setComparison(null);
+    try {
+      // One after the other, so two large runs do not compete for memory.
+      const leftRun = await onCompare(left);
+      const rightRun = await onCompare(right);
+      setComparison({
+        left,
+        right,
+        diff: compareSessions(
+          { run: leftRun, decisions: [], config: left.config },
+          { run: rightRun, decisions: [], config: right.config },
+        ),
+        rulesOnlyInLeft: ruleNamesOnlyIn(left, right),
+        rulesOnlyInRight: ruleNamesOnlyIn(right, left),
+      });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to compare the profiles.");
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  const custom = profiles.filter((profile) => !profile.builtIn);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-100 px-4 py-3 text-sm text-slate-600">
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor="engineProfile" className="font-medium text-slate-700">
+          Profile
+        </label>
+        <select
+          id="engineProfile"
+          value={activeId ?? ""}
+          disabled={disabled}
+          onChange={(event) => handleSelect(event.target.value)}
+          className={selectClassName}
+        >
+          <option value="" disabled>
+            Choose a profile…
+          </option>
+          <optgroup label="Presets">
+            {profiles
+              .filter((profile) => profile.builtIn)
+              .map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+          </optgroup>
+          {custom.length > 0 ? (
+            <optgroup label="Saved profiles">
+              {custom.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
+        </select>
+      </div>
+      <p className="text-xs text-slate-500">
+        A profile holds the settings below, the custom rules and the statement import mapping for one kind of account.
+        Reset keeps the active profile&apos;s settings.
+      </p>
+
+      <fieldset disabled={disabled} className="space-y-2 text-xs">
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor="profileMapping" className="font-medium text-slate-700">
+            Statement mapping
+          </label>
+          <select
+            id="profileMapping"
+            value={mappingId}
+            onChange={(event) => setMappingId(event.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Standard CSV</option>
+            {active?.importMapping && !importMappings.some((entry) => entry.id === active.importMapping?.id) ? (
+              <option value={active.importMapping.id}>{active.importMapping.name}</option>
+            ) : null}
+            {importMappings.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            aria-label="New profile name"
+            placeholder="New profile name"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            className="min-w-[8rem] flex-1 rounded-md border border-slate-200 px-2 py-1 text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          />
+          <button
+            type="button"
+            onClick={handleSaveAs}
+            className="rounded-md bg-slate-900 px-2 py-1 font-semibold text-white hover:bg-slate-700"
+          >
+            Save as new
+          </button>
+          {active && !active.builtIn ? (
+            <>
+              <button
+                type="button"
+                onClick={handleUpdate}
+                className="rounded-md border border-slate-200 bg-white px-2 py-1 font-semibold text-slate-700 hover:bg-slate-100"
+              >
+                Update “{active.name}”
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="rounded-md border border-rose-200 bg-white px-2 py-1 font-semibold text-rose-600 hover:bg-rose-50"
+              >
+                Delete
+              </button>
+            </>
+          ) : null}
+        </div>
+        <div className="flex items-center gap-3 font-semibold">
+          <button
+            type="button"
+            onClick={() => download("engine-profiles.json", serializeEngineProfiles(custom))}
+            disabled={custom.length === 0}
+            className="text-sky-700 hover:text-sky-600 disabled:cursor-not-allowed disabled:text-slate-400"
+          >
+            Export JSON
+          </button>
+          <label className="cursor-pointer text-sky-700 hover:text-sky-600">
+            Import JSON
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="sr-only"
+              onChange={(event) => {
+                void handleImport(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </fieldset>
+
+      {error ? <p className="text-xs text-rose-600">{error}</p> : null}
+      {message ? <p className="text-xs text-emerald-600">{message}</p> : null}
+
+      <details className="text-xs">
+        <summary className="cursor-pointer font-semibold text-slate-700">Compare two profiles on this data</summary>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {[
+            { label: "First profile", value: leftId, onChange: setLeftId },
+            { label: "Second profile", value: rightId, onChange: setRightId },
+          ].map((picker) => (
+            <select
+              key={picker.label}
+              aria-label={picker.label}
+              value={picker.value}
+              onChange={(event) => picker.onChange(event.target.value)}
+              className={selectClassName}
+            >
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          ))}
+          <button
+            type="button"
+            onClick={() => void handleCompare()}
+            disabled={comparing || !leftId || !rightId || leftId === rightId}
+            className="rounded-md border border-slate-200 bg-white px-2 py-1 font-semibold text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {comparing ? "Comparing…" : "Compare"}
+          </button>
+        </div>
+
+        {comparison ? (
+          <div className="mt-3 space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {[
+                { profile: comparison.left, stats: comparison.diff.left, only: comparison.diff.onlyInLeft },
+                { profile: comparison.right, stats: comparison.diff.right, only: comparison.diff.onlyInRight },
+              ].map(({ profile, stats, only }) => (
+                <div key={profile.id} className="rounded-lg bg-slate-50 px-3 py-2">
+                  <p className="font-semibold text-slate-900">{profile.name}</p>
+                  {stats ? (
+                    <p className="mt-1 text-slate-600">
+                      Coverage {stats.coverage.toFixed(0)}% · {stats.matched} matched · {stats.aggregated} aggregated ·{" "}
+                      {stats.unmatchedStatement + stats.unmatchedLedger} unmatched
+                    </p>
+                  ) : null}
+                  <p className="mt-2 font-semibold uppercase tracking-wide text-slate-500">
+                    Only with this profile ({only.length})
+                  </p>
+                  <ul className="mt-1 space-y-0.5 font-mono text-slate-600">
+                    {only.slice(0, MAX_LISTED).map((key) => (
+                      <li key={key}>{key}</li>
+                    ))}
+                    {only.length > MAX_LISTED ? <li>… and {only.length - MAX_LISTED} more</li> : null}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            {comparison.diff.configChanges.length > 0 ? (
+              <div>
+                <p className="font-semibold text-slate-700">Settings that differ</p>
+                <ul className="mt-1 list-disc pl-5">
+                  {comparison.diff.configChanges.map((change) => (
+                    <li key={change.key}>
+                      {change.key}: {JSON.stringify(change.left)} → {JSON.stringify(change.right)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+            {comparison.rulesOnlyInLeft.length + comparison.rulesOnlyInRight.length > 0 ? (
+              <div>
+                <p className="font-semibold text-slate-700">Rules that differ</p>
+                <ul className="mt-1 list-disc pl-5">
+                  {comparison.rulesOnlyInLeft.map((name) => (
+                    <li key={`left-${name}`}>
+                      “{name}” only in {comparison.left.name}
+                    </li>
+                  ))}
+                  {comparison.rulesOnlyInRight.map((name) => (
+                    <li key={`right-${name}`}>
+                      “{name}” only in {comparison.right.name}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </details>
+    </div>
+  );
+}
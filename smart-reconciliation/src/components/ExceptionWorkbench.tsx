@@ -0,0 +1,433 @@
+"use client";
+
+import { useState } from "react";
+import { ReviewCardFooter } from "@/components/MatchReview";
+import { ScoreBreakdownView } from "@/components/ScoreBreakdownView";
+import { formatCurrency } from "@/lib/format";
+import { BASE_CURRENCY, conversionsOf, formatMoney, inBaseCurrency } from "@/lib/fx";
+import { reviewKey, type ReviewAction, type ReviewItem } from "@/lib/review";
+import { findNearMisses } from "@/lib/scoreBreakdown";
+import type { EngineConfig } from "@/lib/types";
+import { useVirtualRows, type VirtualRows } from "@/lib/virtualRows";
+import {
+  DIFFERENCE_REASON_CODES,
+  describeDecision,
+  describeReasonCode,
+  sumAmounts,
+  type DifferenceReasonCode,
+  type Transaction,
+  type WorkbenchRun,
+} from "@/lib/workbench";
+
+interface ExceptionWorkbenchProps {
+  result: WorkbenchRun;
+  onManualMatch: (input: {
+    statementIds: string[];
+    ledgerIds: string[];
+    reasonCode?: DifferenceReasonCode;
+    note?: string;
+  }) => boolean;
+  /** Removes a decision from the log: a manual match, an unmatch or an accepted difference. */
+  onUndoDecision: (decisionId: string) => void;
+  error: string | null;
+  readOnly?: boolean;
+  config: EngineConfig;
+  /** Chart-of-accounts categories suggested when editing a row's category. */
+  categories?: string[];
+  onCategoryChange?: (side: "statement" | "ledger", id: string, category: string) => void;
+  /** Maker-checker review of the manual matches, keyed like the engine's matches. */
+  review?: {
+    items: Map<string, ReviewItem>;
+    threadKey: string | null;
+    onRecord: (key: string, action: Exclude<ReviewAction, "comment">) => void;
+    onComment: (key: string, text: string) => boolean;
+    onToggleThread: (key: string) => void;
+  };
+}
+
+function toggle(ids: string[], id: string) {
+  return ids.includes(id) ? ids.filter((entry) => entry !== id) : [...ids, id];
+}
+
+/** The top rejected alternatives for one exception, computed when the reviewer opens the drill-down. */
+function NearMisses({
+  item,
+  side,
+  result,
+  config,
+}: {
+  item: Transaction;
+  side: "statement" | "ledger";
+  result: WorkbenchRun;
+  config: EngineConfig;
+}) {
+  const [open, setOpen] = useState(false);
+  const misses = open ? findNearMisses(item, side, result, config) : [];
+  return (
+    <details className="mt-1 pl-7 text-xs" open={open} onToggle={(event) => setOpen(event.currentTarget.open)}>
+      <summary className="cursor-pointer font-semibold text-amber-800">Near misses</summary>
+      {open && misses.length === 0 ? (
+        <p className="mt-1 text-amber-700">No candidate within a month or 10% of the amount.</p>
+      ) : null}
+      <ol className="mt-1 space-y-2">
+        {misses.map((miss) => (
+          <li key={miss.candidate.id} className="rounded-md bg-white px-3 py-2 text-slate-600">
+            <p className="font-semibold text-slate-800">
+              {miss.candidate.description} · {miss.candidate.normalizedDate} · {formatCurrency(miss.candidate.amount)}
+            </p>
+            <ul className="my-1 list-disc pl-5 text-rose-700">
+              {miss.failures.map((failure) => (
+                <li key={failure}>{failure}</li>
+              ))}
+            </ul>
+            <ScoreBreakdownView breakdown={miss.breakdown} />
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
+
+/** The row's category as an inline field, committed when it loses focus or on Enter. */
+function CategoryField({ tx, onCommit }: { tx: Transaction; onCommit: (category: string) => void }) {
+  return (
+    <input
+      key={`${tx.id}:${tx.category}`}
+      aria-label={`Category of ${tx.description}`}
+      list="exception-categories"
+      defaultValue={tx.category}
+      onBlur={(event) => {
+        const category = event.target.value.trim();
+        if (category && category !== tx.category) onCommit(category);
+      }}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") event.currentTarget.blur();
+      }}
+      className="w-28 rounded border border-amber-200 bg-white px-1 py-0 text-xs text-amber-900 focus:border-amber-500 focus:outline-none focus:ring-1 focus:ring-amber-500"
+    />
+  );
+}
+
+function ExceptionList({
+  rows,
+  selected,
+  readOnly,
+  onToggle,
+  side,
+  result,
+  config,
+  onCategoryChange,
+}: {
+  rows: VirtualRows<Transaction>;
+  selected: string[];
+  readOnly: boolean;
+  onToggle: (id: string) => void;
+  side: "statement" | "ledger";
+  result: WorkbenchRun;
+  config: EngineConfig;
+  onCategoryChange?: (side: "statement" | "ledger", id: string, category: string) => void;
+}) {
+  const conversions = conversionsOf(result.fx);
+  return (
+    <ul
+      onScroll={rows.onScroll}
+      style={rows.enabled ? { maxHeight: rows.viewportHeight } : undefined}
+      className={`mt-2 space-y-2 ${rows.enabled ? "overflow-auto pr-1" : ""}`}
+    >
+      {rows.before > 0 ? <li aria-hidden style={{ height: rows.before }} /> : null}
+      {rows.rows.map(({ item: tx }) => (
+        <li key={tx.id} className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2">
+          <label className="flex cursor-pointer items-start gap-3">
+            <input
+              type="checkbox"
+              checked={selected.includes(tx.id)}
+              disabled={readOnly}
+              onChange={() => onToggle(tx.id)}
+              className="mt-1 h-4 w-4 rounded border-amber-300 text-amber-600 focus:ring-amber-500"
+            />
+            <span>
+              <span className="block font-medium text-amber-900">{tx.description}</span>
+              <span className="block text-xs text-amber-700">
+                {tx.normalizedDate} ·{" "}
+                {onCategoryChange && !readOnly ? (
+                  <CategoryField tx={tx} onCommit={(category) => onCategoryChange(side, tx.id, category)} />
+                ) : (
+                  tx.category
+                )}{" "}
+                · {formatMoney(tx.amount, tx.currency)}
+                {tx.originPeriod ? ` · carried from ${tx.originPeriod}` : null}
+                {inBaseCurrency(tx, conversions) ? null : (
+                  <span className="ml-1 rounded bg-amber-200 px-1 font-semibold text-amber-900">
+                    unconverted: no {tx.currency}/{BASE_CURRENCY} rate paired it
+                  </span>
+                )}
+              </span>
+            </span>
+          </label>
+          <NearMisses item={tx} side={side} result={result} config={config} />
+        </li>
+      ))}
+      {rows.after > 0 ? <li aria-hidden style={{ height: rows.after }} /> : null}
+    </ul>
+  );
+}
+
+export function ExceptionWorkbench({
+  result,
+  onManualMatch,
+  onUndoDecision,
+  error,
+  readOnly = false,
+  config,
+  categories = [],
+  onCategoryChange,
+  review,
+}: ExceptionWorkbenchProps) {
+  const [selectedStatements, setSelectedStatements] = useState<string[]>([]);
+  const [selectedLedger, setSelectedLedger] = useState<string[]>([]);
+  const [reasonCode, setReasonCode] = useState<DifferenceReasonCode | "">("");
+  const [note, setNote] = useState("");
+  const statementRows = useVirtualRows(result.unmatchedStatements, 68);
+  const ledgerRows = useVirtualRows(result.unmatchedLedger, 68);
+
+  const statementSelection = result.unmatchedStatements.filter((tx) => selectedStatements.includes(tx.id));
+  const ledgerSelection = result.unmatchedLedger.filter((tx) => selectedLedger.includes(tx.id));
+  const difference = sumAmounts(statementSelection) - sumAmounts(ledgerSelection);
+  const hasSelection = statementSelection.length > 0 || ledgerSelection.length > 0;
+  const staleIds = new Set(result.staleDecisions.map((entry) => entry.decision.id));
+  const otherDecisions = result.decisions.filter((decision) => decision.kind !== "match" && !staleIds.has(decision.id));
+
+  function handleMatch() {
+    const recorded = onManualMatch({
+      statementIds: statementSelection.map((tx) => tx.id),
+      ledgerIds: ledgerSelection.map((tx) => tx.id),
+      reasonCode: reasonCode || undefined,
+      note: note.trim() || undefined,
+    });
+    if (!recorded) return;
+    setSelectedStatements([]);
+    setSelectedLedger([]);
+    setReasonCode("");
+    setNote("");
+  }
+
+  return (
+    <div className="rounded-2xl border border-amber-200 bg-white p-6 shadow-sm">
+      <h3 className="text-lg font-semibold text-amber-900">Remaining Exceptions</h3>
+      <p className="mt-1 text-sm text-amber-800">
+        Select statement lines and ledger entries to force a manual match. One-to-one and many-to-one pairings are
+        supported.
+      </p>
+      <datalist id="exception-categories">
+        {categories.map((category) => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
+      <div className="mt-4 space-y-4 text-sm text-amber-800">
+        <div>
+          <p className="font-semibold">Unmatched Statements</p>
+          <ExceptionList
+            rows={statementRows}
+            selected={selectedStatements}
+            readOnly={readOnly}
+            side="statement"
+            result={result}
+            config={config}
+            onCategoryChange={onCategoryChange}
+            onToggle={(id) => setSelectedStatements((previous) => toggle(previous, id))}
+          />
+          {result.unmatchedStatements.length === 0 ? (
+            <p className="mt-2 rounded-md bg-amber-50/60 px-3 py-2 text-xs text-amber-700">
+              Statement side looks tidy.
+            </p>
+          ) : null}
+        </div>
+        <div>
+          <p className="font-semibold">Unmatched Ledger Entries</p>
+          <ExceptionList
+            rows={ledgerRows}
+            selected={selectedLedger}
+            readOnly={readOnly}
+            side="ledger"
+            result={result}
+            config={config}
+            onCategoryChange={onCategoryChange}
+            onToggle={(id) => setSelectedLedger((previous) => toggle(previous, id))}
+          />
+          {result.unmatchedLedger.length === 0 ? (
+            <p className="mt-2 rounded-md bg-amber-50/60 px-3 py-2 text-xs text-amber-700">
+              Ledger side fully reconciled.
+            </p>
+          ) : null}
+        </div>
+
+        {hasSelection && !readOnly ? (
+          <div className="space-y-3 rounded-xl border border-amber-300 bg-amber-50/80 px-4 py-3">
+            <p className="text-xs text-amber-800">
+              {statementSelection.length} statement · {ledgerSelection.length} ledger selected · Statement{" "}
+              {formatCurrency(sumAmounts(statementSelection))} · Ledger {formatCurrency(sumAmounts(ledgerSelection))} ·
+              Difference <span className="font-semibold">{formatCurrency(difference)}</span>
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="workbenchReason" className="text-xs font-medium text-amber-900">
+                Reason code
+              </label>
+              <select
+                id="workbenchReason"
+                value={reasonCode}
+                onChange={(event) => setReasonCode(event.target.value as DifferenceReasonCode | "")}
+                className="rounded-md border border-amber-200 bg-white px-2 py-1 text-xs text-amber-900 focus:border-amber-500 focus:outline-none focus:ring-1 focus:ring-amber-500"
+              >
+                <option value="">None (must balance)</option>
+                {DIFFERENCE_REASON_CODES.map((entry) => (
+                  <option key={entry.code} value={entry.code}>
+                    {entry.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={note}
+                placeholder="Note (optional)"
+                onChange={(event) => setNote(event.target.value)}
+                className="min-w-[8rem] flex-1 rounded-md border border-amber-200 bg-white px-2 py-1 text-xs text-amber-900 focus:border-amber-500 focus:outline-none focus:ring-1 focus:ring-amber-500"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={handleMatch}
+                className="inline-flex items-center justify-center rounded-lg bg-amber-600 px-3 py-1.5 text-xs font-semibold text-white shadow hover:bg-amber-500"
+              >
+                Force manual match
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedStatements([]);
+                  setSelectedLedger([]);
+                }}
+                className="inline-flex items-center justify-center rounded-lg border border-amber-200 bg-white px-3 py-1.5 text-xs font-semibold text-amber-800 hover:bg-amber-100"
+              >
+                Clear selection
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {error ? (
+          <div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-xs text-rose-700">{error}</div>
+        ) : null}
+
+        {result.manual.length > 0 ? (
+          <div>
+            <p className="font-semibold">Manual Matches</p>
+            <ul className="mt-2 space-y-2">
+              {result.manual.map((match) => {
+                const key = reviewKey(
+                  match.statements.map((tx) => tx.id),
+                  match.ledger.map((tx) => tx.id),
+                );
+                const reviewItem = review?.items.get(key);
+                return (
+                  <li
+                    key={match.id}
+                    className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-slate-700"
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="font-medium text-slate-900">
+                          {match.statements.map((tx) => tx.description).join("; ")} ⇄{" "}
+                          {match.ledger.map((tx) => tx.description).join("; ")}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {formatCurrency(match.statementTotal)} vs {formatCurrency(match.ledgerTotal)}
+                          {match.reasonCode ? ` · ${describeReasonCode(match.reasonCode)}` : null}
+                        </p>
+                      </div>
+                      {readOnly ? null : (
+                        <button
+                          type="button"
+                          onClick={() => onUndoDecision(match.id)}
+                          className="shrink-0 rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100"
+                        >
+                          Undo
+                        </button>
+                      )}
+                    </div>
+                    {review && reviewItem ? (
+                      <ReviewCardFooter
+                        item={reviewItem}
+                        disabled={readOnly}
+                        threadOpen={review.threadKey === key}
+                        onRecord={(action) => review.onRecord(key, action)}
+                        onComment={(text) => review.onComment(key, text)}
+                        onToggleThread={() => review.onToggleThread(key)}
+                      />
+                    ) : null}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ) : null}
+
+        {otherDecisions.length > 0 ? (
+          <div>
+            <p className="font-semibold">Unmatched and Accepted Differences</p>
+            <ul className="mt-2 space-y-2">
+              {otherDecisions.map((decision) => (
+                <li
+                  key={decision.id}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-slate-700"
+                >
+                  <p className="text-xs">{describeDecision(decision)}</p>
+                  {readOnly ? null : (
+                    <button
+                      type="button"
+                      onClick={() => onUndoDecision(decision.id)}
+                      className="shrink-0 rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100"
+                    >
+                      Undo
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        {result.staleDecisions.length > 0 ? (
+          <div>
+            <p className="font-semibold">Decisions Not Applied</p>
+            <p className="mt-1 text-xs text-slate-500">
+              These decisions no longer fit the current run. They stay in the log until you remove them.
+            </p>
+            <ul className="mt-2 space-y-2">
+              {result.staleDecisions.map(({ decision, reason }) => (
+                <li
+                  key={decision.id}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-amber-800"
+                >
+                  <div className="text-xs">
+                    <p className="font-medium">{describeDecision(decision)}</p>
+                    <p>{reason}</p>
+                  </div>
+                  {readOnly ? null : (
+                    <button
+                      type="button"
+                      onClick={() => onUndoDecision(decision.id)}
+                      className="shrink-0 rounded-md border border-amber-200 bg-white px-2 py-1 text-xs font-semibold text-amber-700 hover:bg-amber-100"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
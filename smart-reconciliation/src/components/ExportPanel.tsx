@@ -0,0 +1,150 @@
+"use client";
+
+import { useMemo } from "react";
+import type { BalanceInputs } from "@/lib/balanceProof";
+import type { CategoryOverrides } from "@/lib/categorisation";
+import {
+  aggregationSheet,
+  buildJournalEntries,
+  buildWorkbook,
+  journalSheet,
+  matchedSheet,
+  serializeRun,
+  sheetToCsv,
+  unmatchedSheet,
+} from "@/lib/export";
+import { formatCurrency } from "@/lib/format";
+import type { FxSettings } from "@/lib/fx";
+import type { ReviewEntry } from "@/lib/review";
+import type { EngineConfig } from "@/lib/types";
+import type { EngineRun, ManualDecision, WorkbenchRun } from "@/lib/workbench";
+
+interface ExportPanelProps {
+  result: WorkbenchRun;
+  engineRun: EngineRun;
+  decisions: ManualDecision[];
+  review: ReviewEntry[];
+  categoryOverrides: CategoryOverrides;
+  fx: FxSettings;
+  config: EngineConfig;
+  balances: BalanceInputs;
+  name: string;
+  period: string;
+}
+
+function download(fileName: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileStem(name: string, period: string) {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "reconciliation"}-${period}`;
+}
+
+export function ExportPanel({
+  result,
+  engineRun,
+  decisions,
+  review,
+  categoryOverrides,
+  fx,
+  config,
+  balances,
+  name,
+  period,
+}: ExportPanelProps) {
+  const journal = useMemo(() => buildJournalEntries(result), [result]);
+  const stem = fileStem(name, period);
+  const journalTotal = journal.reduce((sum, entry) => sum + entry.amount, 0);
+
+  const actions = [
+    {
+      label: "Matches CSV",
+      onClick: () => download(`${stem}-matches.csv`, sheetToCsv(matchedSheet(result)), "text/csv"),
+    },
+    {
+      label: "Aggregations CSV",
+      onClick: () => download(`${stem}-aggregations.csv`, sheetToCsv(aggregationSheet(result)), "text/csv"),
+    },
+    {
+      label: "Unmatched CSV",
+      onClick: () => download(`${stem}-unmatched.csv`, sheetToCsv(unmatchedSheet(result)), "text/csv"),
+    },
+    {
+      label: "Workbook XLSX",
+      onClick: () =>
+        download(
+          `${stem}.xlsx`,
+          buildWorkbook(result, journal),
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        ),
+    },
+    {
+      label: "Run JSON",
+      onClick: () =>
+        download(
+          `${stem}.json`,
+          serializeRun({
+            name,
+            period,
+            config,
+            balances,
+            run: engineRun,
+            decisions,
+            review,
+            categoryOverrides,
+            fx,
+          }),
+          "application/json",
+        ),
+    },
+  ];
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h3 className="text-lg font-semibold text-slate-900">Export</h3>
+      <p className="mt-1 text-sm text-slate-600">
+        Download the results for audit evidence, or the full run as JSON to re-open it later with Import run.
+      </p>
+      <div className="mt-4 flex flex-wrap gap-2">
+        {actions.map((action) => (
+          <button
+            key={action.label}
+            type="button"
+            onClick={action.onClick}
+            className="rounded-md border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center justify-between gap-3 border-t border-slate-100 pt-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-900">Draft adjusting journal entries</p>
+          <p className="text-xs text-slate-500">
+            {journal.length === 0
+              ? "No bank-only items or accepted differences need posting."
+              : `${journal.length} entries totalling ${formatCurrency(journalTotal)} for bank-only items and accepted differences. Review the accounts before posting.`}
+          </p>
+        </div>
+        <button
+          type="button"
+          disabled={journal.length === 0}
+          onClick={() => download(`${stem}-journal.csv`, sheetToCsv(journalSheet(journal)), "text/csv")}
+          className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Journal entries CSV
+        </button>
+      </div>
+    </div>
+  );
+}
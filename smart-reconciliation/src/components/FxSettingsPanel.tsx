@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { BASE_CURRENCY, parseFxRates, type FxSettings } from "@/lib/fx";
+
+interface FxSettingsPanelProps {
+  settings: FxSettings;
+  disabled?: boolean;
+  onChange: (settings: FxSettings) => void;
+}
+
+export function FxSettingsPanel({ settings, disabled = false, onChange }: FxSettingsPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const pairs = [...new Set(settings.rates.map((rate) => `${rate.base}/${rate.quote}`))].sort();
+  const range = settings.rates.length
+    ? `${settings.rates[0].date} – ${settings.rates[settings.rates.length - 1].date}`
+    : null;
+
+  async function handleRates(file: File) {
+    try {
+      const rates = parseFxRates(await file.text());
+      onChange({ ...settings, rates });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read the FX rate table.");
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-100 px-4 py-3 text-sm text-slate-600">
+      <p className="font-medium text-slate-700">Currencies</p>
+      <p className="text-xs text-slate-500">
+        The ledger is booked in {BASE_CURRENCY}. Statement lines in another currency are converted at the rate for their
+        date before matching; a <code>currency</code> column in the statement overrides the account currency.
+      </p>
+      <fieldset disabled={disabled} className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label htmlFor="statementCurrency" className="font-medium text-slate-700">
+            Statement currency
+          </label>
+          <input
+            id="statementCurrency"
+            value={settings.statementCurrency}
+            maxLength={3}
+            onChange={(event) => onChange({ ...settings, statementCurrency: event.target.value.toUpperCase() })}
+            className="w-20 rounded-md border border-slate-200 px-2 py-1 text-right uppercase text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <label htmlFor="fxTolerance" className="font-medium text-slate-700">
+            FX tolerance (%)
+          </label>
+          <input
+            id="fxTolerance"
+            type="number"
+            min={0}
+            max={20}
+            step={0.1}
+            value={Math.round(settings.tolerance * 1000) / 10}
+            onChange={(event) =>
+              onChange({ ...settings, tolerance: (Number.parseFloat(event.target.value) || 0) / 100 })
+            }
+            className="w-20 rounded-md border border-slate-200 px-2 py-1 text-right text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          />
+        </div>
+        <label className="block text-xs font-semibold text-sky-700 hover:text-sky-600">
+          Import FX rates (.csv: date, pair, rate)
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) void handleRates(file);
+            }}
+          />
+        </label>
+      </fieldset>
+      {settings.rates.length > 0 ? (
+        <p className="text-xs text-slate-500">
+          {settings.rates.length} rates for {pairs.join(", ")} · {range}
+        </p>
+      ) : (
+        <p className="text-xs text-slate-500">No FX rates loaded; foreign-currency lines are compared at face value.</p>
+      )}
+      {error ? <p className="text-xs text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  DATE_FORMATS,
+  DEFAULT_IMPORT_PROFILE,
+  createProfileId,
+  deleteImportProfile,
+  detectDelimiter,
+  loadImportProfiles,
+  previewImport,
+  saveImportProfile,
+  toCanonicalCsv,
+  type DateFormat,
+  type ImportProfile,
+  type MappedField,
+} from "@/lib/importMapping";
+
+interface ImportWizardProps {
+  title: string;
+  initialText?: string;
+  /** The mapping to start from, such as the active engine profile's. */
+  mapping?: ImportProfile | null;
+  onApply: (csv: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: { field: MappedField; label: string; layouts: ImportProfile["amountLayout"][] }[] = [
+  { field: "id", label: "Reference / id", layouts: ["single", "split"] },
+  { field: "date", label: "Date", layouts: ["single", "split"] },
+  { field: "description", label: "Description", layouts: ["single", "split"] },
+  { field: "amount", label: "Amount", layouts: ["single"] },
+  { field: "type", label: "Debit/credit indicator", layouts: ["single"] },
+  { field: "debit", label: "Debit column", layouts: ["split"] },
+  { field: "credit", label: "Credit column", layouts: ["split"] },
+  { field: "currency", label: "Currency (optional)", layouts: ["single", "split"] },
+];
+
+const DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+];
+
+const selectClassName =
+  "rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+export function ImportWizard({ title, initialText = "", mapping = null, onApply, onClose }: ImportWizardProps) {
+  const [rawText, setRawText] = useState(initialText);
+  const [profile, setProfile] = useState<ImportProfile>(() => {
+    if (mapping) return mapping;
+    return initialText
+      ? { ...DEFAULT_IMPORT_PROFILE, delimiter: detectDelimiter(initialText) }
+      : DEFAULT_IMPORT_PROFILE;
+  });
+  const [profiles, setProfiles] = useState<ImportProfile[]>(() => {
+    const stored = loadImportProfiles();
+    return mapping && !stored.some((entry) => entry.id === mapping.id) ? [...stored, mapping] : stored;
+  });
+
+  const preview = useMemo(() => {
+    if (!rawText.trim()) return null;
+    try {
+      return { ...previewImport(rawText, profile), error: null };
+    } catch (err) {
+      return {
+        header: [],
+        rows: [],
+        mapped: [],
+        issues: [],
+        error: err instanceof Error ? err.message : "Invalid mapping.",
+      };
+    }
+  }, [rawText, profile]);
+
+  const columnCount = preview
+    ? Math.max(preview.header.length, ...preview.rows.slice(0, 20).map((row) => row.length))
+    : 0;
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => ({
+    index,
+    label: preview?.header[index] ? `${index + 1}: ${preview.header[index]}` : `Column ${index + 1}`,
+  }));
+
+  function update<K extends keyof ImportProfile>(key: K, value: ImportProfile[K]) {
+    setProfile((previous) => ({ ...previous, [key]: value }));
+  }
+
+  function updateColumn(field: MappedField, value: string) {
+    setProfile((previous) => ({
+      ...previous,
+      columns: { ...previous.columns, [field]: value === "" ? null : Number.parseInt(value, 10) },
+    }));
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    const text = await file.text();
+    setRawText(text);
+    setProfile((previous) =>
+      previous.id === DEFAULT_IMPORT_PROFILE.id ? { ...previous, delimiter: detectDelimiter(text) } : previous,
+    );
+  }
+
+  function handleSelectProfile(id: string) {
+    const selected = profiles.find((entry) => entry.id === id);
+    setProfile(selected ?? DEFAULT_IMPORT_PROFILE);
+  }
+
+  function handleSaveProfile() {
+    const name = profile.name.trim();
+    if (!name) return;
+    const saved = { ...profile, name, id: profile.id === DEFAULT_IMPORT_PROFILE.id ? createProfileId() : profile.id };
+    setProfiles(saveImportProfile(saved));
+    setProfile(saved);
+  }
+
+  function handleDeleteProfile() {
+    if (profile.id === DEFAULT_IMPORT_PROFILE.id) return;
+    setProfiles(deleteImportProfile(profile.id));
+    setProfile(DEFAULT_IMPORT_PROFILE);
+  }
+
+  return (
+    <div className="space-y-4 rounded-xl border border-sky-200 bg-sky-50/60 p-4 text-sm text-slate-700">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-slate-900">{title}</p>
+        <button type="button" onClick={onClose} className="text-xs font-semibold text-slate-500 hover:text-slate-700">
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Bank profile"
+          value={profile.id}
+          onChange={(event) => handleSelectProfile(event.target.value)}
+          className={selectClassName}
+        >
+          <option value={DEFAULT_IMPORT_PROFILE.id}>New profile…</option>
+          {profiles.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          aria-label="Profile name"
+          value={profile.name}
+          onChange={(event) => update("name", event.target.value)}
+          className="min-w-[10rem] flex-1 rounded-md border border-slate-200 bg-white px-2 py-1 text-xs focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+        />
+        <button
+          type="button"
+          onClick={handleSaveProfile}
+          className="rounded-md bg-slate-900 px-2 py-1 text-xs font-semibold text-white hover:bg-slate-700"
+        >
+          Save profile
+        </button>
+        {profile.id !== DEFAULT_IMPORT_PROFILE.id ? (
+          <button
+            type="button"
+            onClick={handleDeleteProfile}
+            className="rounded-md border border-rose-200 bg-white px-2 py-1 text-xs font-semibold text-rose-600 hover:bg-rose-50"
+          >
+            Delete
+          </button>
+        ) : null}
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          onChange={(event) => void handleFile(event.target.files?.[0])}
+          className="block text-xs text-slate-600"
+        />
+        <textarea
+          aria-label="Raw export"
+          value={rawText}
+          placeholder="…or paste the raw bank export here"
+          onChange={(event) => setRawText(event.target.value)}
+          className="min-h-[6rem] w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-xs text-slate-800 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Delimiter
+          <select
+            value={profile.delimiter}
+            onChange={(event) => update("delimiter", event.target.value)}
+            className={selectClassName}
+          >
+            {DELIMITERS.map((entry) => (
+              <option key={entry.label} value={entry.value}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Quoted fields
+          <select
+            value={profile.quote}
+            onChange={(event) => update("quote", event.target.value)}
+            className={selectClassName}
+          >
+            <option value={'"'}>Double quotes</option>
+            <option value="'">Single quotes</option>
+            <option value="">Not quoted</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Date format
+          <select
+            value={profile.dateFormat}
+            onChange={(event) => update("dateFormat", event.target.value as DateFormat)}
+            className={selectClassName}
+          >
+            {DATE_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {format}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Skip lines before header
+          <input
+            type="number"
+            min={0}
+            value={profile.skipHeaderLines}
+            onChange={(event) => update("skipHeaderLines", Math.max(0, Number.parseInt(event.target.value, 10) || 0))}
+            className={selectClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Skip footer lines
+          <input
+            type="number"
+            min={0}
+            value={profile.skipFooterLines}
+            onChange={(event) => update("skipFooterLines", Math.max(0, Number.parseInt(event.target.value, 10) || 0))}
+            className={selectClassName}
+          />
+        </label>
+        <label className="flex items-center gap-2 self-end text-xs font-medium">
+          <input
+            type="checkbox"
+            checked={profile.hasHeaderRow}
+            onChange={(event) => update("hasHeaderRow", event.target.checked)}
+            className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+          />
+          First row is a header
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Decimal separator
+          <select
+            value={profile.decimalSeparator}
+            onChange={(event) => update("decimalSeparator", event.target.value as ImportProfile["decimalSeparator"])}
+            className={selectClassName}
+          >
+            <option value=".">Point (1234.56)</option>
+            <option value=",">Comma (1234,56)</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Thousand separator
+          <select
+            value={profile.thousandSeparator}
+            onChange={(event) => update("thousandSeparator", event.target.value as ImportProfile["thousandSeparator"])}
+            className={selectClassName}
+          >
+            <option value="">None</option>
+            <option value=",">Comma</option>
+            <option value=".">Point</option>
+            <option value=" ">Space</option>
+            <option value="'">Apostrophe</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium">
+          Amount layout
+          <select
+            value={profile.amountLayout}
+            onChange={(event) => update("amountLayout", event.target.value as ImportProfile["amountLayout"])}
+            className={selectClassName}
+          >
+            <option value="single">Single signed column</option>
+            <option value="split">Separate debit / credit columns</option>
+          </select>
+        </label>
+        {profile.amountLayout === "single" ? (
+          <label className="flex flex-col gap-1 text-xs font-medium">
+            Sign convention
+            <select
+              value={profile.signConvention}
+              onChange={(event) => update("signConvention", event.target.value as ImportProfile["signConvention"])}
+              className={selectClassName}
+            >
+              <option value="negative-is-debit">Negative amounts are debits</option>
+              <option value="positive-is-debit">Positive amounts are debits</option>
+            </select>
+          </label>
+        ) : null}
+      </div>
+
+      {columnCount > 0 ? (
+        <div className="grid gap-3 sm:grid-cols-3">
+          {FIELD_LABELS.filter((entry) => entry.layouts.includes(profile.amountLayout)).map((entry) => (
+            <label key={entry.field} className="flex flex-col gap-1 text-xs font-medium">
+              {entry.label}
+              <select
+                value={profile.columns[entry.field] ?? ""}
+                onChange={(event) => updateColumn(entry.field, event.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Not mapped</option>
+                {columnOptions.map((option) => (
+                  <option key={option.index} value={option.index}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      ) : null}
+
+      {preview ? (
+        <div className="space-y-3">
+          <div className="overflow-x-auto rounded-lg border border-slate-200 bg-white">
+            <table className="min-w-full divide-y divide-slate-100 text-left font-mono text-[11px] text-slate-600">
+              {preview.header.length > 0 ? (
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    {preview.header.map((label, index) => (
+                      <th key={index} className="px-2 py-1">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+              ) : null}
+              <tbody className="divide-y divide-slate-100">
+                {preview.rows.slice(0, 5).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((value, index) => (
+                      <td key={index} className="px-2 py-1">
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.error ? (
+            <p className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+              {preview.error}
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-slate-600">
+                {preview.mapped.length} rows ready · {preview.issues.length} rows skipped
+              </p>
+              <pre className="max-h-32 overflow-auto rounded-lg bg-white px-3 py-2 font-mono text-[11px] text-slate-700">
+                {toCanonicalCsv(preview.mapped.slice(0, 5))}
+              </pre>
+              {preview.issues.length > 0 ? (
+                <ul className="max-h-24 list-disc overflow-auto pl-5 text-xs text-amber-700">
+                  {preview.issues.map((issue) => (
+                    <li key={issue.line}>
+                      Line {issue.line}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </>
+          )}
+        </div>
+      ) : null}
+
+      <button
+        type="button"
+        disabled={!preview || preview.mapped.length === 0}
+        onClick={() => preview && onApply(toCanonicalCsv(preview.mapped))}
+        className="inline-flex items-center justify-center rounded-lg bg-sky-600 px-3 py-1.5 text-xs font-semibold text-white shadow hover:bg-sky-500 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Use mapped rows
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { REVIEW_STATES, type ReviewAction, type ReviewItem, type ReviewState } from "@/lib/review";
+
+const STATE_STYLES: Record<ReviewState, string> = {
+  suggested: "bg-slate-100 text-slate-600",
+  accepted: "bg-sky-100 text-sky-700",
+  rejected: "bg-rose-100 text-rose-700",
+  approved: "bg-emerald-100 text-emerald-700",
+};
+
+const buttonClassName = "rounded-md border bg-white px-2 py-1 text-xs font-semibold";
+
+export function ReviewStateBadge({ item }: { item: ReviewItem }) {
+  const label = REVIEW_STATES.find((entry) => entry.state === item.state)?.label ?? item.state;
+  const by = item.state === "approved" ? item.approvedBy : item.state === "accepted" ? item.acceptedBy : null;
+  return (
+    <span className={`inline-block rounded-full px-2 py-0.5 text-[10px] font-semibold ${STATE_STYLES[item.state]}`}>
+      {label}
+      {by ? ` · ${by}` : null}
+    </span>
+  );
+}
+
+interface ReviewControlsProps {
+  item: ReviewItem;
+  disabled?: boolean;
+  onRecord: (action: Exclude<ReviewAction, "comment">) => void;
+  onShowComments: () => void;
+}
+
+/** Accept, reject and approve buttons for the match's current state, with a link to its comment thread. */
+export function ReviewControls({ item, disabled = false, onRecord, onShowComments }: ReviewControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-1">
+      {disabled || item.state === "approved" ? null : (
+        <>
+          {item.state === "accepted" ? (
+            <button
+              type="button"
+              onClick={() => onRecord("approve")}
+              className={`${buttonClassName} border-emerald-200 text-emerald-700 hover:bg-emerald-50`}
+            >
+              Approve
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onRecord("accept")}
+              className={`${buttonClassName} border-sky-200 text-sky-700 hover:bg-sky-50`}
+            >
+              Accept
+            </button>
+          )}
+          {item.state === "rejected" ? null : (
+            <button
+              type="button"
+              onClick={() => onRecord("reject")}
+              className={`${buttonClassName} border-rose-200 text-rose-600 hover:bg-rose-50`}
+            >
+              Reject
+            </button>
+          )}
+        </>
+      )}
+      <button
+        type="button"
+        onClick={onShowComments}
+        className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+      >
+        {item.comments.length === 0 ? "Comment" : `${item.comments.length} comments`}
+      </button>
+    </div>
+  );
+}
+
+interface ReviewThreadProps {
+  item: ReviewItem;
+  disabled?: boolean;
+  /** Returns whether the comment was recorded, so the draft is only cleared on success. */
+  onComment: (text: string) => boolean;
+  onClose: () => void;
+}
+
+export function ReviewThread({ item, disabled = false, onComment, onClose }: ReviewThreadProps) {
+  const [draft, setDraft] = useState("");
+
+  function handlePost() {
+    if (onComment(draft)) setDraft("");
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-600">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-slate-700">{item.label}</p>
+          <ReviewStateBadge item={item} />
+        </div>
+        <button type="button" onClick={onClose} className="font-semibold text-slate-500 hover:text-slate-700">
+          Close
+        </button>
+      </div>
+      {item.comments.length === 0 ? (
+        <p className="mt-2 text-slate-500">No comments yet.</p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {item.comments.map((comment) => (
+            <li key={comment.id} className="rounded-md bg-white px-3 py-2">
+              <p className="text-[10px] text-slate-400">
+                {comment.user} · {new Date(comment.at).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap text-slate-700">{comment.text}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {disabled ? null : (
+        <div className="mt-2 flex items-start gap-2">
+          <textarea
+            aria-label="Comment"
+            rows={2}
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            className="flex-1 rounded-md border border-slate-200 px-2 py-1 text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          />
+          <button
+            type="button"
+            onClick={handlePost}
+            className="rounded-md bg-slate-900 px-2 py-1 font-semibold text-white hover:bg-slate-700"
+          >
+            Post
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ReviewCardFooterProps {
+  item: ReviewItem;
+  disabled?: boolean;
+  threadOpen: boolean;
+  onRecord: (action: Exclude<ReviewAction, "comment">) => void;
+  onComment: (text: string) => boolean;
+  onToggleThread: () => void;
+}
+
+/** The review state, controls and comment thread for a match shown as a card rather than a table row. */
+export function ReviewCardFooter({
+  item,
+  disabled = false,
+  threadOpen,
+  onRecord,
+  onComment,
+  onToggleThread,
+}: ReviewCardFooterProps) {
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ReviewStateBadge item={item} />
+        <ReviewControls item={item} disabled={disabled} onRecord={onRecord} onShowComments={onToggleThread} />
+      </div>
+      {threadOpen ? (
+        <ReviewThread item={item} disabled={disabled} onComment={onComment} onClose={onToggleThread} />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { useState } from "react";
+import {
+  RULE_ACTION_LABELS,
+  createMatchingRule,
+  parseMatchingRules,
+  type LedgerField,
+  type MatchingRule,
+  type RuleAction,
+  type RuleLogEntry,
+} from "@/lib/ruleEngine";
+
+interface MatchingRulesEditorProps {
+  rules: MatchingRule[];
+  log: RuleLogEntry[];
+  disabled?: boolean;
+  /** Set when `rules` came from an applied engine profile and differ from the saved rules. */
+  profileName?: string | null;
+  /** Persists the edited rules; throws when a rule is invalid. */
+  onSave: (rules: MatchingRule[]) => void;
+  /** Goes back to the saved rules after a profile replaced them for the run. */
+  onRestore?: () => void;
+}
+
+const INPUT_CLASS =
+  "w-full rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+function defaultAction(kind: RuleAction["kind"]): RuleAction {
+  switch (kind) {
+    case "match":
+      return { kind, ledgerField: "id", comparison: "equals", value: "$1", requireAmount: true, score: 1 };
+    case "never-match":
+      return { kind };
+    case "date-tolerance":
+      return { kind, days: 5 };
+  }
+}
+
+function ActionFields({ action, onChange }: { action: RuleAction; onChange: (action: RuleAction) => void }) {
+  if (action.kind === "match") {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          aria-label="Ledger field"
+          value={action.ledgerField}
+          onChange={(event) => onChange({ ...action, ledgerField: event.target.value as LedgerField })}
+          className={INPUT_CLASS}
+        >
+          <option value="id">Ledger reference (id)</option>
+          <option value="description">Ledger description</option>
+          <option value="category">Ledger category</option>
+        </select>
+        <select
+          aria-label="Comparison"
+          value={action.comparison}
+          onChange={(event) => onChange({ ...action, comparison: event.target.value as "equals" | "contains" })}
+          className={INPUT_CLASS}
+        >
+          <option value="equals">equals</option>
+          <option value="contains">contains</option>
+        </select>
+        <input
+          aria-label="Value"
+          placeholder="$1"
+          value={action.value}
+          onChange={(event) => onChange({ ...action, value: event.target.value })}
+          className={INPUT_CLASS}
+        />
+        <input
+          aria-label="Score"
+          type="number"
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={action.score}
+          onChange={(event) => onChange({ ...action, score: Number.parseFloat(event.target.value) || 0 })}
+          className={INPUT_CLASS}
+        />
+        <label className="col-span-2 flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={action.requireAmount}
+            onChange={(event) => onChange({ ...action, requireAmount: event.target.checked })}
+            className="h-3.5 w-3.5 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+          />
+          Amounts must also agree
+        </label>
+      </div>
+    );
+  }
+  if (action.kind === "date-tolerance") {
+    return (
+      <label className="flex items-center justify-between gap-2 text-xs text-slate-600">
+        Date tolerance (days)
+        <input
+          type="number"
+          min={0}
+          value={action.days}
+          onChange={(event) => onChange({ ...action, days: Number.parseInt(event.target.value, 10) || 0 })}
+          className="w-20 rounded-md border border-slate-200 px-2 py-1 text-right text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+        />
+      </label>
+    );
+  }
+  return <p className="text-xs text-slate-500">Matching transactions stay in the exceptions for manual review.</p>;
+}
+
+export function MatchingRulesEditor({
+  rules,
+  log,
+  disabled = false,
+  profileName = null,
+  onSave,
+  onRestore,
+}: MatchingRulesEditorProps) {
+  const [draft, setDraft] = useState<MatchingRule[]>(rules);
+  const [jsonText, setJsonText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function update(id: string, patch: Partial<MatchingRule>) {
+    setDraft((previous) => previous.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+    setMessage(null);
+  }
+
+  function handleSave(next: MatchingRule[]) {
+    try {
+      onSave(next);
+      setError(null);
+      setJsonText(null);
+      setMessage(`Saved ${next.length} rules. They apply from the next run.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the rules.");
+    }
+  }
+
+  function handleApplyJson() {
+    try {
+      const parsed = parseMatchingRules(jsonText ?? "[]");
+      setDraft(parsed);
+      handleSave(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read the rules.");
+    }
+  }
+
+  const nextPriority = draft.reduce((max, rule) => Math.max(max, rule.priority), 0) + 10;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-100 px-4 py-3 text-sm text-slate-600">
+      <div className="flex items-center justify-between gap-3">
+        <p className="font-medium text-slate-700">Custom rules</p>
+        <button
+          type="button"
+          onClick={() => setJsonText(jsonText === null ? JSON.stringify(draft, null, 2) : null)}
+          className="text-xs font-semibold text-sky-700 hover:text-sky-600"
+        >
+          {jsonText === null ? "Edit as JSON" : "Back to form"}
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Run in priority order before exact and fuzzy matching. Use <code>$1</code> in a value to refer to the first
+        capture of the statement pattern.
+      </p>
+      {profileName ? (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          <span>Runs use the rules of “{profileName}”. Your saved rules stay as they were unless you save these.</span>
+          {onRestore ? (
+            <button type="button" onClick={onRestore} className="font-semibold text-amber-900 hover:text-amber-700">
+              Use my saved rules
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      <fieldset disabled={disabled} className="space-y-3">
+        {jsonText !== null ? (
+          <div className="space-y-2">
+            <textarea
+              aria-label="Rules JSON"
+              value={jsonText}
+              onChange={(event) => setJsonText(event.target.value)}
+              className="h-56 w-full rounded-md border border-slate-200 bg-slate-50 p-2 font-mono text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+            />
+            <button
+              type="button"
+              onClick={handleApplyJson}
+              className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-slate-700"
+            >
+              Apply JSON
+            </button>
+          </div>
+        ) : (
+          <>
+            {draft.map((rule) => (
+              <div key={rule.id} className="space-y-2 rounded-lg bg-slate-50 p-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    aria-label={`Enable ${rule.name}`}
+                    checked={rule.enabled}
+                    onChange={(event) => update(rule.id, { enabled: event.target.checked })}
+                    className="h-3.5 w-3.5 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  <input
+                    aria-label="Rule name"
+                    value={rule.name}
+                    onChange={(event) => update(rule.id, { name: event.target.value })}
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    aria-label="Priority"
+                    type="number"
+                    value={rule.priority}
+                    onChange={(event) => update(rule.id, { priority: Number.parseInt(event.target.value, 10) || 0 })}
+                    className="w-16 rounded-md border border-slate-200 px-2 py-1 text-right text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setDraft((previous) => previous.filter((entry) => entry.id !== rule.id))}
+                    className="rounded-md border border-rose-200 bg-white px-2 py-1 text-xs font-semibold text-rose-600 hover:bg-rose-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    aria-label="Statement description pattern"
+                    placeholder="Statement regex, e.g. ^EFT REF (\d+)"
+                    value={rule.when.statementDescription ?? ""}
+                    onChange={(event) =>
+                      update(rule.id, { when: { ...rule.when, statementDescription: event.target.value || undefined } })
+                    }
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    aria-label="Ledger description pattern"
+                    placeholder="Ledger regex (optional)"
+                    value={rule.when.ledgerDescription ?? ""}
+                    onChange={(event) =>
+                      update(rule.id, { when: { ...rule.when, ledgerDescription: event.target.value || undefined } })
+                    }
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    aria-label="Category"
+                    placeholder="Category (optional)"
+                    value={rule.when.category ?? ""}
+                    onChange={(event) =>
+                      update(rule.id, { when: { ...rule.when, category: event.target.value || undefined } })
+                    }
+                    className={INPUT_CLASS}
+                  />
+                  <select
+                    aria-label="Sign"
+                    value={rule.when.sign ?? ""}
+                    onChange={(event) =>
+                      update(rule.id, {
+                        when: {
+                          ...rule.when,
+                          sign: (event.target.value || undefined) as "debit" | "credit" | undefined,
+                        },
+                      })
+                    }
+                    className={INPUT_CLASS}
+                  >
+                    <option value="">Debits and credits</option>
+                    <option value="debit">Debits only</option>
+                    <option value="credit">Credits only</option>
+                  </select>
+                </div>
+                <select
+                  aria-label="Action"
+                  value={rule.action.kind}
+                  onChange={(event) =>
+                    update(rule.id, { action: defaultAction(event.target.value as RuleAction["kind"]) })
+                  }
+                  className={INPUT_CLASS}
+                >
+                  {(Object.keys(RULE_ACTION_LABELS) as RuleAction["kind"][]).map((kind) => (
+                    <option key={kind} value={kind}>
+                      {RULE_ACTION_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+                <ActionFields action={rule.action} onChange={(action) => update(rule.id, { action })} />
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft((previous) => [...previous, createMatchingRule(nextPriority)])}
+                className="rounded-md border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+              >
+                Add rule
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSave(draft)}
+                className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white hover:bg-slate-700"
+              >
+                Save rules
+              </button>
+            </div>
+          </>
+        )}
+      </fieldset>
+
+      {error ? <p className="text-xs text-rose-600">{error}</p> : null}
+      {message ? <p className="text-xs text-slate-500">{message}</p> : null}
+      {log.length > 0 ? (
+        <ul className="space-y-1 border-t border-slate-100 pt-2 text-xs text-slate-500">
+          {log.map((entry, index) => (
+            <li key={`${entry.ruleId}-${index}`}>
+              <span className="font-semibold text-slate-700">{entry.ruleName}</span>: {entry.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
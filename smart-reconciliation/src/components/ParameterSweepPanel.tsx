@@ -0,0 +1,198 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  SWEEP_PARAMETERS,
+  parseSweepValues,
+  type SweepParameter,
+  type SweepRequest,
+  type SweepResult,
+} from "@/lib/parameterSweep";
+import { startParameterSweep, type SweepTask } from "@/lib/sweepWorker";
+import type { EngineConfig } from "@/lib/types";
+
+interface ParameterSweepPanelProps {
+  config: EngineConfig;
+  /** The current inputs, parsed in the sweep worker the same way a run parses them. */
+  pool: SweepRequest["pool"];
+  disabled?: boolean;
+  onApply: (config: EngineConfig) => void;
+}
+
+const selectClassName =
+  "rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+function formatValue(parameter: SweepParameter, value: number) {
+  if (parameter === "descriptionThreshold") return `${Math.round(value * 100)}%`;
+  if (parameter === "amountTolerance") return `R${value.toFixed(2)}`;
+  return `${value} d`;
+}
+
+function Bar({ value, max, className }: { value: number; max: number; className: string }) {
+  return (
+    <div className="h-2 w-full overflow-hidden rounded-full bg-slate-100">
+      <div className={`h-full ${className}`} style={{ width: `${max === 0 ? 0 : (value / max) * 100}%` }} />
+    </div>
+  );
+}
+
+export function ParameterSweepPanel({ config, pool, disabled = false, onApply }: ParameterSweepPanelProps) {
+  const [parameter, setParameter] = useState<SweepParameter>("descriptionThreshold");
+  const [valuesText, setValuesText] = useState(SWEEP_PARAMETERS.descriptionThreshold.values.join(", "));
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const task = useRef<SweepTask | null>(null);
+
+  function handleParameter(next: SweepParameter) {
+    setParameter(next);
+    setValuesText(SWEEP_PARAMETERS[next].values.join(", "));
+    setResult(null);
+  }
+
+  async function handleSweep() {
+    setError(null);
+    setResult(null);
+    setProgress(0);
+    try {
+      const values = parseSweepValues(valuesText, parameter);
+      task.current = startParameterSweep({ pool, config, parameter, values }, (done, total) =>
+        setProgress(done / total),
+      );
+      setResult(await task.current.promise);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to run the sweep.");
+    } finally {
+      task.current = null;
+      setProgress(null);
+    }
+  }
+
+  const maxMatches = result ? Math.max(...result.points.map((point) => point.exact + point.fuzzy), 1) : 1;
+  const maxFlips = result ? Math.max(...result.points.map((point) => point.flips), 1) : 1;
+
+  return (
+    <details className="rounded-lg border border-slate-100 px-4 py-3 text-sm text-slate-600">
+      <summary className="cursor-pointer font-medium text-slate-700">What-if: sweep a tolerance</summary>
+      <p className="mt-2 text-xs text-slate-500">
+        Runs the exact and fuzzy matcher once per value on the current data, holding the other settings as they are.
+        Custom rules, FX conversion and group matching are left out so each value&apos;s effect stands alone.
+      </p>
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+        <select
+          aria-label="Setting to sweep"
+          value={parameter}
+          onChange={(event) => handleParameter(event.target.value as SweepParameter)}
+          className={selectClassName}
+        >
+          {(Object.keys(SWEEP_PARAMETERS) as SweepParameter[]).map((key) => (
+            <option key={key} value={key}>
+              {SWEEP_PARAMETERS[key].label}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label="Values to try"
+          value={valuesText}
+          onChange={(event) => setValuesText(event.target.value)}
+          className="min-w-[12rem] flex-1 rounded-md border border-slate-200 px-2 py-1 text-slate-700 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
+        />
+        {progress === null ? (
+          <button
+            type="button"
+            onClick={() => void handleSweep()}
+            className="rounded-md bg-slate-900 px-2 py-1 font-semibold text-white hover:bg-slate-700"
+          >
+            Run sweep
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => task.current?.cancel()}
+            className="rounded-md border border-rose-200 bg-white px-2 py-1 font-semibold text-rose-600 hover:bg-rose-50"
+          >
+            Cancel ({Math.round(progress * 100)}%)
+          </button>
+        )}
+      </div>
+      {error ? <p className="mt-2 text-xs text-rose-600">{error}</p> : null}
+
+      {result ? (
+        <div className="mt-3 space-y-2 text-xs">
+          {result.firstRiskyValue === null ? (
+            <p className="text-emerald-700">No false-positive-prone matches at any value tried.</p>
+          ) : (
+            <p className="text-amber-700">
+              False-positive-prone matches appear from {formatValue(result.parameter, result.firstRiskyValue)}.
+            </p>
+          )}
+          <table className="w-full text-left">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="py-1 pr-2 font-medium">Value</th>
+                <th className="py-1 pr-2 font-medium">Coverage</th>
+                <th className="py-1 pr-2 font-medium">Matches (exact / fuzzy)</th>
+                <th className="py-1 pr-2 font-medium">Flips</th>
+                <th className="py-1 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {result.points.map((point) => (
+                <tr
+                  key={point.value}
+                  className={`border-t border-slate-100 align-top ${point.risky > 0 ? "bg-amber-50" : ""}`}
+                >
+                  <td className="py-1 pr-2 font-semibold text-slate-700">
+                    {formatValue(result.parameter, point.value)}
+                    {config[result.parameter] === point.value ? (
+                      <span className="block text-slate-400">current</span>
+                    ) : null}
+                  </td>
+                  <td className="w-1/4 py-1 pr-2">
+                    <Bar value={point.coverage} max={100} className="bg-sky-500" />
+                    {point.coverage.toFixed(0)}%
+                  </td>
+                  <td className="w-1/4 py-1 pr-2">
+                    <div className="flex h-2 w-full overflow-hidden rounded-full bg-slate-100">
+                      <div
+                        className="h-full bg-emerald-500"
+                        style={{ width: `${(point.exact / maxMatches) * 100}%` }}
+                      />
+                      <div className="h-full bg-amber-400" style={{ width: `${(point.fuzzy / maxMatches) * 100}%` }} />
+                    </div>
+                    {point.exact} / {point.fuzzy}
+                    {point.risky > 0 ? (
+                      <details className="text-amber-800">
+                        <summary className="cursor-pointer">{point.risky} look like false positives</summary>
+                        <ul className="mt-1 space-y-0.5">
+                          {point.riskyExamples.map((example) => (
+                            <li key={example}>{example}</li>
+                          ))}
+                        </ul>
+                      </details>
+                    ) : null}
+                  </td>
+                  <td className="w-1/6 py-1 pr-2">
+                    <Bar value={point.flips} max={maxFlips} className="bg-violet-500" />
+                    {point.flips}
+                  </td>
+                  <td className="py-1 text-right">
+                    {disabled || config[result.parameter] === point.value ? null : (
+                      <button
+                        type="button"
+                        onClick={() => onApply({ ...config, [result.parameter]: point.value })}
+                        className="font-semibold text-sky-700 hover:text-sky-600"
+                      >
+                        Use
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </details>
+  );
+}
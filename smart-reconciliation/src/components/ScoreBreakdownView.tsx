@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { explainScore, type ScoreBreakdown } from "@/lib/scoreBreakdown";
+import type { EngineConfig } from "@/lib/types";
+import type { EngineMatch } from "@/lib/workbench";
+
+const COMPONENT_LABELS: Record<keyof ScoreBreakdown["components"], string> = {
+  amount: "Amount",
+  date: "Date",
+  description: "Description",
+};
+
+interface ScoreBreakdownViewProps {
+  breakdown: ScoreBreakdown;
+}
+
+export function ScoreBreakdownView({ breakdown }: ScoreBreakdownViewProps) {
+  const margin = Math.round(breakdown.thresholdMargin * 100);
+  return (
+    <div className="space-y-1">
+      <table className="w-full text-left text-[11px]">
+        <thead className="text-slate-400">
+          <tr>
+            <th className="py-0.5 pr-2 font-medium">Signal</th>
+            <th className="py-0.5 pr-2 font-medium">Detail</th>
+            <th className="py-0.5 pr-2 text-right font-medium">Score</th>
+            <th className="py-0.5 pr-2 text-right font-medium">Weight</th>
+            <th className="py-0.5 text-right font-medium">Contribution</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(COMPONENT_LABELS) as (keyof ScoreBreakdown["components"])[]).map((key) => {
+            const component = breakdown.components[key];
+            return (
+              <tr key={key} className={component.passed ? "text-slate-600" : "text-rose-600"}>
+                <td className="py-0.5 pr-2 font-semibold">{COMPONENT_LABELS[key]}</td>
+                <td className="py-0.5 pr-2">{component.detail}</td>
+                <td className="py-0.5 pr-2 text-right">{(component.score * 100).toFixed(0)}%</td>
+                <td className="py-0.5 pr-2 text-right">{(component.weight * 100).toFixed(0)}%</td>
+                <td className="py-0.5 text-right">{(component.score * component.weight * 100).toFixed(1)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-[11px] text-slate-500">
+        {breakdown.source === "engine" ? "Engine score" : "Score recomputed by the engine"}{" "}
+        {(breakdown.weighted * 100).toFixed(1)}% · description{" "}
+        {margin >= 0 ? `${margin} points above` : `${Math.abs(margin)} points below`} the threshold ·{" "}
+        {breakdown.algorithm}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * A collapsed "Score breakdown" drill-down that only computes the breakdown once opened. `config` is the one the run
+ * was made with, so tolerances match the ones the engine applied.
+ */
+export function ScoreBreakdownDrillDown({ match, config }: { match: EngineMatch; config: EngineConfig }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <details className="mt-1" open={open} onToggle={(event) => setOpen(event.currentTarget.open)}>
+      <summary className="cursor-pointer font-semibold text-sky-700">Score breakdown</summary>
+      {open ? (
+        <div className="mt-1 rounded-md bg-white px-3 py-2">
+          <ScoreBreakdownView breakdown={explainScore(match.statement, match.ledger, config, match)} />
+        </div>
+      ) : null}
+    </details>
+  );
+}
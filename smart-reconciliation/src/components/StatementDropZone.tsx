@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, type DragEvent } from "react";
+import { toCanonicalCsv } from "@/lib/importMapping";
+import { STATEMENT_FORMAT_LABELS, parseStatementFile, type ParsedStatement } from "@/lib/statementImport";
+
+interface StatementDropZoneProps {
+  disabled?: boolean;
+  onStatement: (statement: ParsedStatement, csv: string, fileName: string) => void;
+  onCsv: (text: string, fileName: string) => void;
+}
+
+export function StatementDropZone({ disabled = false, onStatement, onCsv }: StatementDropZoneProps) {
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleFile(file: File | undefined) {
+    if (!file || disabled) return;
+    try {
+      setError(null);
+      const text = await file.text();
+      const statement = parseStatementFile(text, file.name);
+      if (!statement) {
+        onCsv(text, file.name);
+        return;
+      }
+      if (statement.lines.length === 0) {
+        throw new Error(`${STATEMENT_FORMAT_LABELS[statement.format]} file contains no transactions.`);
+      }
+      onStatement(statement, toCanonicalCsv(statement.lines), file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read the statement file.");
+    }
+  }
+
+  function handleDrop(event: DragEvent<HTMLLabelElement>) {
+    event.preventDefault();
+    setDragging(false);
+    void handleFile(event.dataTransfer.files[0]);
+  }
+
+  return (
+    <div className="space-y-2">
+      <label
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex cursor-pointer flex-col items-center justify-center rounded-xl border border-dashed px-4 py-4 text-center text-xs ${
+          dragging ? "border-sky-500 bg-sky-50 text-sky-700" : "border-slate-300 bg-white text-slate-500"
+        } ${disabled ? "cursor-not-allowed opacity-50" : ""}`}
+      >
+        <span className="font-semibold text-slate-700">Drop a statement file or click to upload</span>
+        <span>CSV, OFX / QFX, CAMT.053 XML or MT940 — the format is detected automatically.</span>
+        <input
+          type="file"
+          disabled={disabled}
+          accept=".csv,.txt,.ofx,.qfx,.xml,.sta,.mt940,.940"
+          onChange={(event) => {
+            void handleFile(event.target.files?.[0]);
+            event.target.value = "";
+          }}
+          className="sr-only"
+        />
+      </label>
+      {error ? (
+        <p className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildBalanceProof } from "@/lib/balanceProof";
+import { normalizeDataset } from "@/lib/normalization";
+import { applyManualDecisions, type Transaction } from "@/lib/workbench";
+
+function carried(tx: Transaction): Transaction {
+  return { ...tx, id: `2026-08/${tx.id}`, originPeriod: "2026-08" };
+}
+
+/**
+ * August closed with a R5,000 deposit and a R2,000 cheque booked in the ledger but not yet through the bank. In
+ * September the deposit clears and the cheque stays unpresented.
+ */
+function september() {
+  const [deposit, cheque] = normalizeDataset(
+    [
+      { id: "L-9", date: "2026-08-30", description: "Deposit Harbour Freight", amount: "5000.00", type: "credit" },
+      { id: "L-8", date: "2026-08-29", description: "Cheque 1042 Metro Logistics", amount: "2000.00", type: "debit" },
+    ],
+    "ledger",
+  ).map(carried);
+  const [cleared] = normalizeDataset(
+    [{ id: "S-1", date: "2026-09-01", description: "Deposit Harbour Freight", amount: "5000.00", type: "credit" }],
+    "statement",
+  );
+  return applyManualDecisions(
+    {
+      matched: [{ statement: cleared, ledger: deposit, score: 1, type: "exact", reasons: [] }],
+      aggregated: [],
+      unmatchedStatements: [],
+      unmatchedLedger: [cheque],
+    },
+    [],
+  );
+}
+
+describe("buildBalanceProof with carried-forward items", () => {
+  it("counts each carried item once and reconciles the period", () => {
+    const proof = buildBalanceProof(september(), {
+      bankOpening: 12000,
+      bankClosing: 17000,
+      ledgerOpening: 15000,
+      ledgerClosing: 15000,
+    });
+
+    expect(proof?.lines.map((line) => line.label)).not.toContainEqual(expect.stringMatching(/^Opening balance/));
+    expect(proof?.lines.find((line) => line.label.startsWith("Add: unpresented"))?.amount).toBe(2000);
+    expect(proof).toMatchObject({ expectedBankClosing: 17000, variance: 0, balanced: true });
+    expect(proof?.bankRollForward).toMatchObject({ movement: 5000, variance: 0 });
+    expect(proof?.ledgerRollForward).toMatchObject({ movement: 0, variance: 0 });
+  });
+
+  it("shows the part of the opening difference the carried items do not cover", () => {
+    const proof = buildBalanceProof(september(), {
+      bankOpening: 12100,
+      bankClosing: 17100,
+      ledgerOpening: 15000,
+      ledgerClosing: 15000,
+    });
+
+    expect(proof?.lines.at(-1)).toMatchObject({
+      label: "Opening balance difference not covered by carried-forward items",
+      amount: 100,
+    });
+    expect(proof?.balanced).toBe(true);
+  });
+});
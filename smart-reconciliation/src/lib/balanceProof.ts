@@ -0,0 +1,179 @@
+import { conversionsOf, inBaseCurrency } from "@/lib/fx";
+import type { Transaction, WorkbenchRun } from "@/lib/workbench";
+
+export interface BalanceInputs {
+  bankOpening: number | null;
+  bankClosing: number | null;
+  ledgerOpening: number | null;
+  ledgerClosing: number | null;
+}
+
+export interface ProofLine {
+  label: string;
+  amount: number;
+  items: Transaction[];
+}
+
+export interface RollForward {
+  opening: number;
+  movement: number;
+  expectedClosing: number;
+  closing: number;
+  variance: number;
+}
+
+export interface BalanceProof {
+  ledgerClosing: number;
+  lines: ProofLine[];
+  expectedBankClosing: number;
+  bankClosing: number;
+  variance: number;
+  balanced: boolean;
+  bankRollForward: RollForward | null;
+  ledgerRollForward: RollForward | null;
+  /** Foreign-currency statement lines with no conversion; left out of the proof until a rate pairs them. */
+  unconverted: Transaction[];
+}
+
+export const EMPTY_BALANCES: BalanceInputs = {
+  bankOpening: null,
+  bankClosing: null,
+  ledgerOpening: null,
+  ledgerClosing: null,
+};
+
+const BALANCE_TOLERANCE = 0.005;
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amount as it moves the bank account: credits are money in, debits money out. Both datasets are expected to use
+ * the bank account's point of view, which is also what lets the engine pair them.
+ */
+export function signedAmount(tx: Transaction) {
+  return tx.sign === "debit" ? -Math.abs(tx.amount) : Math.abs(tx.amount);
+}
+
+function total(transactions: Transaction[]) {
+  return roundCents(transactions.reduce((sum, tx) => sum + signedAmount(tx), 0));
+}
+
+/** Open items brought in from a closed period: already part of the opening balances they were booked in. */
+function isCarried(tx: Transaction) {
+  return tx.originPeriod !== undefined;
+}
+
+/** The period's movement leaves out carried-forward items, which moved the balance in the period they came from. */
+function rollForward(opening: number | null, closing: number | null, transactions: Transaction[]): RollForward | null {
+  if (opening === null || closing === null) return null;
+  const movement = total(transactions.filter((tx) => !isCarried(tx)));
+  const expectedClosing = roundCents(opening + movement);
+  return { opening, movement, expectedClosing, closing, variance: roundCents(closing - expectedClosing) };
+}
+
+function allStatements(run: WorkbenchRun) {
+  return [
+    ...run.matched.map((match) => match.statement),
+    ...run.aggregated.flatMap((agg) => agg.statements),
+    ...run.groups.flatMap((group) => group.statements),
+    ...run.manual.flatMap((match) => match.statements),
+    ...run.unmatchedStatements,
+  ];
+}
+
+function allLedger(run: WorkbenchRun) {
+  return [
+    ...run.matched.map((match) => match.ledger),
+    ...run.aggregated.map((agg) => agg.ledger),
+    ...run.groups.flatMap((group) => group.ledger),
+    ...run.manual.flatMap((match) => match.ledger),
+    ...run.unmatchedLedger,
+  ];
+}
+
+/**
+ * Builds the classic bank reconciliation statement: ledger closing balance, adjusted for outstanding deposits,
+ * unpresented payments, bank-only items and differences inside matched groups, must equal the bank closing balance.
+ * Anything left over is reported as unexplained variance. Statement lines count at their FX-converted amount; those
+ * still in a foreign currency are listed in `unconverted` instead of being added to ZAR totals. Carried-forward items
+ * are counted once: as open items if still unmatched, and not again in the opening balance difference.
+ */
+export function buildBalanceProof(run: WorkbenchRun, balances: BalanceInputs): BalanceProof | null {
+  if (balances.bankClosing === null || balances.ledgerClosing === null) return null;
+
+  const conversions = conversionsOf(run.fx);
+  const converted = (transactions: Transaction[]) =>
+    transactions.flatMap((tx) => inBaseCurrency(tx, conversions) ?? []);
+  const statements = allStatements(run);
+  const ledger = allLedger(run);
+
+  const outstandingDeposits = run.unmatchedLedger.filter((tx) => signedAmount(tx) > 0);
+  const unpresentedPayments = run.unmatchedLedger.filter((tx) => signedAmount(tx) < 0);
+  const bankOnly = converted(run.unmatchedStatements);
+  const bankCredits = bankOnly.filter((tx) => signedAmount(tx) > 0);
+  const bankDebits = bankOnly.filter((tx) => signedAmount(tx) < 0);
+
+  const matchedDifference = roundCents(
+    run.matched.reduce((sum, match) => sum + total(converted([match.statement])) - signedAmount(match.ledger), 0) +
+      run.aggregated.reduce((sum, agg) => sum + total(converted(agg.statements)) - signedAmount(agg.ledger), 0) +
+      run.groups.reduce((sum, group) => sum + total(converted(group.statements)) - total(group.ledger), 0) +
+      run.manual.reduce((sum, match) => sum + total(converted(match.statements)) - total(match.ledger), 0),
+  );
+
+  const lines: ProofLine[] = [
+    {
+      label: "Less: outstanding deposits (in ledger, not yet on statement)",
+      amount: -total(outstandingDeposits),
+      items: outstandingDeposits,
+    },
+    {
+      label: "Add: unpresented payments (in ledger, not yet on statement)",
+      amount: -total(unpresentedPayments),
+      items: unpresentedPayments,
+    },
+    { label: "Add: bank-only receipts (e.g. interest)", amount: total(bankCredits), items: bankCredits },
+    { label: "Less: bank-only charges (e.g. fees)", amount: total(bankDebits), items: bankDebits },
+  ];
+  if (matchedDifference !== 0) {
+    lines.push({ label: "Differences within matched groups", amount: matchedDifference, items: [] });
+  }
+  if (balances.bankOpening !== null && balances.ledgerOpening !== null) {
+    // Carried-forward items account for their share of the opening difference: open ones are listed above, cleared
+    // ones no longer differ.
+    const carriedDifference = total(converted(statements.filter(isCarried))) - total(ledger.filter(isCarried));
+    const openingDifference = roundCents(balances.bankOpening - balances.ledgerOpening - carriedDifference);
+    if (openingDifference !== 0) {
+      lines.push({
+        label:
+          carriedDifference === 0
+            ? "Opening balance difference brought forward"
+            : "Opening balance difference not covered by carried-forward items",
+        amount: openingDifference,
+        items: [],
+      });
+    }
+  }
+
+  const expectedBankClosing = roundCents(balances.ledgerClosing + lines.reduce((sum, line) => sum + line.amount, 0));
+  const variance = roundCents(balances.bankClosing - expectedBankClosing);
+
+  return {
+    ledgerClosing: balances.ledgerClosing,
+    lines,
+    expectedBankClosing,
+    bankClosing: balances.bankClosing,
+    variance,
+    balanced: Math.abs(variance) < BALANCE_TOLERANCE,
+    bankRollForward: rollForward(balances.bankOpening, balances.bankClosing, converted(statements)),
+    ledgerRollForward: rollForward(balances.ledgerOpening, balances.ledgerClosing, ledger),
+    unconverted: statements.filter((tx) => !inBaseCurrency(tx, conversions)),
+  };
+}
+
+export function parseBalanceInput(value: string) {
+  if (value.trim() === "") return null;
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
@@ -0,0 +1,95 @@
+import {
+  decodeXmlEntities,
+  ensureUniqueIds,
+  toStatementLine,
+  type ParsedStatement,
+  type StatementBalance,
+} from "@/lib/statementImport";
+
+const NS = "(?:[\\w-]+:)?";
+
+/** Returns the inner XML of every `<tag>` element, ignoring namespace prefixes. */
+function elements(xml: string, tag: string) {
+  const pattern = new RegExp(`<${NS}${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${NS}${tag}>`, "g");
+  return [...xml.matchAll(pattern)].map((match) => match[1]);
+}
+
+function element(xml: string, path: string) {
+  return path
+    .split("/")
+    .reduce<string | null>((scope, tag) => (scope === null ? null : (elements(scope, tag)[0] ?? null)), xml);
+}
+
+function text(xml: string, path: string) {
+  const value = element(xml, path);
+  return value === null ? null : decodeXmlEntities(value.trim());
+}
+
+function attribute(xml: string, tag: string, name: string) {
+  const match = xml.match(new RegExp(`<${NS}${tag}\\s[^>]*\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+/** Reads a `<Dt>` or `<DtTm>` date group as `YYYY-MM-DD`. Balances nest `<Dt><Dt>…</Dt></Dt>`, so match the value. */
+function dateOf(xml: string | null) {
+  const match = xml?.match(/\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
+
+function signedAmount(xml: string) {
+  const amount = Number.parseFloat(text(xml, "Amt") ?? "");
+  const indicator = text(xml, "CdtDbtInd");
+  return indicator === "DBIT" ? -amount : amount;
+}
+
+function balance(statement: string, codes: string[]): StatementBalance | null {
+  const entry = elements(statement, "Bal").find((candidate) =>
+    codes.includes(text(candidate, "Tp/CdOrPrtry/Cd") ?? ""),
+  );
+  if (!entry) return null;
+  const date = dateOf(element(entry, "Dt"));
+  const amount = signedAmount(entry);
+  if (!date || Number.isNaN(amount)) return null;
+  return { amount, date, currency: attribute(entry, "Amt", "Ccy") };
+}
+
+function describeEntry(entry: string) {
+  const unstructured = elements(entry, "Ustrd").map((value) => decodeXmlEntities(value.trim()));
+  const counterparty = text(entry, "RltdPties/Cdtr/Nm") ?? text(entry, "RltdPties/Dbtr/Nm");
+  return [counterparty, ...unstructured, text(entry, "AddtlNtryInf")].filter(Boolean).join(" ");
+}
+
+export function parseCamt053(xml: string): ParsedStatement {
+  const statement = elements(xml, "Stmt")[0];
+  if (!statement) {
+    throw new Error("CAMT.053 file does not contain a <Stmt> element.");
+  }
+
+  const lines = elements(statement, "Ntry").map((entry, index) => {
+    const amount = signedAmount(entry);
+    const bookingDate = dateOf(element(entry, "BookgDt"));
+    if (Number.isNaN(amount) || !bookingDate) {
+      throw new Error(`CAMT.053 entry ${index + 1} is missing an amount or booking date.`);
+    }
+    const bankReference = text(entry, "AcctSvcrRef") ?? text(entry, "NtryDtls/TxDtls/Refs/AcctSvcrRef");
+    const endToEndId = text(entry, "NtryDtls/TxDtls/Refs/EndToEndId");
+    return toStatementLine({
+      id: bankReference ?? text(entry, "NtryRef") ?? `camt-${index + 1}`,
+      bookingDate,
+      valueDate: dateOf(element(entry, "ValDt")),
+      description: describeEntry(entry),
+      amount,
+      bankReference: bankReference ?? (endToEndId !== "NOTPROVIDED" ? endToEndId : null),
+    });
+  });
+
+  const account = element(statement, "Acct");
+  return {
+    format: "camt053",
+    accountId: account ? (text(account, "Id/IBAN") ?? text(account, "Id/Othr/Id")) : null,
+    currency: account ? text(account, "Ccy") : null,
+    openingBalance: balance(statement, ["OPBD", "PRCD"]),
+    closingBalance: balance(statement, ["CLBD"]),
+    lines: ensureUniqueIds(lines),
+  };
+}
@@ -0,0 +1,91 @@
+import type { Transaction } from "@/lib/workbench";
+
+const DAY_MS = 86_400_000;
+
+export interface CandidateIndex<T extends Transaction> {
+  /** Open transactions of the given sign whose amount is within `tolerance` and date within `days`. */
+  byAmount(amount: number, sign: T["sign"], tolerance: number, date: string, days: number): T[];
+  /** Up to `limit` open transactions of the given sign dated within `days`, nearest first. */
+  nearest(date: string, sign: T["sign"], days: number, limit: number): T[];
+  remove(tx: T): void;
+  /** False once the transaction has been removed. */
+  isOpen(tx: T): boolean;
+}
+
+function timeOf(date: string) {
+  return Date.parse(date);
+}
+
+/**
+ * Indexes transactions by amount bucket and by date so the matching stages look at a handful of candidates per
+ * transaction instead of scanning the whole other side. Buckets are `bucketSize` wide, so a lookup only visits the
+ * buckets that overlap the amount tolerance. Removal is lazy: taken transactions are skipped on lookup.
+ */
+export function createCandidateIndex<T extends Transaction>(transactions: T[], bucketSize = 1): CandidateIndex<T> {
+  const size = bucketSize > 0 ? bucketSize : 1;
+  const buckets = new Map<string, T[]>();
+  const removed = new Set<T>();
+  const bucketOf = (amount: number) => Math.floor(Math.abs(amount) / size);
+
+  for (const tx of transactions) {
+    const key = `${tx.sign}:${bucketOf(tx.amount)}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(tx);
+    else buckets.set(key, [tx]);
+  }
+
+  const byDate = transactions.map((tx) => ({ tx, time: timeOf(tx.normalizedDate) })).sort((a, b) => a.time - b.time);
+
+  const firstAtOrAfter = (time: number) => {
+    let low = 0;
+    let high = byDate.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (byDate[middle].time < time) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+
+  return {
+    byAmount(amount, sign, tolerance, date, days) {
+      const time = timeOf(date);
+      const from = bucketOf(Math.max(Math.abs(amount) - tolerance, 0));
+      const to = bucketOf(Math.abs(amount) + tolerance);
+      const found: T[] = [];
+      for (let bucket = from; bucket <= to; bucket += 1) {
+        for (const tx of buckets.get(`${sign}:${bucket}`) ?? []) {
+          if (removed.has(tx)) continue;
+          if (Math.abs(Math.abs(tx.amount) - Math.abs(amount)) > tolerance) continue;
+          if (Math.abs(timeOf(tx.normalizedDate) - time) > days * DAY_MS) continue;
+          found.push(tx);
+        }
+      }
+      return found;
+    },
+
+    nearest(date, sign, days, limit) {
+      const time = timeOf(date);
+      const window = days * DAY_MS;
+      const found: T[] = [];
+      let right = firstAtOrAfter(time);
+      let left = right - 1;
+      while (found.length < limit && (left >= 0 || right < byDate.length)) {
+        const leftGap = left >= 0 ? time - byDate[left].time : Infinity;
+        const rightGap = right < byDate.length ? byDate[right].time - time : Infinity;
+        if (Math.min(leftGap, rightGap) > window) break;
+        const entry = leftGap <= rightGap ? byDate[left--] : byDate[right++];
+        if (entry.tx.sign === sign && !removed.has(entry.tx)) found.push(entry.tx);
+      }
+      return found;
+    },
+
+    remove(tx) {
+      removed.add(tx);
+    },
+
+    isOpen(tx) {
+      return !removed.has(tx);
+    },
+  };
+}
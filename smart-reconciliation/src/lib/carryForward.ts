@@ -0,0 +1,137 @@
+import type { DatasetSide } from "@/lib/dataQuality";
+import { getSessionStorage, isLocked, type ReconciliationSession } from "@/lib/sessions";
+import { applyManualDecisions, sumMagnitudes, type Transaction, type WorkbenchRun } from "@/lib/workbench";
+
+/** Open items brought into a run from the most recent closed period before it. */
+export interface CarryForward {
+  sessionId: string;
+  sessionName: string;
+  period: string;
+  statement: Transaction[];
+  ledger: Transaction[];
+}
+
+export interface AgedItem {
+  transaction: Transaction;
+  side: DatasetSide;
+  originPeriod: string;
+  ageDays: number;
+  escalated: boolean;
+}
+
+export interface AgeingBucketTotals {
+  label: string;
+  statement: number;
+  ledger: number;
+  amount: number;
+}
+
+export interface AgeingReport {
+  asOf: string;
+  escalationDays: number;
+  buckets: AgeingBucketTotals[];
+  /** Every open item, oldest first. */
+  items: AgedItem[];
+  escalated: AgedItem[];
+}
+
+export const AGEING_BUCKETS = [
+  { label: "0–30 days", maxDays: 30 },
+  { label: "31–60 days", maxDays: 60 },
+  { label: "61–90 days", maxDays: 90 },
+  { label: "90+ days", maxDays: Infinity },
+] as const;
+
+/** Open items older than this many days are escalated unless the session sets its own limit. */
+export const DEFAULT_ESCALATION_DAYS = 60;
+
+/** The last day of a `YYYY-MM` period, which is the date open items are aged to. */
+export function periodEnd(period: string) {
+  const [year, month] = period.split("-").map(Number);
+  if (!year || !month) {
+    throw new Error(`"${period}" is not a period. Use YYYY-MM.`);
+  }
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+/**
+ * Marks an open item with the period it was first seen in. Its id is prefixed with that period on first carry so it
+ * cannot collide with ids in the next period's files, and is kept unchanged after that.
+ */
+function carry(tx: Transaction, period: string): Transaction {
+  return tx.originPeriod ? tx : { ...tx, id: `${period}/${tx.id}`, originPeriod: period };
+}
+
+/** The unmatched items left in a closed session once its manual decisions are applied. */
+export function openItemsOf(session: ReconciliationSession): CarryForward | null {
+  if (!session.run) return null;
+  const run = applyManualDecisions(session.run, session.decisions);
+  return {
+    sessionId: session.id,
+    sessionName: session.name,
+    period: session.period,
+    statement: run.unmatchedStatements.map((tx) => carry(tx, session.period)),
+    ledger: run.unmatchedLedger.map((tx) => carry(tx, session.period)),
+  };
+}
+
+/**
+ * Picks the signed-off session for the latest period before `period` and returns its open items. Only closed periods
+ * carry forward, so the pool cannot change under a run once it has been taken.
+ */
+export function findCarryForward(sessions: ReconciliationSession[], period: string) {
+  const source = sessions
+    .filter((session) => isLocked(session) && session.run && session.period < period)
+    .sort(
+      (a, b) =>
+        b.period.localeCompare(a.period) || (b.signOff?.signedOffAt ?? "").localeCompare(a.signOff?.signedOffAt ?? ""),
+    )[0];
+  return source ? openItemsOf(source) : null;
+}
+
+export async function loadCarryForward(period: string, adapter = getSessionStorage()) {
+  return findCarryForward(await adapter.list(), period);
+}
+
+function ageInDays(tx: Transaction, asOf: string) {
+  return Math.max(0, Math.floor((Date.parse(asOf) - Date.parse(tx.normalizedDate)) / 86_400_000));
+}
+
+/**
+ * Ages every open item to the end of `period` and buckets it. Items first seen in this period have it as their
+ * origin; anything older than `escalationDays` is escalated.
+ */
+export function buildAgeingReport(
+  run: Pick<WorkbenchRun, "unmatchedStatements" | "unmatchedLedger">,
+  period: string,
+  escalationDays = DEFAULT_ESCALATION_DAYS,
+): AgeingReport {
+  const asOf = periodEnd(period);
+  const age = (transaction: Transaction, side: DatasetSide): AgedItem => {
+    const ageDays = ageInDays(transaction, asOf);
+    return {
+      transaction,
+      side,
+      originPeriod: transaction.originPeriod ?? period,
+      ageDays,
+      escalated: ageDays > escalationDays,
+    };
+  };
+  const items = [
+    ...run.unmatchedStatements.map((tx) => age(tx, "statement")),
+    ...run.unmatchedLedger.map((tx) => age(tx, "ledger")),
+  ].sort((a, b) => b.ageDays - a.ageDays);
+
+  const buckets = AGEING_BUCKETS.map((bucket, index) => {
+    const minDays = index === 0 ? 0 : AGEING_BUCKETS[index - 1].maxDays + 1;
+    const inBucket = items.filter((item) => item.ageDays >= minDays && item.ageDays <= bucket.maxDays);
+    return {
+      label: bucket.label,
+      statement: inBucket.filter((item) => item.side === "statement").length,
+      ledger: inBucket.filter((item) => item.side === "ledger").length,
+      amount: sumMagnitudes(inBucket.map((item) => item.transaction)),
+    };
+  });
+
+  return { asOf, escalationDays, buckets, items, escalated: items.filter((item) => item.escalated) };
+}
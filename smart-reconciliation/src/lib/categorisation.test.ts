@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CATEGORISATION,
+  DEFAULT_CHART_OF_ACCOUNTS,
+  categoriseLedger,
+  type CategorisationRule,
+} from "@/lib/categorisation";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { DEFAULT_FX_SETTINGS } from "@/lib/fx";
+import { normalizeDataset } from "@/lib/normalization";
+import { runPipeline } from "@/lib/pipeline";
+
+const insurance: CategorisationRule = {
+  id: "category-rule-insurance",
+  name: "Insurance",
+  enabled: true,
+  priority: 5,
+  kind: "keyword",
+  pattern: "insure, insurance",
+  category: "Insurance",
+};
+
+const chart = [...DEFAULT_CHART_OF_ACCOUNTS, { code: "6500", name: "Insurance", categories: ["Insurance"] }];
+
+describe("bank rules on the ledger side", () => {
+  it("categorise ledger entries that are not on the chart and leave booked accounts alone", () => {
+    const ledger = normalizeDataset(
+      [
+        { id: "L-1", date: "2026-09-07", description: "Santam insurance premium", amount: "1450.00", type: "debit" },
+        { id: "L-2", date: "2026-09-01", description: "Rent incl. insurance levy", amount: "18500.00", type: "debit" },
+      ],
+      "ledger",
+    );
+
+    expect(categoriseLedger(ledger, [insurance], chart).map((tx) => tx.category)).toEqual(["Insurance", "Rent"]);
+  });
+
+  it("let category-aware matching compare both sides by account", () => {
+    const { run } = runPipeline({
+      statementInput: "id,date,description,amount,type\nS-1,2026-09-07,SANTAM INSURE DEBIT,1450.00,debit",
+      ledgerInput: "id,date,description,amount,type\nL-1,2026-09-07,Santam insurance premium,1450.00,debit",
+      config: { ...DEFAULT_ENGINE_CONFIG, descriptionThreshold: 0.75 },
+      matchingRules: [],
+      learnedRules: [],
+      fx: DEFAULT_FX_SETTINGS,
+      categorisation: { ...DEFAULT_CATEGORISATION, rules: [insurance], chart, matching: "boost" },
+    });
+
+    expect(run.matched).toHaveLength(1);
+    expect(run.matched[0].ledger.category).toBe("Insurance");
+    expect(run.matched[0].reasons[0]).toMatch(/both booked to 6500 Insurance/);
+    expect(run.matched[0].components).toMatchObject({ amount: 1, date: 1 });
+    expect(run.matched[0].components?.description).toBeLessThan(0.75);
+  });
+});
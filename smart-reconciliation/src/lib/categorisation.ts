@@ -0,0 +1,526 @@
+import { createCandidateIndex } from "@/lib/candidateIndex";
+import type { DatasetSide } from "@/lib/dataQuality";
+import { reconcileTransactions, scorePair, type EngineOptions } from "@/lib/matching";
+import type { EngineConfig, ReconciliationRun } from "@/lib/types";
+import { sumMagnitudes, type EngineMatch, type Transaction, type WorkbenchRun } from "@/lib/workbench";
+
+export type CategorisationRuleKind = "keyword" | "regex" | "amount-range";
+
+/**
+ * A bank rule that sets the category of statement lines it matches, and of ledger entries not booked to a chart
+ * account. Plain data, like the matching rules.
+ */
+export interface CategorisationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Lower numbers run first; the first rule that matches a line sets its category. */
+  priority: number;
+  kind: CategorisationRuleKind;
+  /** Comma-separated keywords, or a regular expression source, tested against the description. */
+  pattern: string;
+  /** Bounds on the absolute amount for amount-range rules; either may be left open. */
+  minAmount?: number;
+  maxAmount?: number;
+  sign?: "debit" | "credit";
+  category: string;
+}
+
+/** A ledger account and the categories booked to it. Categories on the same account are compatible. */
+export interface ChartAccount {
+  code: string;
+  name: string;
+  categories: string[];
+}
+
+export type CategoryMatching = "off" | "boost" | "restrict";
+
+export interface CategorisationSettings {
+  rules: CategorisationRule[];
+  chart: ChartAccount[];
+  matching: CategoryMatching;
+}
+
+/** Categories the reviewer set by hand, by transaction id. They win over every rule. */
+export type CategoryOverrides = Record<DatasetSide, Record<string, string>>;
+
+export interface CategorySummaryRow {
+  category: string;
+  account: ChartAccount | null;
+  /** Ledger entries settled by a match, aggregation or manual match, so each pairing counts once. */
+  matched: { count: number; amount: number };
+  /** Open items on either side. */
+  unmatched: { count: number; amount: number };
+}
+
+export interface CategorySummary {
+  rows: CategorySummaryRow[];
+  /** The category every open item shares, when they all share one. */
+  onlyUnmatchedCategory: string | null;
+}
+
+export const RULE_KIND_LABELS: Record<CategorisationRuleKind, string> = {
+  keyword: "Description contains a keyword",
+  regex: "Description matches a pattern",
+  "amount-range": "Amount within a range",
+};
+
+export const CATEGORY_MATCHING_LABELS: Record<CategoryMatching, string> = {
+  off: "Ignore categories when matching",
+  boost: "Boost candidates on the same account",
+  restrict: "Only pair compatible categories",
+};
+
+/** Points added to the description similarity of a candidate booked to the same account. */
+export const CATEGORY_BOOST = 0.15;
+
+export const UNCATEGORISED = "Uncategorised";
+
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartAccount[] = [
+  { code: "1100", name: "Internal transfers", categories: ["Transfers"] },
+  { code: "2200", name: "VAT and tax", categories: ["Tax", "VAT"] },
+  { code: "4000", name: "Sales", categories: ["Sales", "Card settlements"] },
+  { code: "4900", name: "Interest received", categories: ["Interest income"] },
+  { code: "5000", name: "Purchases", categories: ["Supplier payments", "Purchases"] },
+  { code: "6100", name: "Bank charges", categories: ["Bank fees", "Card fees"] },
+  { code: "6200", name: "Salaries and wages", categories: ["Salaries"] },
+  { code: "6300", name: "Rent", categories: ["Rent"] },
+  { code: "6400", name: "Utilities", categories: ["Utilities"] },
+];
+
+export const DEFAULT_CATEGORISATION_RULES: CategorisationRule[] = [
+  {
+    id: "category-rule-fees",
+    name: "Bank charges",
+    enabled: true,
+    priority: 10,
+    kind: "keyword",
+    pattern: "fee, charge, commission",
+    sign: "debit",
+    category: "Bank fees",
+  },
+  {
+    id: "category-rule-interest",
+    name: "Interest",
+    enabled: true,
+    priority: 20,
+    kind: "keyword",
+    pattern: "interest",
+    sign: "credit",
+    category: "Interest income",
+  },
+  {
+    id: "category-rule-salaries",
+    name: "Payroll",
+    enabled: true,
+    priority: 30,
+    kind: "keyword",
+    pattern: "salary, salaries, payroll, wages",
+    category: "Salaries",
+  },
+  {
+    id: "category-rule-tax",
+    name: "Tax authority",
+    enabled: true,
+    priority: 40,
+    kind: "regex",
+    pattern: "\\b(sars|vat|paye|tax)\\b",
+    category: "Tax",
+  },
+  {
+    id: "category-rule-utilities",
+    name: "Utilities",
+    enabled: true,
+    priority: 50,
+    kind: "regex",
+    pattern: "\\b(electricity|water|municipal|eskom)\\b",
+    category: "Utilities",
+  },
+  {
+    id: "category-rule-small-debits",
+    name: "Small debits",
+    enabled: false,
+    priority: 90,
+    kind: "amount-range",
+    pattern: "",
+    minAmount: 0,
+    maxAmount: 5,
+    sign: "debit",
+    category: "Bank fees",
+  },
+];
+
+export const DEFAULT_CATEGORISATION: CategorisationSettings = {
+  rules: DEFAULT_CATEGORISATION_RULES,
+  chart: DEFAULT_CHART_OF_ACCOUNTS,
+  matching: "off",
+};
+
+export const EMPTY_CATEGORY_OVERRIDES: CategoryOverrides = { statement: {}, ledger: {} };
+
+const CATEGORISATION_STORAGE_KEY = "smart-reconciliation:categorisation";
+
+export function createCategorisationRuleId() {
+  return `category-rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createCategorisationRule(priority: number): CategorisationRule {
+  return {
+    id: createCategorisationRuleId(),
+    name: "New rule",
+    enabled: true,
+    priority,
+    kind: "keyword",
+    pattern: "",
+    category: "",
+  };
+}
+
+function keywordsOf(pattern: string) {
+  return pattern
+    .split(",")
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Turns a rule into a test on one transaction, throwing a message that names the rule when it cannot. */
+function compileRule(rule: CategorisationRule): (tx: Transaction) => boolean {
+  if (rule.kind === "keyword") {
+    const keywords = keywordsOf(rule.pattern);
+    if (keywords.length === 0) {
+      throw new Error(`Rule "${rule.name}": enter at least one keyword.`);
+    }
+    return (tx) => keywords.some((keyword) => tx.description.toLowerCase().includes(keyword));
+  }
+  if (rule.kind === "regex") {
+    if (!rule.pattern.trim()) {
+      throw new Error(`Rule "${rule.name}": enter a pattern.`);
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.pattern, "i");
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : rule.pattern;
+      throw new Error(`Rule "${rule.name}": pattern is not a valid regular expression: ${reason}`);
+    }
+    return (tx) => pattern.test(tx.description);
+  }
+  const min = rule.minAmount ?? 0;
+  const max = rule.maxAmount ?? Infinity;
+  if (rule.minAmount === undefined && rule.maxAmount === undefined) {
+    throw new Error(`Rule "${rule.name}": enter a minimum or maximum amount.`);
+  }
+  if (!(min >= 0) || !(max >= min)) {
+    throw new Error(`Rule "${rule.name}": the amount range must run from a lower to a higher positive amount.`);
+  }
+  return (tx) => Math.abs(tx.amount) >= min && Math.abs(tx.amount) <= max;
+}
+
+/** Checks a rule before it is saved, throwing a message that names the offending field. */
+export function validateCategorisationRule(rule: CategorisationRule) {
+  if (!rule.name.trim()) {
+    throw new Error("Every rule needs a name.");
+  }
+  if (!rule.category.trim()) {
+    throw new Error(`Rule "${rule.name}": choose the category to apply.`);
+  }
+  if (!Number.isFinite(rule.priority)) {
+    throw new Error(`Rule "${rule.name}": priority must be a number.`);
+  }
+  compileRule(rule);
+}
+
+export function validateChartOfAccounts(chart: ChartAccount[]) {
+  const owners = new Map<string, string>();
+  for (const account of chart) {
+    if (!account.code?.trim() || !account.name?.trim() || !Array.isArray(account.categories)) {
+      throw new Error("Every account needs a code, a name and a list of categories.");
+    }
+    for (const category of account.categories) {
+      const key = category.trim().toLowerCase();
+      const owner = owners.get(key);
+      if (owner && owner !== account.code) {
+        throw new Error(`“${category}” is mapped to both ${owner} and ${account.code}.`);
+      }
+      owners.set(key, account.code);
+    }
+  }
+}
+
+/** Every category in the chart, for pickers. */
+export function chartCategories(chart: ChartAccount[]) {
+  return [...new Set(chart.flatMap((account) => account.categories))].sort((a, b) => a.localeCompare(b));
+}
+
+/** The account a category is booked to. A ledger category may also be the account's code or name. */
+export function accountFor(category: string, chart: ChartAccount[]) {
+  const key = category.trim().toLowerCase();
+  if (!key) return null;
+  return (
+    chart.find(
+      (account) =>
+        account.code.toLowerCase() === key ||
+        account.name.toLowerCase() === key ||
+        account.categories.some((entry) => entry.toLowerCase() === key),
+    ) ?? null
+  );
+}
+
+/** Applies the first enabled rule, in priority order, that matches each line. Lines no rule matches keep theirs. */
+export function categorise<T extends Transaction>(dataset: T[], rules: CategorisationRule[]) {
+  const active = rules
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => a.priority - b.priority)
+    .map((rule) => ({ rule, test: compileRule(rule) }));
+  if (active.length === 0) return dataset;
+  return dataset.map((tx) => {
+    const winner = active.find(({ rule, test }) => (!rule.sign || rule.sign === tx.sign) && test(tx));
+    return winner && winner.rule.category !== tx.category ? { ...tx, category: winner.rule.category } : tx;
+  });
+}
+
+/**
+ * Runs the bank rules over ledger entries whose booked category is not on the chart of accounts, so both sides of a
+ * pairing can be compared by account. Entries booked to a chart account keep their category: the books decide those.
+ */
+export function categoriseLedger<T extends Transaction>(
+  dataset: T[],
+  rules: CategorisationRule[],
+  chart: ChartAccount[],
+) {
+  const categorised = categorise(dataset, rules);
+  return dataset.map((tx, index) => (accountFor(tx.category, chart) ? tx : categorised[index]));
+}
+
+export function applyCategoryOverrides<T extends Transaction>(dataset: T[], overrides: Record<string, string>) {
+  return dataset.map((tx) =>
+    overrides[tx.id] && overrides[tx.id] !== tx.category ? { ...tx, category: overrides[tx.id] } : tx,
+  );
+}
+
+/** A workbench run with the reviewer's category edits shown, so they take effect before the next run. */
+export function recategoriseRun(run: WorkbenchRun, overrides: CategoryOverrides): WorkbenchRun {
+  if (Object.keys(overrides.statement).length === 0 && Object.keys(overrides.ledger).length === 0) return run;
+  const statement = <T extends Transaction>(tx: T) => applyCategoryOverrides([tx], overrides.statement)[0];
+  const ledger = <T extends Transaction>(tx: T) => applyCategoryOverrides([tx], overrides.ledger)[0];
+  return {
+    ...run,
+    matched: run.matched.map((match) => ({
+      ...match,
+      statement: statement(match.statement),
+      ledger: ledger(match.ledger),
+    })),
+    aggregated: run.aggregated.map((agg) => ({
+      ...agg,
+      statements: agg.statements.map(statement),
+      ledger: ledger(agg.ledger),
+    })),
+    groups: run.groups.map((group) => ({
+      ...group,
+      statements: group.statements.map(statement),
+      ledger: group.ledger.map(ledger),
+    })),
+    manual: run.manual.map((match) => ({
+      ...match,
+      statements: match.statements.map(statement),
+      ledger: match.ledger.map(ledger),
+    })),
+    unmatchedStatements: run.unmatchedStatements.map(statement),
+    unmatchedLedger: run.unmatchedLedger.map(ledger),
+  };
+}
+
+/** Whether two transactions are booked to different accounts. Categories outside the chart conflict with nothing. */
+function conflicts(left: Transaction, right: Transaction, chart: ChartAccount[]) {
+  const a = accountFor(left.category, chart);
+  const b = accountFor(right.category, chart);
+  return Boolean(a && b && a.code !== b.code);
+}
+
+function boostSameAccount(
+  run: ReconciliationRun,
+  config: EngineConfig,
+  chart: ChartAccount[],
+  options: EngineOptions,
+): ReconciliationRun {
+  const index = createCandidateIndex(run.unmatchedLedger);
+  const matched: EngineMatch[] = [];
+  const unmatchedStatements: Transaction[] = [];
+  for (const tx of run.unmatchedStatements) {
+    const account = accountFor(tx.category, chart);
+    const best = account
+      ? index
+          .byAmount(tx.amount, tx.sign, config.amountTolerance, tx.normalizedDate, config.dateToleranceDays)
+          .filter((candidate) => accountFor(candidate.category, chart)?.code === account.code)
+          .filter((candidate) => !options.rejects?.(tx, candidate))
+          .map((candidate) => ({ candidate, pair: scorePair(tx, candidate) }))
+          .sort((a, b) => b.pair.similarity - a.pair.similarity)[0]
+      : undefined;
+    if (!account || !best || best.pair.similarity + CATEGORY_BOOST < config.descriptionThreshold) {
+      unmatchedStatements.push(tx);
+      continue;
+    }
+    index.remove(best.candidate);
+    matched.push({
+      statement: tx,
+      ledger: best.candidate,
+      score: Math.min(1, best.pair.similarity + CATEGORY_BOOST),
+      components: best.pair.components,
+      type: "fuzzy",
+      reasons: [
+        `Description similarity ${Math.round(best.pair.similarity * 100)}% boosted by ${CATEGORY_BOOST * 100} points: both booked to ${account.code} ${account.name}`,
+      ],
+    });
+  }
+  return {
+    ...run,
+    matched: [...run.matched, ...matched],
+    unmatchedStatements,
+    unmatchedLedger: run.unmatchedLedger.filter(index.isOpen),
+  };
+}
+
+/** Reports an engine run's progress as share `part` of `parts`, for stages that run the engine several times. */
+function shareOf(options: EngineOptions, part: number, parts: number): EngineOptions {
+  const { onProgress } = options;
+  if (!onProgress) return options;
+  return { ...options, onProgress: (fraction) => onProgress((part + fraction) / parts) };
+}
+
+function restrictToAccounts(
+  statement: Transaction[],
+  ledger: Transaction[],
+  config: EngineConfig,
+  chart: ChartAccount[],
+  options: EngineOptions,
+): ReconciliationRun {
+  const codeOf = (tx: Transaction) => accountFor(tx.category, chart)?.code ?? null;
+  const result: ReconciliationRun = { matched: [], aggregated: [], unmatchedStatements: [], unmatchedLedger: [] };
+  const rest = {
+    statement: statement.filter((tx) => codeOf(tx) === null),
+    ledger: ledger.filter((tx) => codeOf(tx) === null),
+  };
+
+  const accounts = chart.map((account) => ({
+    account,
+    statement: statement.filter((tx) => codeOf(tx) === account.code),
+    ledger: ledger.filter((tx) => codeOf(tx) === account.code),
+  }));
+  const runs = accounts.filter((entry) => entry.statement.length > 0 && entry.ledger.length > 0);
+  for (const { account, statement: accountStatement, ledger: accountLedger } of accounts) {
+    if (accountStatement.length === 0 || accountLedger.length === 0) {
+      rest.statement.push(...accountStatement);
+      rest.ledger.push(...accountLedger);
+      continue;
+    }
+    const part = runs.findIndex((entry) => entry.account === account);
+    const run = reconcileTransactions(accountStatement, accountLedger, config, shareOf(options, part, runs.length + 1));
+    const reason = `Categories agree: both booked to ${account.code} ${account.name}`;
+    result.matched.push(...run.matched.map((match) => ({ ...match, reasons: [...match.reasons, reason] })));
+    result.aggregated.push(...run.aggregated.map((agg) => ({ ...agg, reasons: [...agg.reasons, reason] })));
+    rest.statement.push(...run.unmatchedStatements);
+    rest.ledger.push(...run.unmatchedLedger);
+  }
+
+  // Uncategorised rows may pair with anything, so the rest runs together and cross-account pairings are undone.
+  const run = reconcileTransactions(
+    rest.statement,
+    rest.ledger,
+    config,
+    shareOf(options, runs.length, runs.length + 1),
+  );
+  result.unmatchedStatements.push(...run.unmatchedStatements);
+  result.unmatchedLedger.push(...run.unmatchedLedger);
+  for (const match of run.matched) {
+    if (conflicts(match.statement, match.ledger, chart)) {
+      result.unmatchedStatements.push(match.statement);
+      result.unmatchedLedger.push(match.ledger);
+    } else {
+      result.matched.push(match);
+    }
+  }
+  for (const agg of run.aggregated) {
+    if (agg.statements.some((tx) => conflicts(tx, agg.ledger, chart))) {
+      result.unmatchedStatements.push(...agg.statements);
+      result.unmatchedLedger.push(agg.ledger);
+    } else {
+      result.aggregated.push(agg);
+    }
+  }
+  return result;
+}
+
+/**
+ * `reconcileTransactions` with category awareness. `boost` runs the engine as usual, then pairs leftovers on the
+ * same account whose description falls short of the threshold by no more than `CATEGORY_BOOST`. `restrict` runs the
+ * engine once per account and never keeps a pairing between two different accounts.
+ */
+export function reconcileByCategory(
+  statement: Transaction[],
+  ledger: Transaction[],
+  config: EngineConfig,
+  settings?: Pick<CategorisationSettings, "chart" | "matching">,
+  options: EngineOptions = {},
+): ReconciliationRun {
+  if (!settings || settings.matching === "off") {
+    return reconcileTransactions(statement, ledger, config, options);
+  }
+  if (settings.matching === "boost") {
+    return boostSameAccount(reconcileTransactions(statement, ledger, config, options), config, settings.chart, options);
+  }
+  return restrictToAccounts(statement, ledger, config, settings.chart, options);
+}
+
+/** Totals per category of matched and open items, largest open amount first. */
+export function summarizeCategories(run: WorkbenchRun, chart: ChartAccount[]): CategorySummary {
+  const settled = [
+    ...run.matched.map((match) => match.ledger),
+    ...run.aggregated.map((agg) => agg.ledger),
+    ...run.groups.flatMap((group) => group.ledger),
+    ...run.manual.flatMap((match) => match.ledger),
+  ];
+  const open = [...run.unmatchedStatements, ...run.unmatchedLedger];
+  const nameOf = (tx: Transaction) => tx.category.trim() || UNCATEGORISED;
+  const byCategory = (transactions: Transaction[]) => {
+    const groups = new Map<string, Transaction[]>();
+    for (const tx of transactions) groups.set(nameOf(tx), [...(groups.get(nameOf(tx)) ?? []), tx]);
+    return groups;
+  };
+  const settledBy = byCategory(settled);
+  const openBy = byCategory(open);
+
+  const rows = [...new Set([...settledBy.keys(), ...openBy.keys()])].map((category) => {
+    const matched = settledBy.get(category) ?? [];
+    const unmatched = openBy.get(category) ?? [];
+    return {
+      category,
+      account: accountFor(category, chart),
+      matched: { count: matched.length, amount: sumMagnitudes(matched) },
+      unmatched: { count: unmatched.length, amount: sumMagnitudes(unmatched) },
+    };
+  });
+  rows.sort((a, b) => b.unmatched.amount - a.unmatched.amount || a.category.localeCompare(b.category));
+
+  return { rows, onlyUnmatchedCategory: openBy.size === 1 ? [...openBy.keys()][0] : null };
+}
+
+export function loadCategorisation(): CategorisationSettings {
+  if (typeof window === "undefined") return DEFAULT_CATEGORISATION;
+  try {
+    const stored = window.localStorage.getItem(CATEGORISATION_STORAGE_KEY);
+    return stored
+      ? { ...DEFAULT_CATEGORISATION, ...(JSON.parse(stored) as Partial<CategorisationSettings>) }
+      : DEFAULT_CATEGORISATION;
+  } catch {
+    return DEFAULT_CATEGORISATION;
+  }
+}
+
+/** Validates and stores the settings, returning them with rules in priority order. */
+export function saveCategorisation(settings: CategorisationSettings) {
+  settings.rules.forEach(validateCategorisationRule);
+  validateChartOfAccounts(settings.chart);
+  const next = { ...settings, rules: [...settings.rules].sort((a, b) => a.priority - b.priority) };
+  window.localStorage.setItem(CATEGORISATION_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
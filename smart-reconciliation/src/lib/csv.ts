@@ -0,0 +1,56 @@
+import { detectDelimiter, tokenizeDelimited } from "@/lib/importMapping";
+import type { RawTransaction, TransactionSource } from "@/lib/types";
+
+const REQUIRED_COLUMNS = ["id", "date", "description", "amount", "type"] as const;
+/** Optional columns and the header spellings accepted for them. */
+const OPTIONAL_COLUMNS = {
+  currency: ["currency", "ccy"],
+  bankReference: ["bank_reference", "bankreference"],
+  valueDate: ["value_date", "valuedate"],
+} as const;
+
+type Column = (typeof REQUIRED_COLUMNS)[number];
+
+/**
+ * Parses canonical CSV (`id,date,description,amount,type`, columns in any order, extra columns ignored) into raw
+ * rows, reading the optional `currency` (or `ccy`), `bank_reference` and `value_date` columns as well. Values are kept
+ * as text; `normalizeDataset` does the cleaning. Rows without an id are numbered.
+ */
+export function parseCsv(text: string, source: TransactionSource): RawTransaction[] {
+  const rows = tokenizeDelimited(text.trim(), detectDelimiter(text));
+  if (rows.length === 0) return [];
+
+  const label = source === "statement" ? "Statement" : "Ledger";
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const columns = Object.fromEntries(REQUIRED_COLUMNS.map((column) => [column, header.indexOf(column)])) as Record<
+    Column,
+    number
+  >;
+  const missing = REQUIRED_COLUMNS.filter((column) => columns[column] === -1);
+  if (missing.length > 0) {
+    throw new Error(
+      `${label} CSV is missing the ${missing.join(", ")} column(s). Expected ${REQUIRED_COLUMNS.join(",")}.`,
+    );
+  }
+
+  const optional = (field: keyof typeof OPTIONAL_COLUMNS) =>
+    header.findIndex((cell) => (OPTIONAL_COLUMNS[field] as readonly string[]).includes(cell));
+  const currencyColumn = optional("currency");
+  const referenceColumn = optional("bankReference");
+  const valueDateColumn = optional("valueDate");
+  return rows.slice(1).map((row, index) => {
+    const currency = (row[currencyColumn] ?? "").trim().toUpperCase();
+    const bankReference = (row[referenceColumn] ?? "").trim();
+    const valueDate = (row[valueDateColumn] ?? "").trim();
+    return {
+      id: row[columns.id] || `${source}-${index + 1}`,
+      date: row[columns.date] ?? "",
+      description: row[columns.description] ?? "",
+      amount: row[columns.amount] ?? "",
+      type: row[columns.type] ?? "",
+      ...(currency ? { currency } : {}),
+      ...(bankReference ? { bankReference } : {}),
+      ...(valueDate ? { valueDate } : {}),
+    };
+  });
+}
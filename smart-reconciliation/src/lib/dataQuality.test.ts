@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { analyzeDataQuality, applyExclusions, rowKey } from "@/lib/dataQuality";
+import { DEFAULT_FX_SETTINGS } from "@/lib/fx";
+import { prepareDatasets, prepareMatchingPool } from "@/lib/pipeline";
+
+// The bank repeated its reference on a debit order that went off twice.
+const statementInput = `id,date,description,amount,type
+DO-2291,2026-09-02,Debit order Insure Co,1450.00,debit
+DO-2291,2026-09-02,Debit order Insure Co,1450.00,debit
+S-3,2026-09-04,Service fee,R12.5O,debit`;
+
+const ledgerInput = `id,date,description,amount,type
+L-1,2026-09-02,Insure Co premium,1450.00,debit`;
+
+function analyse() {
+  const prepared = prepareDatasets({ statementInput, ledgerInput, fx: DEFAULT_FX_SETTINGS });
+  return analyzeDataQuality({
+    statement: prepared.statement,
+    ledger: prepared.ledger,
+    rawStatement: prepared.statementRows,
+    rawLedger: prepared.ledgerRows,
+  });
+}
+
+describe("duplicate rows that share a bank reference", () => {
+  it("suggest excluding the later row only", () => {
+    const duplicate = analyse().issues.find((issue) => issue.kind === "duplicate");
+
+    expect(duplicate).toMatchObject({ transactionIds: ["DO-2291", "DO-2291"], suggestedExclusions: [rowKey(1)] });
+    expect(duplicate?.message).toContain("lines 1 and 2");
+  });
+
+  it("keep the first copy in the matching pool once the later one is excluded", () => {
+    const { suggestedExclusions } = analyse().issues.find((issue) => issue.kind === "duplicate")!;
+    const pool = prepareMatchingPool({
+      statementInput,
+      ledgerInput,
+      fx: DEFAULT_FX_SETTINGS,
+      exclusions: { statement: [...suggestedExclusions, rowKey(2)], ledger: [] },
+    });
+
+    expect(pool.statement.kept.map((tx) => tx.id)).toEqual(["DO-2291"]);
+    expect(pool.statement.excluded).toHaveLength(2);
+  });
+});
+
+describe("malformed amounts", () => {
+  it("are reported by the check but keep the row out of matching until it is excluded", () => {
+    expect(analyse().issues.find((issue) => issue.kind === "malformed-amount")?.message).toBe(
+      "Statement row S-3 has the amount “R12.5O”, which cannot be read as an amount.",
+    );
+    expect(() => prepareMatchingPool({ statementInput, ledgerInput, fx: DEFAULT_FX_SETTINGS })).toThrow(
+      'Statement row S-3: "R12.5O" is not an amount. Correct it or exclude the row.',
+    );
+  });
+});
+
+describe("applyExclusions", () => {
+  it("keys malformed amounts by row as well", () => {
+    const malformed = analyse().issues.find((issue) => issue.kind === "malformed-amount");
+    const { statement } = prepareDatasets({ statementInput, ledgerInput, fx: DEFAULT_FX_SETTINGS });
+
+    expect(malformed?.suggestedExclusions).toEqual([rowKey(2)]);
+    expect(applyExclusions(statement, malformed?.suggestedExclusions ?? []).kept.map((tx) => tx.id)).toEqual([
+      "DO-2291",
+      "DO-2291",
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+import { formatCurrency } from "@/lib/format";
+import { descriptionSimilarity } from "@/lib/matching";
+import { parseAmount } from "@/lib/normalization";
+import type { RawTransaction } from "@/lib/types";
+import type { Transaction } from "@/lib/workbench";
+
+export type DataQualityKind = "duplicate" | "reversal" | "out-of-period" | "malformed-amount" | "category-outlier";
+
+export type DatasetSide = "statement" | "ledger";
+
+export interface DataQualityIssue {
+  id: string;
+  kind: DataQualityKind;
+  side: DatasetSide;
+  /** Every row involved, e.g. both copies of a duplicate. */
+  transactionIds: string[];
+  /**
+   * The `rowKey`s of the rows excluding would remove: the later copy of a duplicate, both halves of a reversal, the
+   * row itself.
+   */
+  suggestedExclusions: string[];
+  message: string;
+}
+
+export interface DataQualityReport {
+  issues: DataQualityIssue[];
+  counts: Record<DataQualityKind, number>;
+}
+
+/** Rows left out of matching, per side, by `rowKey`: banks repeat reference ids, so an id can name several rows. */
+export interface Exclusions {
+  statement: string[];
+  ledger: string[];
+}
+
+export const EMPTY_EXCLUSIONS: Exclusions = { statement: [], ledger: [] };
+
+export const DATA_QUALITY_LABELS: Record<DataQualityKind, string> = {
+  duplicate: "Suspected duplicates",
+  reversal: "Reversals",
+  "out-of-period": "Out-of-period dates",
+  "malformed-amount": "Malformed amounts",
+  "category-outlier": "Category outliers",
+};
+
+/** Identifies the `index`th data row of an import, e.g. `row-3`, whatever id the row carries. */
+export function rowKey(index: number) {
+  return `row-${index + 1}`;
+}
+
+const DUPLICATE_DAYS = 1;
+const DUPLICATE_SIMILARITY = 0.9;
+const REVERSAL_DAYS = 7;
+const REVERSAL_SIMILARITY = 0.6;
+const REVERSAL_PATTERN = /\b(?:rev(?:ersal|ersed)?|refund|cancel(?:led)?)\b/i;
+/** Robust z-score (median absolute deviation) above which an amount is unusual for its category. */
+const OUTLIER_SCORE = 3.5;
+/** Categories with fewer rows are too small to call anything an outlier. */
+const OUTLIER_MIN_ROWS = 5;
+
+function daysBetween(left: string, right: string) {
+  return Math.abs(Date.parse(left) - Date.parse(right)) / 86_400_000;
+}
+
+function cents(amount: number) {
+  return Math.round(Math.abs(amount) * 100);
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Buckets transactions by absolute amount so duplicate and reversal checks only compare like with like. */
+function byAmount<T extends Transaction>(dataset: T[]) {
+  const buckets = new Map<number, T[]>();
+  for (const tx of dataset) {
+    const key = cents(tx.amount);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(tx);
+    else buckets.set(key, [tx]);
+  }
+  return buckets;
+}
+
+function analyseSide<T extends Transaction>(
+  side: DatasetSide,
+  dataset: T[],
+  raw: RawTransaction[],
+  period: string | null,
+): Omit<DataQualityIssue, "id">[] {
+  const issues: Omit<DataQualityIssue, "id">[] = [];
+  const label = side === "statement" ? "Statement" : "Ledger";
+  // A row's position in its import identifies it even when the bank repeats a reference id.
+  const positions = new Map(dataset.map((tx, index) => [tx, index]));
+  const indexOf = (tx: T) => positions.get(tx) as number;
+  const keyOf = (tx: T) => rowKey(indexOf(tx));
+
+  raw.forEach((row, index) => {
+    try {
+      parseAmount(row.amount);
+    } catch {
+      issues.push({
+        kind: "malformed-amount",
+        side,
+        transactionIds: [row.id],
+        suggestedExclusions: [rowKey(index)],
+        message: `${label} row ${row.id} has the amount “${row.amount}”, which cannot be read as an amount.`,
+      });
+    }
+  });
+
+  const paired = new Set<T>();
+  for (const bucket of byAmount(dataset).values()) {
+    if (bucket.length < 2) continue;
+    const ordered = [...bucket].sort((a, b) => a.normalizedDate.localeCompare(b.normalizedDate));
+    for (let left = 0; left < ordered.length; left += 1) {
+      for (let right = left + 1; right < ordered.length; right += 1) {
+        const first = ordered[left];
+        const second = ordered[right];
+        const days = daysBetween(first.normalizedDate, second.normalizedDate);
+        // Rows are in date order, so nothing further along can be close enough.
+        if (days > REVERSAL_DAYS) break;
+        if (paired.has(first) || paired.has(second)) continue;
+        const similarity = descriptionSimilarity(first.description, second.description);
+        if (first.sign === second.sign && days <= DUPLICATE_DAYS && similarity >= DUPLICATE_SIMILARITY) {
+          paired.add(second);
+          issues.push({
+            kind: "duplicate",
+            side,
+            transactionIds: [first.id, second.id],
+            suggestedExclusions: [keyOf(second)],
+            message: `${label} rows ${first.id} and ${second.id} (lines ${indexOf(first) + 1} and ${indexOf(second) + 1}) are both “${first.description}” for ${formatCurrency(first.amount)} on ${first.normalizedDate}${days ? ` and ${second.normalizedDate}` : ""}.`,
+          });
+        } else if (
+          first.sign !== second.sign &&
+          days <= REVERSAL_DAYS &&
+          (similarity >= REVERSAL_SIMILARITY || REVERSAL_PATTERN.test(second.description))
+        ) {
+          paired.add(first);
+          paired.add(second);
+          issues.push({
+            kind: "reversal",
+            side,
+            transactionIds: [first.id, second.id],
+            suggestedExclusions: [keyOf(first), keyOf(second)],
+            message: `${label} row ${second.id} (“${second.description}”) reverses ${first.id} for ${formatCurrency(first.amount)}; together they net to zero.`,
+          });
+        }
+      }
+    }
+  }
+
+  if (period) {
+    for (const tx of dataset) {
+      if (tx.normalizedDate.startsWith(period)) continue;
+      issues.push({
+        kind: "out-of-period",
+        side,
+        transactionIds: [tx.id],
+        suggestedExclusions: [keyOf(tx)],
+        message: `${label} row ${tx.id} is dated ${tx.normalizedDate}, outside the ${period} period.`,
+      });
+    }
+  }
+
+  const categories = new Map<string, T[]>();
+  for (const tx of dataset) {
+    const key = `${tx.category.trim().toLowerCase()}|${tx.sign}`;
+    const rows = categories.get(key);
+    if (rows) rows.push(tx);
+    else categories.set(key, [tx]);
+  }
+  for (const rows of categories.values()) {
+    if (rows.length < OUTLIER_MIN_ROWS) continue;
+    const amounts = rows.map((tx) => Math.abs(tx.amount));
+    const centre = median(amounts);
+    const spread = median(amounts.map((amount) => Math.abs(amount - centre))) * 1.4826;
+    if (spread === 0) continue;
+    for (const tx of rows) {
+      if (Math.abs(Math.abs(tx.amount) - centre) / spread <= OUTLIER_SCORE) continue;
+      issues.push({
+        kind: "category-outlier",
+        side,
+        transactionIds: [tx.id],
+        suggestedExclusions: [keyOf(tx)],
+        message: `${label} row ${tx.id} (${formatCurrency(tx.amount)}) is unusual for “${tx.category}”, where the typical ${tx.sign} is ${formatCurrency(centre)}.`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Pre-match analysis of both datasets. Nothing is removed here: the findings feed the Data Quality panel, where the
+ * reviewer decides which rows to exclude before matching. `period` is the session's `YYYY-MM`, if any.
+ */
+export function analyzeDataQuality<T extends Transaction>(input: {
+  statement: T[];
+  ledger: T[];
+  rawStatement: RawTransaction[];
+  rawLedger: RawTransaction[];
+  period?: string | null;
+}): DataQualityReport {
+  const found = [
+    ...analyseSide("statement", input.statement, input.rawStatement, input.period ?? null),
+    ...analyseSide("ledger", input.ledger, input.rawLedger, input.period ?? null),
+  ];
+  const issues = found.map((issue, index) => ({ ...issue, id: `${issue.kind}-${issue.side}-${index}` }));
+  const counts = Object.fromEntries(
+    (Object.keys(DATA_QUALITY_LABELS) as DataQualityKind[]).map((kind) => [
+      kind,
+      issues.filter((issue) => issue.kind === kind).length,
+    ]),
+  ) as Record<DataQualityKind, number>;
+  return { issues, counts };
+}
+
+/** Splits an imported dataset into the rows that go on to matching and the rows the reviewer excluded. */
+export function applyExclusions<T extends Transaction>(dataset: T[], excludedRows: string[]) {
+  if (excludedRows.length === 0) return { kept: dataset, excluded: [] as T[] };
+  const keys = new Set(excludedRows);
+  return {
+    kept: dataset.filter((_, index) => !keys.has(rowKey(index))),
+    excluded: dataset.filter((_, index) => keys.has(rowKey(index))),
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ENGINE_CONFIG, describeConfigIssues, validateEngineConfig } from "@/lib/engineConfig";
+
+describe("validateEngineConfig", () => {
+  it("fills missing settings from the defaults", () => {
+    expect(validateEngineConfig(undefined)).toEqual({ config: DEFAULT_ENGINE_CONFIG, issues: [] });
+    expect(validateEngineConfig({ dateToleranceDays: 7 }).config).toEqual({
+      ...DEFAULT_ENGINE_CONFIG,
+      dateToleranceDays: 7,
+    });
+  });
+
+  it("reports every offending key and keeps the default for it", () => {
+    const { config, issues } = validateEngineConfig({
+      descriptionThreshold: 0.05,
+      dateToleranceDays: 2.5,
+      amountTolerance: "1",
+      fuzziness: 1,
+    });
+
+    expect(issues).toEqual([
+      { path: "config.fuzziness", message: "is not an engine setting" },
+      { path: "config.dateToleranceDays", message: "must be a whole number" },
+      { path: "config.descriptionThreshold", message: "must be between 0.1 and 1" },
+      { path: "config.amountTolerance", message: "must be a number" },
+    ]);
+    expect(config).toEqual(DEFAULT_ENGINE_CONFIG);
+  });
+
+  it("rejects anything but an object", () => {
+    expect(validateEngineConfig([], "profile.config").issues).toEqual([
+      { path: "profile.config", message: "must be an object" },
+    ]);
+  });
+});
+
+describe("describeConfigIssues", () => {
+  it("names the setting with the panel's label", () => {
+    expect(describeConfigIssues({ ...DEFAULT_ENGINE_CONFIG, aggregationMaxGroupSize: 12 })).toEqual([
+      "Aggregation group size must be between 2 and 8.",
+    ]);
+  });
+});
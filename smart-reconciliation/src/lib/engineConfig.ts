@@ -0,0 +1,76 @@
+import type { EngineConfig } from "@/lib/types";
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  dateToleranceDays: 3,
+  descriptionThreshold: 0.8,
+  amountTolerance: 0.01,
+  aggregationAmountTolerance: 5,
+  aggregationMaxGroupSize: 5,
+};
+
+/** The ranges the Matching Rules panel allows, enforced wherever a configuration arrives from outside the page. */
+export const ENGINE_CONFIG_LIMITS: Record<keyof EngineConfig, { min: number; max: number; integer?: boolean }> = {
+  dateToleranceDays: { min: 0, max: 30, integer: true },
+  descriptionThreshold: { min: 0.1, max: 1 },
+  amountTolerance: { min: 0, max: 100 },
+  aggregationAmountTolerance: { min: 0, max: 1000 },
+  aggregationMaxGroupSize: { min: 2, max: 8, integer: true },
+};
+
+export const ENGINE_CONFIG_LABELS: Record<keyof EngineConfig, string> = {
+  dateToleranceDays: "Date tolerance",
+  descriptionThreshold: "Description similarity threshold",
+  amountTolerance: "Amount tolerance",
+  aggregationAmountTolerance: "Aggregation tolerance",
+  aggregationMaxGroupSize: "Aggregation group size",
+};
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Checks a configuration received as JSON. Missing keys fall back to the defaults; anything present must be a
+ * number inside `ENGINE_CONFIG_LIMITS`. Returns the merged configuration and one issue per offending key.
+ */
+export function validateEngineConfig(value: unknown, path = "config") {
+  const issues: ConfigIssue[] = [];
+  const config: EngineConfig = { ...DEFAULT_ENGINE_CONFIG };
+  if (value === undefined || value === null) {
+    return { config, issues };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { config, issues: [{ path, message: "must be an object" }] };
+  }
+
+  const input = value as Record<string, unknown>;
+  for (const key of Object.keys(input)) {
+    if (!(key in ENGINE_CONFIG_LIMITS)) {
+      issues.push({ path: `${path}.${key}`, message: "is not an engine setting" });
+    }
+  }
+  for (const key of Object.keys(ENGINE_CONFIG_LIMITS) as (keyof EngineConfig)[]) {
+    const raw = input[key];
+    if (raw === undefined) continue;
+    const { min, max, integer } = ENGINE_CONFIG_LIMITS[key];
+    if (typeof raw !== "number" || !Number.isFinite(raw)) {
+      issues.push({ path: `${path}.${key}`, message: "must be a number" });
+    } else if (raw < min || raw > max) {
+      issues.push({ path: `${path}.${key}`, message: `must be between ${min} and ${max}` });
+    } else if (integer && !Number.isInteger(raw)) {
+      issues.push({ path: `${path}.${key}`, message: "must be a whole number" });
+    } else {
+      config[key] = raw;
+    }
+  }
+  return { config, issues };
+}
+
+/** The problems with a configuration edited on the page, one sentence per setting, using the panel's labels. */
+export function describeConfigIssues(config: EngineConfig) {
+  return validateEngineConfig(config).issues.map((issue) => {
+    const key = issue.path.split(".").pop() as keyof EngineConfig;
+    return `${ENGINE_CONFIG_LABELS[key] ?? issue.path} ${issue.message}.`;
+  });
+}
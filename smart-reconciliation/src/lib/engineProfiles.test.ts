@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  ENGINE_PRESETS,
+  parseEngineProfiles,
+  saveEngineProfile,
+  serializeEngineProfiles,
+  validateEngineProfile,
+} from "@/lib/engineProfiles";
+import { createMatchingRule } from "@/lib/ruleEngine";
+
+const salaryRule = {
+  ...createMatchingRule(10),
+  name: "Salary run",
+  when: { statementDescription: "SALARY (\\d+)" },
+};
+
+describe("validateEngineProfile", () => {
+  it("lists every problem in one message", () => {
+    expect(() =>
+      validateEngineProfile({
+        name: "",
+        config: { descriptionThreshold: 2 },
+        matchingRules: [{ ...salaryRule, action: { kind: "bogus" } }],
+      }),
+    ).toThrow(
+      'Profile "unnamed" is invalid: name is required; config.descriptionThreshold must be between 0.1 and 1; ' +
+        'Rule "Salary run": action kind must be one of match, never-match, date-tolerance.',
+    );
+  });
+
+  it("gives a copy of a preset an id of its own", () => {
+    const profile = validateEngineProfile({ ...ENGINE_PRESETS[0], name: "Cheque account (copy)" });
+
+    expect(profile.id).not.toBe(ENGINE_PRESETS[0].id);
+    expect(profile).not.toHaveProperty("builtIn");
+  });
+});
+
+describe("profile JSON", () => {
+  it("round-trips a profile with its rules", () => {
+    const profile = validateEngineProfile({ id: "card", name: "Card", config: {}, matchingRules: [salaryRule] });
+    const [parsed] = parseEngineProfiles(serializeEngineProfiles([profile]));
+
+    expect(parsed).toEqual(profile);
+  });
+
+  it("reads a single profile as well as an array", () => {
+    expect(parseEngineProfiles(JSON.stringify({ name: "Card" }))).toHaveLength(1);
+    expect(() => parseEngineProfiles("{")).toThrow("Profiles must be valid JSON.");
+  });
+});
+
+describe("saveEngineProfile", () => {
+  it("refuses to change a built-in preset", () => {
+    expect(() => saveEngineProfile(ENGINE_PRESETS[1])).toThrow(/built-in preset/);
+  });
+});
@@ -0,0 +1,185 @@
+import { DEFAULT_ENGINE_CONFIG, validateEngineConfig } from "@/lib/engineConfig";
+import { validateImportProfile, type ImportProfile } from "@/lib/importMapping";
+import { createMatchingRuleId, validateMatchingRule, type MatchingRule } from "@/lib/ruleEngine";
+import type { EngineConfig } from "@/lib/types";
+
+/** Engine settings, import mapping and custom rules for one kind of account, saved under a name. */
+export interface EngineProfile {
+  id: string;
+  name: string;
+  /** Presets ship with the app: they can be applied and copied but not changed or deleted. */
+  builtIn?: boolean;
+  config: EngineConfig;
+  /** The bank statement's import mapping; the ledger export is the same for every account. */
+  importMapping: ImportProfile | null;
+  matchingRules: MatchingRule[];
+}
+
+const PROFILE_STORAGE_KEY = "smart-reconciliation:engine-profiles";
+const ACTIVE_PROFILE_STORAGE_KEY = "smart-reconciliation:active-engine-profile";
+
+export const ENGINE_PRESETS: EngineProfile[] = [
+  {
+    id: "preset-cheque",
+    name: "Cheque account",
+    builtIn: true,
+    config: DEFAULT_ENGINE_CONFIG,
+    importMapping: null,
+    matchingRules: [],
+  },
+  {
+    id: "preset-credit-card",
+    name: "Credit card",
+    builtIn: true,
+    config: { ...DEFAULT_ENGINE_CONFIG, dateToleranceDays: 5, descriptionThreshold: 0.7 },
+    importMapping: null,
+    matchingRules: [],
+  },
+  {
+    id: "preset-merchant-settlement",
+    name: "Merchant settlements",
+    builtIn: true,
+    // Acquirers pay out days later, net of fees, in batches covering many sales.
+    config: {
+      dateToleranceDays: 7,
+      descriptionThreshold: 0.6,
+      amountTolerance: 0.05,
+      aggregationAmountTolerance: 50,
+      aggregationMaxGroupSize: 8,
+    },
+    importMapping: null,
+    matchingRules: [],
+  },
+];
+
+export function createEngineProfileId() {
+  return `engine-profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Checks a profile received as JSON and returns it with defaults filled in. Every problem is collected, so one error
+ * lists all of them, e.g. `config.descriptionThreshold must be between 0.1 and 1`.
+ */
+export function validateEngineProfile(value: unknown): EngineProfile {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("A profile must be a JSON object.");
+  }
+  const input = value as Partial<Record<keyof EngineProfile, unknown>>;
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  const problems: string[] = [];
+  if (!name) problems.push("name is required");
+
+  const { config, issues } = validateEngineConfig(input.config);
+  problems.push(...issues.map((issue) => `${issue.path} ${issue.message}`));
+
+  const matchingRules = input.matchingRules ?? [];
+  if (!Array.isArray(matchingRules)) {
+    problems.push("matchingRules must be an array");
+  } else {
+    for (const rule of matchingRules as MatchingRule[]) {
+      try {
+        if (!rule || typeof rule !== "object" || !rule.when || !rule.action) {
+          throw new Error("Each rule needs a name, priority, when and action.");
+        }
+        validateMatchingRule(rule);
+      } catch (err) {
+        problems.push(err instanceof Error ? err.message.replace(/\.$/, "") : "a rule is invalid");
+      }
+    }
+  }
+
+  const importMapping = (input.importMapping ?? null) as ImportProfile | null;
+  if (importMapping !== null) {
+    try {
+      if (typeof importMapping !== "object" || !importMapping.columns) {
+        throw new Error("importMapping must be an import profile.");
+      }
+      validateImportProfile(importMapping);
+    } catch (err) {
+      problems.push(`importMapping: ${err instanceof Error ? err.message.replace(/\.$/, "") : "is invalid"}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Profile "${name || "unnamed"}" is invalid: ${problems.join("; ")}.`);
+  }
+  return {
+    // A copy of a preset, e.g. from an export, becomes a profile of its own.
+    id:
+      typeof input.id === "string" && input.id && !ENGINE_PRESETS.some((preset) => preset.id === input.id)
+        ? input.id
+        : createEngineProfileId(),
+    name,
+    config,
+    importMapping,
+    matchingRules: (matchingRules as MatchingRule[]).map((rule) => ({
+      ...rule,
+      id: rule.id || createMatchingRuleId(),
+      enabled: rule.enabled !== false,
+    })),
+  };
+}
+
+/** Reads a profile export: either one profile or an array of them. */
+export function parseEngineProfiles(text: string): EngineProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Profiles must be valid JSON.");
+  }
+  return (Array.isArray(parsed) ? parsed : [parsed]).map(validateEngineProfile);
+}
+
+export function serializeEngineProfiles(profiles: EngineProfile[]) {
+  const exported = profiles.map((profile) => ({
+    id: profile.id,
+    name: profile.name,
+    config: profile.config,
+    importMapping: profile.importMapping,
+    matchingRules: profile.matchingRules,
+  }));
+  return JSON.stringify(exported, null, 2);
+}
+
+function loadStoredProfiles(): EngineProfile[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(PROFILE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as EngineProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The built-in presets followed by the saved profiles. */
+export function loadEngineProfiles(): EngineProfile[] {
+  return [...ENGINE_PRESETS, ...loadStoredProfiles()];
+}
+
+export function saveEngineProfile(profile: EngineProfile) {
+  if (profile.builtIn) {
+    throw new Error(`"${profile.name}" is a built-in preset. Save your changes as a new profile.`);
+  }
+  const saved = validateEngineProfile(profile);
+  const profiles = loadStoredProfiles().filter((entry) => entry.id !== saved.id);
+  const next = [...profiles, saved].sort((a, b) => a.name.localeCompare(b.name));
+  window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(next));
+  return [...ENGINE_PRESETS, ...next];
+}
+
+export function deleteEngineProfile(id: string) {
+  const next = loadStoredProfiles().filter((entry) => entry.id !== id);
+  window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(next));
+  return [...ENGINE_PRESETS, ...next];
+}
+
+export function loadActiveProfileId() {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+}
+
+export function saveActiveProfileId(id: string | null) {
+  if (id) window.localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+  else window.localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+}
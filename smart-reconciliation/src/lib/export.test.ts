@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_BALANCES } from "@/lib/balanceProof";
+import { parseCsv } from "@/lib/csv";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { RUN_EXPORT_FORMAT, parseRunExport, serializeRun, sheetToCsv } from "@/lib/export";
+import { reconcileTransactions } from "@/lib/matching";
+import { normalizeDataset } from "@/lib/normalization";
+import { sampleLedgerCsv, sampleStatementCsv } from "@/lib/sampleData";
+import type { ManualDecision } from "@/lib/workbench";
+
+function sampleRun() {
+  return reconcileTransactions(
+    normalizeDataset(parseCsv(sampleStatementCsv, "statement"), "statement"),
+    normalizeDataset(parseCsv(sampleLedgerCsv, "ledger"), "ledger"),
+    DEFAULT_ENGINE_CONFIG,
+  );
+}
+
+describe("serializeRun / parseRunExport", () => {
+  it("round-trips the run with its decisions, review trail, category overrides and FX settings", () => {
+    const decisions: ManualDecision[] = [
+      { kind: "unmatch", id: "d-1", statementIds: ["S-002"], ledgerIds: ["L-102"], decidedAt: "2026-10-01T08:00:00Z" },
+    ];
+    const input = {
+      name: "September cheque account",
+      period: "2026-09",
+      config: DEFAULT_ENGINE_CONFIG,
+      balances: { ...EMPTY_BALANCES, bankOpening: 40000 },
+      run: sampleRun(),
+      decisions,
+      review: [
+        {
+          id: "r-1",
+          key: "S-001 ⇄ L-101",
+          action: "approve" as const,
+          user: "Thandi",
+          at: "2026-10-01T09:00:00Z",
+        },
+      ],
+      categoryOverrides: { statement: { "S-003": "Bank fees" }, ledger: { "L-112": "Rent" } },
+      fx: {
+        statementCurrency: "USD",
+        tolerance: 0.01,
+        rates: [{ base: "USD", quote: "ZAR", rate: 18.2, date: "2026-09-01" }],
+      },
+    };
+
+    const restored = parseRunExport(serializeRun(input));
+
+    expect(restored).toMatchObject({ format: RUN_EXPORT_FORMAT, ...input });
+  });
+
+  it("reads a version 1 export without the newer fields", () => {
+    const text = JSON.stringify({
+      format: RUN_EXPORT_FORMAT,
+      version: 1,
+      name: "August",
+      period: "2026-08",
+      config: DEFAULT_ENGINE_CONFIG,
+      run: sampleRun(),
+      decisions: [],
+    });
+
+    expect(parseRunExport(text)).toMatchObject({
+      review: [],
+      categoryOverrides: { statement: {}, ledger: {} },
+      fx: null,
+    });
+  });
+});
+
+describe("sheetToCsv", () => {
+  it("neutralises text a spreadsheet would run as a formula but keeps negative amounts as numbers", () => {
+    const csv = sheetToCsv({
+      name: "Unmatched",
+      headers: ["Description", "Amount"],
+      rows: [
+        ['=HYPERLINK("http://example.com","Refund")', -1450],
+        ["+27 82 555 0101", 12.5],
+        ["-fee reversal", -0.5],
+        ["@SUM(A1:A2)", null],
+        ["Invoice 4417, Harbour Freight", 100],
+      ],
+    });
+
+    expect(csv.split("\n")).toEqual([
+      "Description,Amount",
+      `"'=HYPERLINK(""http://example.com"",""Refund"")",-1450`,
+      "'+27 82 555 0101,12.5",
+      "'-fee reversal,-0.5",
+      "'@SUM(A1:A2),",
+      '"Invoice 4417, Harbour Freight",100',
+    ]);
+  });
+});
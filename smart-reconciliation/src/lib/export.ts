@@ -0,0 +1,352 @@
+import { signedAmount, type BalanceInputs } from "@/lib/balanceProof";
+import { EMPTY_CATEGORY_OVERRIDES, type CategoryOverrides } from "@/lib/categorisation";
+import { conversionsOf, inBaseCurrency, type FxSettings } from "@/lib/fx";
+import type { ReviewEntry } from "@/lib/review";
+import type { EngineConfig } from "@/lib/types";
+import {
+  describeReasonCode,
+  type DifferenceReasonCode,
+  type EngineRun,
+  type ManualDecision,
+  type Transaction,
+  type WorkbenchRun,
+} from "@/lib/workbench";
+import { buildXlsx, type CellValue, type Sheet } from "@/lib/xlsx";
+
+export const RUN_EXPORT_FORMAT = "smart-reconciliation/run";
+/** Version 2 added the review trail, category overrides and FX settings; version 1 files import without them. */
+export const RUN_EXPORT_VERSION = 2;
+
+export interface RunExport {
+  format: typeof RUN_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  name: string;
+  period: string;
+  config: EngineConfig;
+  balances: BalanceInputs | null;
+  run: EngineRun;
+  decisions: ManualDecision[];
+  review: ReviewEntry[];
+  categoryOverrides: CategoryOverrides;
+  /** The FX settings the run was made with; null when the export predates them. */
+  fx: FxSettings | null;
+}
+
+export interface JournalAccounts {
+  bank: string;
+  bankCharges: string;
+  interestIncome: string;
+  suspense: string;
+  differences: Record<DifferenceReasonCode, string>;
+}
+
+export interface JournalEntry {
+  date: string;
+  reference: string;
+  description: string;
+  debitAccount: string;
+  creditAccount: string;
+  amount: number;
+}
+
+export const DEFAULT_JOURNAL_ACCOUNTS: JournalAccounts = {
+  bank: "1000 Bank",
+  bankCharges: "6100 Bank charges",
+  interestIncome: "4200 Interest received",
+  suspense: "9990 Suspense",
+  differences: {
+    timing: "9990 Suspense",
+    "bank-charges": "6100 Bank charges",
+    rounding: "6990 Rounding differences",
+    "short-payment": "6980 Settlement discounts",
+    fx: "7100 Foreign exchange gain/loss",
+    other: "9990 Suspense",
+  },
+};
+
+const TRANSACTION_HEADERS = [
+  "id",
+  "date",
+  "value_date",
+  "description",
+  "bank_reference",
+  "category",
+  "amount",
+  "currency",
+  "sign",
+];
+
+function transactionCells(tx: Transaction | undefined): CellValue[] {
+  if (!tx) return TRANSACTION_HEADERS.map(() => null);
+  return [
+    tx.id,
+    tx.normalizedDate,
+    tx.valueDate ?? null,
+    tx.description,
+    tx.bankReference ?? null,
+    tx.category,
+    tx.amount,
+    tx.currency ?? null,
+    tx.sign,
+  ];
+}
+
+function prefixed(prefix: string) {
+  return TRANSACTION_HEADERS.map((header) => `${prefix}_${header}`);
+}
+
+export function matchedSheet(run: WorkbenchRun): Sheet {
+  return {
+    name: "Matches",
+    headers: [...prefixed("statement"), ...prefixed("ledger"), "type", "score", "reasons"],
+    rows: [
+      ...run.matched.map((match) => [
+        ...transactionCells(match.statement),
+        ...transactionCells(match.ledger),
+        match.type,
+        Math.round(match.score * 10000) / 10000,
+        match.reasons.join(" | "),
+      ]),
+      ...run.manual.flatMap((match) => {
+        const size = Math.max(match.statements.length, match.ledger.length);
+        return Array.from({ length: size }, (_, index) => [
+          ...transactionCells(match.statements[index]),
+          ...transactionCells(match.ledger[index]),
+          match.type,
+          1,
+          match.reasons.join(" | "),
+        ]);
+      }),
+    ],
+  };
+}
+
+/** Engine aggregations and group matches in one shape: every bundle has statement lines and ledger entries. */
+function bundles(run: WorkbenchRun) {
+  return [
+    ...run.aggregated.map((agg) => ({
+      direction: "many-to-one",
+      statements: agg.statements,
+      ledger: [agg.ledger],
+      difference: agg.difference,
+      reasons: agg.reasons,
+    })),
+    ...run.groups.map((group) => ({
+      direction: group.direction,
+      statements: group.statements,
+      ledger: group.ledger,
+      difference: group.difference,
+      reasons: group.reasons,
+    })),
+  ];
+}
+
+export function aggregationSheet(run: WorkbenchRun): Sheet {
+  return {
+    name: "Aggregations",
+    headers: [
+      "group",
+      "direction",
+      ...prefixed("ledger"),
+      ...prefixed("statement"),
+      "difference",
+      "accepted_reason",
+      "reasons",
+    ],
+    rows: bundles(run).flatMap((bundle, groupIndex) => {
+      const accepted = run.acceptedDifferences.find((entry) => entry.ledgerId === bundle.ledger[0].id);
+      const size = Math.max(bundle.statements.length, bundle.ledger.length);
+      return Array.from({ length: size }, (_, index) => [
+        groupIndex + 1,
+        bundle.direction,
+        ...transactionCells(bundle.ledger[index]),
+        ...transactionCells(bundle.statements[index]),
+        bundle.difference,
+        accepted ? describeReasonCode(accepted.reasonCode) : null,
+        bundle.reasons.join(" | "),
+      ]);
+    }),
+  };
+}
+
+export function unmatchedSheet(run: WorkbenchRun): Sheet {
+  return {
+    name: "Unmatched",
+    headers: ["side", ...TRANSACTION_HEADERS],
+    rows: [
+      ...run.unmatchedStatements.map((tx) => ["statement", ...transactionCells(tx)]),
+      ...run.unmatchedLedger.map((tx) => ["ledger", ...transactionCells(tx)]),
+    ],
+  };
+}
+
+/**
+ * Quotes a value for CSV. Text starting with `=`, `+`, `-` or `@` is prefixed with `'` so a spreadsheet opens it as
+ * text rather than running it as a formula; numbers are left alone, so negative amounts stay numbers.
+ */
+function csvCell(value: CellValue) {
+  if (value === null) return "";
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function sheetToCsv(sheet: Sheet) {
+  return [sheet.headers, ...sheet.rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+export function buildWorkbook(run: WorkbenchRun, journal: JournalEntry[]) {
+  return buildXlsx([matchedSheet(run), aggregationSheet(run), unmatchedSheet(run), journalSheet(journal)]);
+}
+
+export function serializeRun(input: Omit<RunExport, "format" | "version" | "exportedAt">) {
+  const payload: RunExport = {
+    format: RUN_EXPORT_FORMAT,
+    version: RUN_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...input,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+/** Reads a run exported by `serializeRun`, rejecting anything that is not a compatible export. */
+export function parseRunExport(text: string): RunExport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const candidate = parsed as Partial<RunExport> | null;
+  if (!candidate || candidate.format !== RUN_EXPORT_FORMAT) {
+    throw new Error("The file is not a reconciliation run export.");
+  }
+  if (typeof candidate.version !== "number" || candidate.version > RUN_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${String(candidate.version)}.`);
+  }
+  const run = candidate.run;
+  if (
+    !run ||
+    !Array.isArray(run.matched) ||
+    !Array.isArray(run.aggregated) ||
+    !Array.isArray(run.unmatchedStatements) ||
+    !Array.isArray(run.unmatchedLedger)
+  ) {
+    throw new Error("The export does not contain a complete reconciliation run.");
+  }
+  if (!candidate.config) {
+    throw new Error("The export does not contain the engine configuration.");
+  }
+  return {
+    format: RUN_EXPORT_FORMAT,
+    version: candidate.version,
+    exportedAt: candidate.exportedAt ?? "",
+    name: candidate.name ?? "Imported reconciliation",
+    period: candidate.period ?? "",
+    config: candidate.config,
+    balances: candidate.balances ?? null,
+    run,
+    decisions: Array.isArray(candidate.decisions) ? candidate.decisions : [],
+    review: Array.isArray(candidate.review) ? candidate.review : [],
+    categoryOverrides: {
+      statement: { ...EMPTY_CATEGORY_OVERRIDES.statement, ...candidate.categoryOverrides?.statement },
+      ledger: { ...EMPTY_CATEGORY_OVERRIDES.ledger, ...candidate.categoryOverrides?.ledger },
+    },
+    fx: candidate.fx && Array.isArray(candidate.fx.rates) ? candidate.fx : null,
+  };
+}
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function isCategory(tx: Transaction, pattern: RegExp) {
+  return pattern.test(tx.category) || pattern.test(tx.description);
+}
+
+/**
+ * Drafts the adjusting entries the ledger needs: bank-only statement items (charges, interest, anything else to
+ * suspense) and the differences the bookkeeper accepted on aggregations and manual matches. Statement lines post at
+ * their FX-converted amount; a line still in a foreign currency has no ZAR amount and drafts no entry.
+ */
+export function buildJournalEntries(run: WorkbenchRun, accounts: JournalAccounts = DEFAULT_JOURNAL_ACCOUNTS) {
+  const entries: JournalEntry[] = [];
+  const conversions = conversionsOf(run.fx);
+  // Net of the statement lines in ZAR, or null when one of them is unconverted.
+  const statementNet = (statements: Transaction[]) => {
+    const converted = statements.map((tx) => inBaseCurrency(tx, conversions));
+    return converted.every((tx) => tx !== null) ? converted.reduce((sum, tx) => sum + signedAmount(tx), 0) : null;
+  };
+
+  for (const unmatched of run.unmatchedStatements) {
+    const tx = inBaseCurrency(unmatched, conversions);
+    if (!tx) continue;
+    const amount = signedAmount(tx);
+    let counterAccount = accounts.suspense;
+    if (amount < 0 && isCategory(tx, /fee|charge|commission|service/i)) {
+      counterAccount = accounts.bankCharges;
+    } else if (amount > 0 && isCategory(tx, /interest/i)) {
+      counterAccount = accounts.interestIncome;
+    }
+    entries.push({
+      date: tx.normalizedDate,
+      reference: tx.id,
+      description: tx.description,
+      debitAccount: amount > 0 ? accounts.bank : counterAccount,
+      creditAccount: amount > 0 ? counterAccount : accounts.bank,
+      amount: Math.abs(amount),
+    });
+  }
+
+  for (const accepted of run.acceptedDifferences) {
+    const bundle = bundles(run).find((entry) => entry.ledger[0].id === accepted.ledgerId);
+    const net = bundle ? statementNet(bundle.statements) : null;
+    if (!bundle || net === null) continue;
+    const difference = roundCents(net - bundle.ledger.reduce((sum, tx) => sum + signedAmount(tx), 0));
+    if (difference === 0) continue;
+    const account = accounts.differences[accepted.reasonCode];
+    const anchor = bundle.ledger[0];
+    entries.push({
+      date: anchor.normalizedDate,
+      reference: bundle.ledger.map((tx) => tx.id).join("+"),
+      description: `${describeReasonCode(accepted.reasonCode)}: ${anchor.description}`,
+      debitAccount: difference > 0 ? accounts.bank : account,
+      creditAccount: difference > 0 ? account : accounts.bank,
+      amount: Math.abs(difference),
+    });
+  }
+
+  for (const match of run.manual) {
+    const net = statementNet(match.statements);
+    if (!match.reasonCode || net === null) continue;
+    const difference = roundCents(net - match.ledger.reduce((sum, tx) => sum + signedAmount(tx), 0));
+    if (difference === 0) continue;
+    const account = accounts.differences[match.reasonCode];
+    const anchor = match.ledger[0];
+    entries.push({
+      date: anchor.normalizedDate,
+      reference: match.ledger.map((tx) => tx.id).join("+"),
+      description: `${describeReasonCode(match.reasonCode)}: ${anchor.description}`,
+      debitAccount: difference > 0 ? accounts.bank : account,
+      creditAccount: difference > 0 ? account : accounts.bank,
+      amount: Math.abs(difference),
+    });
+  }
+
+  return entries;
+}
+
+/** Two lines per entry (debit, then credit) in the flat layout most accounting packages import. */
+export function journalSheet(entries: JournalEntry[]): Sheet {
+  return {
+    name: "Journal",
+    headers: ["Date", "Journal", "Reference", "Account", "Description", "Debit", "Credit"],
+    rows: entries.flatMap((entry, index) => {
+      const journal = `ADJ-${String(index + 1).padStart(4, "0")}`;
+      return [
+        [entry.date, journal, entry.reference, entry.debitAccount, entry.description, entry.amount, null],
+        [entry.date, journal, entry.reference, entry.creditAccount, entry.description, null, entry.amount],
+      ];
+    }),
+  };
+}
@@ -0,0 +1,7 @@
+const amountFormatter = new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** Formats an amount in rand, the workspace's base currency, e.g. `R12,450.00` or `-R185.00`. */
+export function formatCurrency(value: number) {
+  const text = `R${amountFormatter.format(Math.abs(value))}`;
+  return value < 0 && text !== "R0.00" ? `-${text}` : text;
+}
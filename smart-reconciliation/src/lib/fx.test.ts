@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_BALANCES, buildBalanceProof } from "@/lib/balanceProof";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { buildJournalEntries } from "@/lib/export";
+import { DEFAULT_FX_SETTINGS, type FxRate } from "@/lib/fx";
+import { runPipeline } from "@/lib/pipeline";
+import { applyManualDecisions } from "@/lib/workbench";
+
+const statementInput = `id,date,description,amount,type,currency
+S-1,2026-09-03,Invoice 4417 Harbour Freight,100.00,credit,USD
+S-2,2026-09-05,Invoice 4420 Harbour Freight,250.00,credit,USD
+S-3,2026-09-07,Service fee,45.00,debit,ZAR`;
+
+const ledgerInput = `id,date,description,amount,type
+L-1,2026-09-03,Invoice 4417 Harbour Freight,100.00,credit
+L-2,2026-09-05,Invoice 4420 Harbour Freight,4550.00,credit`;
+
+function reconcile(rates: FxRate[]) {
+  const { run } = runPipeline({
+    statementInput,
+    ledgerInput,
+    config: DEFAULT_ENGINE_CONFIG,
+    matchingRules: [],
+    learnedRules: [],
+    fx: { ...DEFAULT_FX_SETTINGS, rates },
+  });
+  return applyManualDecisions(run, []);
+}
+
+describe("foreign-currency statement lines", () => {
+  it("are held out of the engine and the ZAR totals when no rate pairs them", () => {
+    const run = reconcile([]);
+
+    expect(run.matched).toEqual([]);
+    expect(run.unmatchedStatements.map((tx) => tx.id).sort()).toEqual(["S-1", "S-2", "S-3"]);
+
+    const proof = buildBalanceProof(run, { ...EMPTY_BALANCES, bankClosing: 4605, ledgerClosing: 4650 });
+    expect(proof?.unconverted.map((tx) => tx.id).sort()).toEqual(["S-1", "S-2"]);
+    expect(proof?.lines.flatMap((line) => line.items.map((tx) => tx.id)).sort()).toEqual(["L-1", "L-2", "S-3"]);
+    expect(buildJournalEntries(run).map((entry) => entry.reference)).toEqual(["S-3"]);
+  });
+
+  it("count at their converted amount once a rate pairs them", () => {
+    const run = reconcile([{ date: "2026-09-01", base: "USD", quote: "ZAR", rate: 18.18 }]);
+
+    expect(run.matched.map((match) => `${match.statement.id}|${match.ledger.id}`)).toEqual(["S-2|L-2"]);
+    const proof = buildBalanceProof(run, { ...EMPTY_BALANCES, bankClosing: 4500, ledgerClosing: 4650 });
+    expect(proof?.unconverted.map((tx) => tx.id)).toEqual(["S-1"]);
+    expect(proof?.lines.find((line) => line.label === "Differences within matched groups")?.amount).toBe(-5);
+    expect(proof?.balanced).toBe(true);
+  });
+});
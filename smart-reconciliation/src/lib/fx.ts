@@ -0,0 +1,261 @@
+import { createCandidateIndex } from "@/lib/candidateIndex";
+import { formatCurrency } from "@/lib/format";
+import { detectDelimiter, parseDateWithFormat, tokenizeDelimited } from "@/lib/importMapping";
+import type { EngineConfig } from "@/lib/types";
+import type { EngineMatch, EngineRun, FxMatch, Transaction } from "@/lib/workbench";
+
+/** The ledger's functional currency; every tolerance and total in the workspace is expressed in it. */
+export const BASE_CURRENCY = "ZAR";
+
+/** Rates older than this are not carried forward to a transaction date (weekends and public holidays). */
+const MAX_RATE_AGE_DAYS = 7;
+
+/** One row of an FX rate table: one unit of `base` buys `rate` units of `quote` on `date`. */
+export interface FxRate {
+  date: string;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+export interface FxSettings {
+  /** Currency of statement lines that do not carry their own. */
+  statementCurrency: string;
+  /** Largest gap between the converted and booked amounts, as a fraction of the booked amount. */
+  tolerance: number;
+  rates: FxRate[];
+}
+
+export const DEFAULT_FX_SETTINGS: FxSettings = { statementCurrency: BASE_CURRENCY, tolerance: 0.02, rates: [] };
+
+export interface FxStageResult<T extends Transaction> {
+  matched: EngineMatch[];
+  fx: FxMatch[];
+  /** Transactions left for the engine. */
+  statement: T[];
+  ledger: T[];
+  /**
+   * Foreign-currency statement lines the stage could not convert and pair, for want of a rate or a booked entry
+   * within tolerance. They are held out of the engine, which compares base-currency amounts.
+   */
+  unconverted: T[];
+}
+
+export interface FxSummary {
+  matches: number;
+  gains: number;
+  losses: number;
+  net: number;
+  byCurrency: { currency: string; matches: number; net: number }[];
+}
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(left: string, right: string) {
+  return Math.abs(Date.parse(left) - Date.parse(right)) / 86_400_000;
+}
+
+function parsePair(value: string) {
+  const match = /^([A-Za-z]{3})\s*[/:-]?\s*([A-Za-z]{3})$/.exec(value.trim());
+  return match ? { base: match[1].toUpperCase(), quote: match[2].toUpperCase() } : null;
+}
+
+/** Formats an amount in any ISO currency; the base currency keeps the workspace's rand formatting. */
+export function formatMoney(amount: number, currency: string = BASE_CURRENCY) {
+  if (currency === BASE_CURRENCY) return formatCurrency(amount);
+  try {
+    return new Intl.NumberFormat("en-ZA", { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Parses an FX rate table exported as CSV with date, pair and rate columns (`2026-09-30,USD/ZAR,18.2450`). A header
+ * row is optional and may list the columns in any order. Throws with the offending line number.
+ */
+export function parseFxRates(text: string): FxRate[] {
+  const rows = tokenizeDelimited(text, detectDelimiter(text));
+  if (rows.length === 0) {
+    throw new Error("The FX rate file is empty.");
+  }
+  let columns = { date: 0, pair: 1, rate: 2 };
+  let start = 0;
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  if (header.includes("date") && header.includes("pair") && header.includes("rate")) {
+    columns = { date: header.indexOf("date"), pair: header.indexOf("pair"), rate: header.indexOf("rate") };
+    start = 1;
+  }
+
+  const rates: FxRate[] = [];
+  for (let index = start; index < rows.length; index += 1) {
+    const row = rows[index];
+    const line = index + 1;
+    const pair = parsePair(row[columns.pair] ?? "");
+    if (!pair) {
+      throw new Error(`Line ${line}: "${row[columns.pair] ?? ""}" is not a currency pair such as USD/ZAR.`);
+    }
+    const rate = Number.parseFloat(row[columns.rate] ?? "");
+    if (!(rate > 0)) {
+      throw new Error(`Line ${line}: the ${pair.base}/${pair.quote} rate must be a positive number.`);
+    }
+    let date: string;
+    try {
+      date = parseDateWithFormat(row[columns.date] ?? "", "YYYY-MM-DD");
+    } catch (err) {
+      throw new Error(`Line ${line}: ${err instanceof Error ? err.message : "invalid date."}`);
+    }
+    rates.push({ date, ...pair, rate });
+  }
+  return rates.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The rate converting `from` into `to` on `date`: the latest published rate on or before the date, no more than a
+ * week old. Inverse pairs are used when the table only quotes the other direction.
+ */
+export function findFxRate(rates: FxRate[], from: string, to: string, date: string) {
+  if (from === to) return { rate: 1, date };
+  let best: { rate: number; date: string } | null = null;
+  for (const entry of rates) {
+    if (entry.date > date) break;
+    if (daysBetween(entry.date, date) > MAX_RATE_AGE_DAYS) continue;
+    if (entry.base === from && entry.quote === to) best = { rate: entry.rate, date: entry.date };
+    else if (entry.base === to && entry.quote === from) best = { rate: 1 / entry.rate, date: entry.date };
+  }
+  return best;
+}
+
+/** Gives each transaction without a currency from the import's currency column the side's `fallback` currency. */
+export function assignCurrencies<T extends Transaction>(dataset: T[], fallback: string): T[] {
+  return dataset.map((tx) => ({ ...tx, currency: tx.currency ?? fallback }));
+}
+
+/**
+ * FX-aware comparison stage run ahead of the engine. Each statement line in a foreign currency is converted at the
+ * rate for its date and paired with the same-sign ledger entry, booked in the base currency, whose amount is within
+ * the FX tolerance and whose date is within the engine's date tolerance. The realised difference between the
+ * converted and booked amounts is cited in the match's `reasons` and kept for the gain/loss summary. Foreign lines
+ * left unpaired stay out of the engine and are returned as `unconverted`.
+ */
+export function runFxStage<T extends Transaction>(
+  statement: T[],
+  ledger: T[],
+  settings: FxSettings,
+  config: EngineConfig,
+): FxStageResult<T> {
+  const result: FxStageResult<T> = { matched: [], fx: [], statement: [], ledger, unconverted: [] };
+  const foreign = statement.filter((tx) => (tx.currency ?? BASE_CURRENCY) !== BASE_CURRENCY);
+  if (foreign.length === 0) {
+    return { ...result, statement };
+  }
+
+  const baseLedger = ledger.filter((tx) => (tx.currency ?? BASE_CURRENCY) === BASE_CURRENCY);
+  const ledgerIndex = createCandidateIndex(baseLedger);
+
+  for (const tx of foreign) {
+    const currency = tx.currency ?? BASE_CURRENCY;
+    const found = findFxRate(settings.rates, currency, BASE_CURRENCY, tx.normalizedDate);
+    if (!found) {
+      result.unconverted.push(tx);
+      continue;
+    }
+    const foreignAmount = Math.abs(tx.amount);
+    const converted = roundCents(foreignAmount * found.rate);
+    const tolerance = converted * settings.tolerance + config.amountTolerance;
+    const winner = ledgerIndex
+      .byAmount(converted, tx.sign, tolerance, tx.normalizedDate, config.dateToleranceDays)
+      .sort(
+        (a, b) =>
+          Math.abs(Math.abs(a.amount) - converted) - Math.abs(Math.abs(b.amount) - converted) ||
+          daysBetween(tx.normalizedDate, a.normalizedDate) - daysBetween(tx.normalizedDate, b.normalizedDate),
+      )[0];
+    if (!winner) {
+      result.unconverted.push(tx);
+      continue;
+    }
+
+    const booked = Math.abs(winner.amount);
+    const difference = roundCents(converted - booked);
+    // Receiving more than was booked is a gain; paying more than was booked is a loss.
+    const gainLoss = tx.sign === "credit" ? difference : -difference;
+    const relativeGap = booked === 0 ? 0 : Math.abs(difference) / booked;
+    result.matched.push({
+      statement: tx,
+      ledger: winner,
+      score: Math.round((1 - relativeGap) * 100) / 100,
+      type: Math.abs(difference) <= config.amountTolerance ? "exact" : "fuzzy",
+      reasons: [
+        `${formatMoney(foreignAmount, currency)} converted at ${currency}/${BASE_CURRENCY} ${found.rate.toFixed(4)} (rate of ${found.date}) = ${formatCurrency(converted)}`,
+        `Booked ${formatCurrency(booked)}; realised FX ${gainLoss >= 0 ? "gain" : "loss"} ${formatCurrency(Math.abs(gainLoss))} within FX tolerance ${(settings.tolerance * 100).toFixed(2)}%`,
+      ],
+    });
+    result.fx.push({
+      statementId: tx.id,
+      ledgerId: winner.id,
+      currency,
+      foreignAmount,
+      rate: found.rate,
+      rateDate: found.date,
+      convertedAmount: converted,
+      bookedAmount: booked,
+      gainLoss,
+    });
+    ledgerIndex.remove(winner);
+  }
+
+  return {
+    ...result,
+    statement: statement.filter((tx) => (tx.currency ?? BASE_CURRENCY) === BASE_CURRENCY),
+    ledger: ledger.filter(ledgerIndex.isOpen),
+  };
+}
+
+/** Folds the FX stage's matches and conversions into the engine's run; unconverted lines come back unmatched. */
+export function mergeFxStage<T extends Transaction>(stage: FxStageResult<T>, run: EngineRun): EngineRun {
+  return {
+    ...run,
+    matched: [...stage.matched, ...run.matched],
+    unmatchedStatements: [...run.unmatchedStatements, ...stage.unconverted],
+    fx: [...(run.fx ?? []), ...stage.fx],
+  };
+}
+
+/** The FX stage's converted base-currency amount per statement line id. */
+export function conversionsOf(fx: FxMatch[] = []) {
+  return new Map(fx.map((entry) => [entry.statementId, entry.convertedAmount]));
+}
+
+/**
+ * The transaction with its amount in the base currency: unchanged when it is already in ZAR, at the converted amount
+ * when the FX stage paired it, and null when it is still in a foreign currency and cannot be added to ZAR totals.
+ */
+export function inBaseCurrency<T extends Transaction>(tx: T, conversions: Map<string, number>): T | null {
+  if ((tx.currency ?? BASE_CURRENCY) === BASE_CURRENCY) return tx;
+  const converted = conversions.get(tx.id);
+  return converted === undefined ? null : { ...tx, amount: converted, currency: BASE_CURRENCY };
+}
+
+/** Realised gains and losses over the FX matches that are still in `matched` after manual decisions. */
+export function summarizeFx(matched: EngineMatch[], fx: FxMatch[] = []): FxSummary {
+  const live = new Set(matched.map((match) => `${match.statement.id}|${match.ledger.id}`));
+  const current = fx.filter((entry) => live.has(`${entry.statementId}|${entry.ledgerId}`));
+  const byCurrency = new Map<string, { currency: string; matches: number; net: number }>();
+  for (const entry of current) {
+    const bucket = byCurrency.get(entry.currency) ?? { currency: entry.currency, matches: 0, net: 0 };
+    bucket.matches += 1;
+    bucket.net = roundCents(bucket.net + entry.gainLoss);
+    byCurrency.set(entry.currency, bucket);
+  }
+  const gains = roundCents(current.reduce((sum, entry) => sum + Math.max(entry.gainLoss, 0), 0));
+  const losses = roundCents(current.reduce((sum, entry) => sum + Math.min(entry.gainLoss, 0), 0));
+  return {
+    matches: current.length,
+    gains,
+    losses,
+    net: roundCents(gains + losses),
+    byCurrency: [...byCurrency.values()].sort((a, b) => a.currency.localeCompare(b.currency)),
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { findGroupMatches } from "@/lib/groupMatching";
+import { normalizeDataset } from "@/lib/normalization";
+import type { RawTransaction } from "@/lib/types";
+
+function row(id: string, date: string, description: string, amount: string, extra: Partial<RawTransaction> = {}) {
+  return { id, date, description, amount, type: "credit", ...extra };
+}
+
+function group(statement: RawTransaction[], ledger: RawTransaction[]) {
+  return findGroupMatches(
+    {
+      matched: [],
+      aggregated: [],
+      unmatchedStatements: normalizeDataset(statement, "statement"),
+      unmatchedLedger: normalizeDataset(ledger, "ledger"),
+    },
+    DEFAULT_ENGINE_CONFIG,
+  );
+}
+
+describe("findGroupMatches", () => {
+  it("groups a deposit with the invoices it settles", () => {
+    const run = group(
+      [row("S-1", "2026-09-10", "Harbour Freight invoices 4430 4431", "900.00")],
+      [
+        row("L-1", "2026-09-08", "Invoice 4430 Harbour Freight", "400.00"),
+        row("L-2", "2026-09-09", "Invoice 4431 Harbour Freight", "500.00"),
+      ],
+    );
+
+    expect(run.groups).toHaveLength(1);
+    expect(run.groups?.[0]).toMatchObject({ direction: "one-to-many", difference: 0 });
+    expect(run.groups?.[0].reasons).toContainEqual(expect.stringMatching(/^Descriptions \d+% similar on average/));
+    expect(run.unmatchedLedger).toEqual([]);
+  });
+
+  it("leaves entries that only share a sum with the line unmatched", () => {
+    const run = group(
+      [row("S-1", "2026-09-10", "Harbour Freight invoices 4430 4431", "900.00")],
+      [row("L-1", "2026-09-08", "Office rent", "400.00"), row("L-2", "2026-09-09", "Telkom", "500.00")],
+    );
+
+    expect(run.groups).toEqual([]);
+    expect(run.unmatchedStatements).toHaveLength(1);
+    expect(run.unmatchedLedger).toHaveLength(2);
+  });
+
+  it("accepts unlike descriptions when the line's bank reference is quoted on the entries", () => {
+    const run = group(
+      [row("S-1", "2026-09-10", "EFT credit", "900.00", { bankReference: "HF88213" })],
+      [
+        row("L-1", "2026-09-08", "Receipt HF88213 part 1", "400.00"),
+        row("L-2", "2026-09-09", "Receipt HF88213 part 2", "500.00"),
+      ],
+    );
+
+    expect(run.groups).toHaveLength(1);
+  });
+
+  it("rejects members spread wider than the group window", () => {
+    const run = group(
+      [row("S-1", "2026-09-10", "Harbour Freight invoices 4430 4431", "900.00")],
+      [
+        row("L-1", "2026-08-28", "Invoice 4430 Harbour Freight", "400.00"),
+        row("L-2", "2026-09-22", "Invoice 4431 Harbour Freight", "500.00"),
+      ],
+    );
+
+    expect(run.groups).toEqual([]);
+  });
+
+  it("groups a batch many-to-many only when the sides read alike", () => {
+    const statement = [
+      row("S-1", "2026-09-10", "Metro Logistics batch 1", "300.00"),
+      row("S-2", "2026-09-11", "Metro Logistics batch 2", "450.00"),
+    ];
+    const alike = group(statement, [
+      row("L-1", "2026-09-09", "Metro Logistics invoice 7001", "500.00"),
+      row("L-2", "2026-09-09", "Metro Logistics invoice 7002", "250.00"),
+    ]);
+    const unlike = group(statement, [
+      row("L-1", "2026-09-09", "Salaries", "500.00"),
+      row("L-2", "2026-09-09", "Bank charges", "250.00"),
+    ]);
+
+    expect(alike.groups).toEqual([expect.objectContaining({ direction: "many-to-many" })]);
+    expect(unlike.groups).toEqual([]);
+  });
+});
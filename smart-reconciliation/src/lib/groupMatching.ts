@@ -0,0 +1,206 @@
+import { formatCurrency } from "@/lib/format";
+import { createCandidateIndex } from "@/lib/candidateIndex";
+import { scorePair } from "@/lib/matching";
+import { findSubset, isBetter, lowerBound, subsets, type Subset } from "@/lib/subsetSearch";
+import type { EngineConfig } from "@/lib/types";
+import { sumMagnitudes, type EngineRun, type GroupAggregation, type Transaction } from "@/lib/workbench";
+
+/** Bundled items are rarely posted more than a fortnight apart; wider windows only add false groupings. */
+const GROUP_WINDOW_DAYS = 14;
+/**
+ * A bundle's lines and entries name the same payer or reference without reading alike word for word; below this
+ * average similarity the members have nothing in common but their sum.
+ */
+const MIN_GROUP_SIMILARITY = 0.4;
+/** Ledger candidates per statement line in the one-to-many search; split into two halves of eight. */
+const MAX_CANDIDATES = 16;
+/** Candidates per side in the many-to-many search, where both sides are enumerated. */
+const MAX_MANY_TO_MANY_CANDIDATES = 8;
+/** How many anchors are processed between progress reports. */
+const PROGRESS_INTERVAL = 500;
+
+export type GroupProgress = (fraction: number) => void;
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function createGroupId() {
+  return `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function dateSpan(transactions: Transaction[]) {
+  const dates = transactions.map((tx) => tx.normalizedDate).sort();
+  return dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} – ${dates[dates.length - 1]}`;
+}
+
+/** Days between the earliest and the latest member. */
+function daySpan(transactions: Transaction[]) {
+  const times = transactions.map((tx) => Date.parse(tx.normalizedDate));
+  return Math.round((Math.max(...times) - Math.min(...times)) / 86_400_000);
+}
+
+/**
+ * How alike the two sides read: every member's best description similarity to a member of the other side, averaged.
+ * A statement line whose bank reference is quoted on a ledger entry counts as a full match for both.
+ */
+function groupSimilarity(statements: Transaction[], ledger: Transaction[]) {
+  const pairs = statements.map((statement) =>
+    ledger.map((entry) => {
+      const pair = scorePair(statement, entry);
+      return pair.referenceMatch ? 1 : pair.similarity;
+    }),
+  );
+  const best = [
+    ...pairs.map((row) => Math.max(...row)),
+    ...ledger.map((_, column) => Math.max(...pairs.map((row) => row[column]))),
+  ];
+  return best.reduce((total, value) => total + value, 0) / best.length;
+}
+
+interface GroupEvidence {
+  span: number;
+  similarity: number;
+}
+
+interface ManyToManyCandidate {
+  statements: Subset;
+  ledger: Subset;
+  gap: number;
+  size: number;
+  evidence: GroupEvidence;
+}
+
+/** The evidence beyond the amounts, or null when the members are too far apart or read nothing alike. */
+function assessGroup(statements: Transaction[], ledger: Transaction[]): GroupEvidence | null {
+  const span = daySpan([...statements, ...ledger]);
+  if (span > GROUP_WINDOW_DAYS) return null;
+  const similarity = groupSimilarity(statements, ledger);
+  return similarity >= MIN_GROUP_SIMILARITY ? { span, similarity } : null;
+}
+
+function buildGroup(
+  direction: GroupAggregation["direction"],
+  statements: Transaction[],
+  ledger: Transaction[],
+  evidence: GroupEvidence,
+  config: EngineConfig,
+): GroupAggregation {
+  const statementTotal = sumMagnitudes(statements);
+  const ledgerTotal = sumMagnitudes(ledger);
+  const difference = roundCents(statementTotal - ledgerTotal);
+  const summary =
+    direction === "one-to-many"
+      ? `One statement line of ${formatCurrency(statementTotal)} settles ${ledger.length} ledger entries`
+      : `${statements.length} statement lines settle ${ledger.length} ledger entries totalling ${formatCurrency(ledgerTotal)}`;
+  return {
+    id: createGroupId(),
+    direction,
+    statements,
+    ledger,
+    statementTotal,
+    ledgerTotal,
+    difference,
+    reasons: [
+      summary,
+      `Difference ${formatCurrency(difference)} within aggregation tolerance ${formatCurrency(config.aggregationAmountTolerance)}`,
+      `Group of ${statements.length + ledger.length} within the maximum of ${config.aggregationMaxGroupSize}, dated ${dateSpan([...statements, ...ledger])}`,
+      `Members ${evidence.span} days apart at most, within the ${GROUP_WINDOW_DAYS}-day window`,
+      `Descriptions ${percent(evidence.similarity)} similar on average (at least ${percent(MIN_GROUP_SIMILARITY)})`,
+    ],
+  };
+}
+
+/**
+ * Aggregation stage for the bundles the engine's statement-side aggregation leaves behind. First each open
+ * statement line is tried against combinations of open ledger entries (a deposit covering several invoices),
+ * then the remaining lines are grouped many-to-many (batch payments). Both respect `aggregationMaxGroupSize`
+ * (counting both sides) and `aggregationAmountTolerance`. A sum alone is not enough: every member must fall within
+ * `GROUP_WINDOW_DAYS` of the others, and the descriptions or bank references must tie the two sides together.
+ */
+export function findGroupMatches(run: EngineRun, config: EngineConfig, onProgress?: GroupProgress): EngineRun {
+  const maxSize = config.aggregationMaxGroupSize;
+  const tolerance = config.aggregationAmountTolerance;
+  const groups: GroupAggregation[] = [...(run.groups ?? [])];
+  if (maxSize < 3) {
+    return { ...run, groups };
+  }
+
+  const statementIndex = createCandidateIndex(run.unmatchedStatements);
+  const ledgerIndex = createCandidateIndex(run.unmatchedLedger);
+  const take = (statements: Transaction[], ledger: Transaction[]) => {
+    statements.forEach(statementIndex.remove);
+    ledger.forEach(ledgerIndex.remove);
+  };
+  const steps = run.unmatchedStatements.length * 2;
+  let step = 0;
+  const tick = () => {
+    step += 1;
+    if (onProgress && step % PROGRESS_INTERVAL === 0) onProgress(step / steps);
+  };
+
+  const byAmount = [...run.unmatchedStatements].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+  for (const statement of byAmount) {
+    tick();
+    const candidates = ledgerIndex.nearest(statement.normalizedDate, statement.sign, GROUP_WINDOW_DAYS, MAX_CANDIDATES);
+    if (candidates.length < 2) continue;
+    const subset = findSubset(Math.abs(statement.amount), candidates, maxSize - 1, tolerance);
+    const evidence = subset && assessGroup([statement], subset.items);
+    if (!subset || !evidence) continue;
+    groups.push(buildGroup("one-to-many", [statement], subset.items, evidence, config));
+    take([statement], subset.items);
+  }
+
+  if (maxSize >= 4) {
+    const byDate = [...run.unmatchedStatements].sort((a, b) => a.normalizedDate.localeCompare(b.normalizedDate));
+    for (const anchor of byDate) {
+      tick();
+      if (!statementIndex.isOpen(anchor)) continue;
+      const statementCandidates = statementIndex
+        .nearest(anchor.normalizedDate, anchor.sign, GROUP_WINDOW_DAYS, MAX_MANY_TO_MANY_CANDIDATES + 1)
+        .filter((tx) => tx !== anchor)
+        .slice(0, MAX_MANY_TO_MANY_CANDIDATES);
+      const ledgerCandidates = ledgerIndex.nearest(
+        anchor.normalizedDate,
+        anchor.sign,
+        GROUP_WINDOW_DAYS,
+        MAX_MANY_TO_MANY_CANDIDATES,
+      );
+      if (statementCandidates.length === 0 || ledgerCandidates.length < 2) continue;
+
+      const ledgerSubsets = subsets(ledgerCandidates, 2, maxSize - 2).sort((a, b) => a.total - b.total);
+      let best: ManyToManyCandidate | null = null;
+      for (const statementSubset of subsets(statementCandidates, 2, maxSize - 2, [anchor])) {
+        const room = maxSize - statementSubset.items.length;
+        const from = lowerBound(ledgerSubsets, roundCents(statementSubset.total - tolerance));
+        for (let index = from; index < ledgerSubsets.length; index += 1) {
+          const ledgerSubset = ledgerSubsets[index];
+          if (ledgerSubset.total - statementSubset.total > tolerance) break;
+          if (ledgerSubset.items.length > room) continue;
+          const gap = Math.abs(statementSubset.total - ledgerSubset.total);
+          const size = statementSubset.items.length + ledgerSubset.items.length;
+          if (!isBetter(gap, size, best)) continue;
+          const evidence = assessGroup(statementSubset.items, ledgerSubset.items);
+          if (evidence) {
+            best = { statements: statementSubset, ledger: ledgerSubset, gap, size, evidence };
+          }
+        }
+      }
+      if (!best) continue;
+      groups.push(buildGroup("many-to-many", best.statements.items, best.ledger.items, best.evidence, config));
+      take(best.statements.items, best.ledger.items);
+    }
+  }
+
+  onProgress?.(1);
+  return {
+    ...run,
+    groups,
+    unmatchedStatements: run.unmatchedStatements.filter(statementIndex.isOpen),
+    unmatchedLedger: run.unmatchedLedger.filter(ledgerIndex.isOpen),
+  };
+}
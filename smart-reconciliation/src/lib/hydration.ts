@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from "react";
+
+function subscribe() {
+  return () => {};
+}
+
+/**
+ * False on the server and while the page hydrates, true once it runs in the browser. Pages whose state starts from
+ * localStorage render their content only after that, so the state can be read in `useState` initialisers without the
+ * first client render disagreeing with the server's.
+ */
+export function useHydrated() {
+  return useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false,
+  );
+}
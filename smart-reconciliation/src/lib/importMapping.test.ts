@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "@/lib/csv";
+import { DEFAULT_IMPORT_PROFILE, previewImport, toCanonicalCsv } from "@/lib/importMapping";
+import { normalizeDataset } from "@/lib/normalization";
+
+describe("previewImport", () => {
+  it("carries a mapped currency column through to the normalised rows", () => {
+    const text = [
+      "ref,date,details,amount,ccy",
+      "A1,2026-09-03,Wire from Acme Inc,1200.00,usd",
+      "A2,2026-09-04,Fees,-15.00,",
+    ].join("\n");
+    const profile = {
+      ...DEFAULT_IMPORT_PROFILE,
+      columns: { ...DEFAULT_IMPORT_PROFILE.columns, type: null, currency: 4 },
+    };
+    const { mapped, issues } = previewImport(text, profile);
+    const rows = normalizeDataset(parseCsv(toCanonicalCsv(mapped), "statement"), "statement");
+
+    expect(issues).toEqual([]);
+    expect(rows.map((tx) => tx.currency)).toEqual(["USD", undefined]);
+  });
+
+  it("rejects a currency that is not an ISO code", () => {
+    const text = ["id,date,description,amount,type,currency", "A1,2026-09-03,Wire,100.00,credit,dollars"].join("\n");
+    const profile = { ...DEFAULT_IMPORT_PROFILE, columns: { ...DEFAULT_IMPORT_PROFILE.columns, currency: 5 } };
+
+    expect(previewImport(text, profile).issues[0].message).toMatch(/not an ISO currency code/);
+  });
+});
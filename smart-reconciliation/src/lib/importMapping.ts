@@ -0,0 +1,342 @@
+export type DateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY" | "DD-MM-YYYY" | "YYYY/MM/DD" | "DD.MM.YYYY";
+export type SignConvention = "negative-is-debit" | "positive-is-debit";
+export type AmountLayout = "single" | "split";
+
+export const DATE_FORMATS: DateFormat[] = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD-MM-YYYY",
+  "YYYY/MM/DD",
+  "DD.MM.YYYY",
+];
+
+export interface ColumnMapping {
+  id: number | null;
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  type: number | null;
+  /** Optional per-row ISO currency code; profiles saved before it existed leave it out. */
+  currency?: number | null;
+}
+
+export type MappedField = keyof ColumnMapping;
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  delimiter: string;
+  quote: string;
+  skipHeaderLines: number;
+  skipFooterLines: number;
+  hasHeaderRow: boolean;
+  columns: ColumnMapping;
+  amountLayout: AmountLayout;
+  signConvention: SignConvention;
+  dateFormat: DateFormat;
+  decimalSeparator: "." | ",";
+  thousandSeparator: "" | "," | "." | " " | "'";
+}
+
+/** The column layout `parseCsv` expects. Every import is rewritten into this shape before normalization. */
+export interface CanonicalRow {
+  id: string;
+  date: string;
+  description: string;
+  amount: string;
+  type: "debit" | "credit";
+  /** ISO code when the export has a currency column; otherwise the row is in the statement's currency. */
+  currency?: string;
+  /** Bank reference and value date, carried over from native statement formats. */
+  bankReference?: string;
+  valueDate?: string;
+}
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  header: string[];
+  rows: string[][];
+  mapped: CanonicalRow[];
+  issues: ImportIssue[];
+}
+
+const PROFILE_STORAGE_KEY = "smart-reconciliation:import-profiles";
+
+export const DEFAULT_IMPORT_PROFILE: ImportProfile = {
+  id: "default",
+  name: "Standard (id,date,description,amount,type)",
+  delimiter: ",",
+  quote: '"',
+  skipHeaderLines: 0,
+  skipFooterLines: 0,
+  hasHeaderRow: true,
+  columns: { id: 0, date: 1, description: 2, amount: 3, debit: null, credit: null, type: 4 },
+  amountLayout: "single",
+  signConvention: "negative-is-debit",
+  dateFormat: "YYYY-MM-DD",
+  decimalSeparator: ".",
+  thousandSeparator: "",
+};
+
+/** Splits delimited text into rows, honouring quoted fields, doubled quotes and line breaks inside quotes. */
+export function tokenizeDelimited(text: string, delimiter = ",", quote = '"') {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (quote && char === quote) {
+        if (text[index + 1] === quote) {
+          field += quote;
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (quote && char === quote && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell !== ""));
+}
+
+/** Guesses the delimiter from the first few lines of a file. */
+export function detectDelimiter(text: string) {
+  const sample = text.split(/\r?\n/).slice(0, 5).join("\n");
+  const candidates = [",", ";", "\t", "|"];
+  return candidates
+    .map((delimiter) => ({ delimiter, count: sample.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+export function parseLocaleAmount(
+  value: string,
+  decimalSeparator: ImportProfile["decimalSeparator"],
+  thousandSeparator: ImportProfile["thousandSeparator"],
+) {
+  const debitMarker = /\bDR\b/i.test(value);
+  let cleaned = value
+    .trim()
+    .replace(/[^\d.,'\s()+-]/g, "")
+    .trim();
+  const negative = debitMarker || /^\(.*\)$/.test(cleaned) || cleaned.startsWith("-") || cleaned.endsWith("-");
+  cleaned = cleaned.replace(/[()+-]/g, "");
+  if (thousandSeparator) {
+    cleaned = cleaned.split(thousandSeparator).join("");
+  }
+  cleaned = cleaned.replace(/\s/g, "");
+  if (decimalSeparator === ",") {
+    cleaned = cleaned.replace(",", ".");
+  }
+  if (cleaned === "" || !/^\d*\.?\d*$/.test(cleaned)) {
+    return Number.NaN;
+  }
+  const amount = Number.parseFloat(cleaned);
+  return negative ? -amount : amount;
+}
+
+export function parseDateWithFormat(value: string, format: DateFormat) {
+  const parts = value
+    .trim()
+    .split(/[^\d]+/)
+    .filter(Boolean);
+  if (parts.length < 3) {
+    throw new Error(`"${value}" is not a ${format} date.`);
+  }
+  let year: number;
+  let month: number;
+  let day: number;
+  if (format === "YYYY-MM-DD" || format === "YYYY/MM/DD") {
+    [year, month, day] = parts.map(Number);
+  } else if (format === "MM/DD/YYYY") {
+    [month, day, year] = parts.map(Number);
+  } else {
+    [day, month, year] = parts.map(Number);
+  }
+  if (year < 100) {
+    year += 2000;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`"${value}" is not a valid ${format} date.`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function cell(row: string[], column: number | null | undefined) {
+  return column === null || column === undefined ? "" : (row[column] ?? "");
+}
+
+function signedAmount(row: string[], profile: ImportProfile) {
+  const { decimalSeparator, thousandSeparator } = profile;
+  if (profile.amountLayout === "split") {
+    const debitText = cell(row, profile.columns.debit);
+    const creditText = cell(row, profile.columns.credit);
+    const debit = debitText ? Math.abs(parseLocaleAmount(debitText, decimalSeparator, thousandSeparator)) : 0;
+    const credit = creditText ? Math.abs(parseLocaleAmount(creditText, decimalSeparator, thousandSeparator)) : 0;
+    return credit - debit;
+  }
+  const amount = parseLocaleAmount(cell(row, profile.columns.amount), decimalSeparator, thousandSeparator);
+  const typeText = cell(row, profile.columns.type);
+  if (typeText) {
+    return /^(d|dr|debit)\b/i.test(typeText) ? -Math.abs(amount) : Math.abs(amount);
+  }
+  return profile.signConvention === "negative-is-debit" ? amount : -amount;
+}
+
+/** Checks that a profile maps the columns an import needs, throwing a message that names what is missing. */
+export function validateImportProfile(profile: ImportProfile) {
+  const { columns } = profile;
+  if (columns.date === null || columns.description === null) {
+    throw new Error("Map both the date and description columns.");
+  }
+  if (profile.amountLayout === "single" && columns.amount === null) {
+    throw new Error("Map the amount column.");
+  }
+  if (profile.amountLayout === "split" && columns.debit === null && columns.credit === null) {
+    throw new Error("Map the debit and/or credit columns.");
+  }
+  if (profile.thousandSeparator && profile.thousandSeparator === profile.decimalSeparator) {
+    throw new Error("Decimal and thousand separators must differ.");
+  }
+}
+
+/** Applies a profile to a raw export and returns the trimmed raw rows alongside the mapped, canonical rows. */
+export function previewImport(text: string, profile: ImportProfile): ImportPreview {
+  const lines = text.replace(/\s+$/, "").split(/\r?\n/);
+  const body = lines.slice(profile.skipHeaderLines, Math.max(0, lines.length - profile.skipFooterLines)).join("\n");
+  const tokenized = tokenizeDelimited(body, profile.delimiter, profile.quote);
+  const header = profile.hasHeaderRow ? (tokenized[0] ?? []) : [];
+  const rows = profile.hasHeaderRow ? tokenized.slice(1) : tokenized;
+  const firstDataLine = profile.skipHeaderLines + (profile.hasHeaderRow ? 2 : 1);
+
+  validateImportProfile(profile);
+
+  const mapped: CanonicalRow[] = [];
+  const issues: ImportIssue[] = [];
+  rows.forEach((row, index) => {
+    const line = firstDataLine + index;
+    try {
+      const amount = signedAmount(row, profile);
+      if (Number.isNaN(amount)) {
+        throw new Error("Amount could not be read.");
+      }
+      const description = cell(row, profile.columns.description);
+      if (!description) {
+        throw new Error("Description is empty.");
+      }
+      const currency = cell(row, profile.columns.currency).trim().toUpperCase();
+      if (currency && !/^[A-Z]{3}$/.test(currency)) {
+        throw new Error(`"${currency}" is not an ISO currency code.`);
+      }
+      mapped.push({
+        id: cell(row, profile.columns.id) || `row-${index + 1}`,
+        date: parseDateWithFormat(cell(row, profile.columns.date), profile.dateFormat),
+        description,
+        amount: Math.abs(amount).toFixed(2),
+        type: amount < 0 ? "debit" : "credit",
+        ...(currency ? { currency } : {}),
+      });
+    } catch (err) {
+      issues.push({ line, message: err instanceof Error ? err.message : "Row could not be mapped." });
+    }
+  });
+
+  return { header, rows, mapped, issues };
+}
+
+function quoteCsv(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Optional canonical columns, written after the required ones and only when some row carries a value. */
+const OPTIONAL_COLUMNS = [
+  { field: "currency", header: "currency" },
+  { field: "bankReference", header: "bank_reference" },
+  { field: "valueDate", header: "value_date" },
+] as const;
+
+/**
+ * Serialises canonical rows into the `id,date,description,amount,type` layout accepted by `parseCsv`, with trailing
+ * `currency`, `bank_reference` and `value_date` columns when any row carries them.
+ */
+export function toCanonicalCsv(rows: CanonicalRow[]) {
+  const optional = OPTIONAL_COLUMNS.filter((column) => rows.some((row) => row[column.field]));
+  const lines = rows.map((row) =>
+    [row.id, row.date, row.description, row.amount, row.type, ...optional.map((column) => row[column.field] ?? "")]
+      .map(quoteCsv)
+      .join(","),
+  );
+  return [
+    ["id", "date", "description", "amount", "type", ...optional.map((column) => column.header)].join(","),
+    ...lines,
+  ].join("\n");
+}
+
+/** Whether a header line is already in the canonical layout, so the file can skip the mapping wizard. */
+export function isCanonicalHeader(line: string) {
+  const columns = line.trim().toLowerCase().split(",");
+  return (
+    columns.slice(0, 5).join(",") === "id,date,description,amount,type" &&
+    columns.slice(5).every((header) => OPTIONAL_COLUMNS.some((column) => column.header === header))
+  );
+}
+
+export function createProfileId() {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadImportProfiles(): ImportProfile[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(PROFILE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ImportProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveImportProfile(profile: ImportProfile) {
+  const profiles = loadImportProfiles().filter((entry) => entry.id !== profile.id);
+  const next = [...profiles, profile].sort((a, b) => a.name.localeCompare(b.name));
+  window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function deleteImportProfile(id: string) {
+  const next = loadImportProfiles().filter((entry) => entry.id !== id);
+  window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { applyLearnedAliases, citeLearnedRules, payeeKey, type AliasRule } from "@/lib/learnedRules";
+import { reconcileTransactions } from "@/lib/matching";
+import { normalizeDataset } from "@/lib/normalization";
+
+const origin = { period: "2026-08", sessionName: "August", learnedAt: "2026-09-01", uses: 0, lastUsedAt: null };
+
+function alias(id: string, statement: string, ledger: string, polarity: AliasRule["polarity"]): AliasRule {
+  return { ...origin, id, kind: "alias", statementKey: payeeKey(statement), ledgerKey: payeeKey(ledger), polarity };
+}
+
+function run(statementDescription: string, ledgerDescription: string, rules: AliasRule[]) {
+  const statement = normalizeDataset(
+    [{ id: "S-1", date: "2026-09-04", description: statementDescription, amount: "950.00", type: "debit" }],
+    "statement",
+  );
+  const ledger = normalizeDataset(
+    [{ id: "L-1", date: "2026-09-05", description: ledgerDescription, amount: "950.00", type: "debit" }],
+    "ledger",
+  );
+  const stage = applyLearnedAliases(statement, ledger, rules);
+  const engineRun = reconcileTransactions(stage.statement, stage.ledger, DEFAULT_ENGINE_CONFIG, {
+    rejects: stage.rejects,
+  });
+  return citeLearnedRules(engineRun, stage);
+}
+
+describe("learned aliases", () => {
+  it("feed a confirmed alias into the engine's description scoring", () => {
+    const rules = [alias("rule-1", "POS 4411 KWIKFIX JHB", "Kwik Fix Maintenance", "confirmed")];
+
+    expect(run("POS 4411 KWIKFIX JHB", "Kwik Fix Maintenance", []).run.matched).toHaveLength(0);
+
+    const { run: result, uses } = run("POS 4411 KWIKFIX JHB", "Kwik Fix Maintenance", rules);
+    expect(result.matched).toHaveLength(1);
+    expect(result.matched[0].type).toBe("fuzzy");
+    expect(result.matched[0].reasons).toContain("matched via learned alias from 2026-08 session");
+    expect(uses.map((use) => use.ruleId)).toEqual(["rule-1"]);
+  });
+
+  it("veto a pairing the bookkeeper rejected before", () => {
+    const rules = [alias("rule-2", "ACME TRADING CT", "Acme Trading", "rejected")];
+
+    expect(run("ACME TRADING CT", "Acme Trading", []).run.matched).toHaveLength(1);
+
+    const { run: result, uses } = run("ACME TRADING CT", "Acme Trading", rules);
+    expect(result.matched).toHaveLength(0);
+    expect(result.unmatchedStatements).toHaveLength(1);
+    expect(uses.map((use) => use.ruleId)).toEqual(["rule-2"]);
+  });
+});
@@ -0,0 +1,380 @@
+import { normalizeDescription } from "@/lib/normalization";
+import type { EngineRun, ManualDecision, Transaction } from "@/lib/workbench";
+
+interface LearnedRuleBase {
+  id: string;
+  /** Period (YYYY-MM) of the session the rule was learned from. */
+  period: string;
+  sessionName: string;
+  learnedAt: string;
+  uses: number;
+  lastUsedAt: string | null;
+}
+
+/** A statement/ledger description pairing the bookkeeper confirmed (manual match) or rejected (unmatch). */
+export interface AliasRule extends LearnedRuleBase {
+  kind: "alias";
+  statementKey: string;
+  ledgerKey: string;
+  polarity: "confirmed" | "rejected";
+}
+
+/** Maps the noisy bank narrative of a payee to the name the books use for it. */
+export interface PayeeRule extends LearnedRuleBase {
+  kind: "payee";
+  pattern: string;
+  payee: string;
+}
+
+/** Assigns the ledger's category to statement lines whose payee matches the pattern. */
+export interface CategoryRule extends LearnedRuleBase {
+  kind: "category";
+  pattern: string;
+  category: string;
+}
+
+export type LearnedRule = AliasRule | PayeeRule | CategoryRule;
+
+export interface LearnedRuleUse {
+  ruleId: string;
+  reason: string;
+}
+
+const RULE_STORAGE_KEY = "smart-reconciliation:learned-rules";
+const LEARNED_DECISIONS_STORAGE_KEY = "smart-reconciliation:learned-decisions";
+
+/** Tokens banks add to card and transfer narratives that say nothing about the payee. */
+const NARRATIVE_NOISE = new Set([
+  "pos",
+  "eftpos",
+  "card",
+  "visa",
+  "mastercard",
+  "debit",
+  "credit",
+  "purchase",
+  "payment",
+  "ref",
+  "reference",
+  "tfr",
+  "transfer",
+  "dd",
+  "so",
+  "atm",
+  "contactless",
+  "online",
+  "the",
+]);
+
+/** Reduces a description to its payee words: lower-case letters only, narrative noise and single letters removed. */
+export function payeeKey(description: string) {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .split(" ")
+    .filter((token) => token.length > 1 && !NARRATIVE_NOISE.has(token))
+    .join(" ");
+}
+
+export function describeRuleOrigin(rule: LearnedRule) {
+  return `from ${rule.period} session`;
+}
+
+function createRuleId() {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function ruleIdentity(rule: LearnedRule) {
+  switch (rule.kind) {
+    case "alias":
+      return `alias:${rule.statementKey}|${rule.ledgerKey}`;
+    case "payee":
+      return `payee:${rule.pattern}`;
+    case "category":
+      return `category:${rule.pattern}`;
+  }
+}
+
+export function loadLearnedRules(): LearnedRule[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(RULE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as LearnedRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeLearnedRules(rules: LearnedRule[]) {
+  window.localStorage.setItem(RULE_STORAGE_KEY, JSON.stringify(rules));
+  return rules;
+}
+
+export function saveLearnedRule(rule: LearnedRule) {
+  const keys = rule.kind === "alias" ? [rule.statementKey, rule.ledgerKey] : [rule.pattern];
+  if (keys.some((key) => payeeKey(key) === "")) {
+    throw new Error("Rule descriptions need at least one payee word.");
+  }
+  const normalized: LearnedRule =
+    rule.kind === "alias"
+      ? { ...rule, statementKey: payeeKey(rule.statementKey), ledgerKey: payeeKey(rule.ledgerKey) }
+      : { ...rule, pattern: payeeKey(rule.pattern) };
+  if (normalized.kind === "payee" && !normalized.payee.trim()) {
+    throw new Error("Enter the payee name the bank narrative maps to.");
+  }
+  if (normalized.kind === "category" && !normalized.category.trim()) {
+    throw new Error("Enter the category to apply.");
+  }
+  const rules = loadLearnedRules();
+  const duplicate = rules.find(
+    (entry) => entry.id !== normalized.id && ruleIdentity(entry) === ruleIdentity(normalized),
+  );
+  if (duplicate) {
+    throw new Error("Another learned rule already covers the same descriptions.");
+  }
+  return storeLearnedRules(rules.map((entry) => (entry.id === normalized.id ? normalized : entry)));
+}
+
+export function deleteLearnedRule(id: string) {
+  return storeLearnedRules(loadLearnedRules().filter((entry) => entry.id !== id));
+}
+
+function loadLearnedDecisionIds(): string[] {
+  try {
+    const stored = window.localStorage.getItem(LEARNED_DECISIONS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function allTransactions(run: EngineRun) {
+  const statements = new Map<string, Transaction>();
+  const ledger = new Map<string, Transaction>();
+  for (const match of run.matched) {
+    statements.set(match.statement.id, match.statement);
+    ledger.set(match.ledger.id, match.ledger);
+  }
+  for (const agg of run.aggregated) {
+    ledger.set(agg.ledger.id, agg.ledger);
+    for (const tx of agg.statements) statements.set(tx.id, tx);
+  }
+  for (const group of run.groups ?? []) {
+    for (const tx of group.statements) statements.set(tx.id, tx);
+    for (const tx of group.ledger) ledger.set(tx.id, tx);
+  }
+  for (const tx of run.unmatchedStatements) statements.set(tx.id, tx);
+  for (const tx of run.unmatchedLedger) ledger.set(tx.id, tx);
+  return { statements, ledger };
+}
+
+/**
+ * Derives rules from the bookkeeper's decisions on a run. One-to-one manual matches teach an alias, a payee
+ * normalisation and (when the categories differ) a category mapping; unmatching a fuzzy or rule match teaches a
+ * rejected alias so the pairing is not suggested again.
+ */
+export function learnFromDecisions(
+  run: EngineRun,
+  decisions: ManualDecision[],
+  origin: { period: string; sessionName: string },
+) {
+  const { statements, ledger } = allTransactions(run);
+  const learnedAt = new Date().toISOString();
+  const base = { ...origin, learnedAt, uses: 0, lastUsedAt: null };
+  const rules: LearnedRule[] = [];
+
+  for (const decision of decisions) {
+    if (decision.kind === "match" && decision.statementIds.length === 1 && decision.ledgerIds.length === 1) {
+      const statement = statements.get(decision.statementIds[0]);
+      const entry = ledger.get(decision.ledgerIds[0]);
+      if (!statement || !entry) continue;
+      const statementKey = payeeKey(statement.description);
+      const ledgerKey = payeeKey(entry.description);
+      if (!statementKey || !ledgerKey) continue;
+      rules.push({ ...base, id: createRuleId(), kind: "alias", statementKey, ledgerKey, polarity: "confirmed" });
+      if (statementKey !== ledgerKey) {
+        rules.push({ ...base, id: createRuleId(), kind: "payee", pattern: statementKey, payee: entry.description });
+      }
+      if (entry.category && entry.category !== statement.category) {
+        rules.push({ ...base, id: createRuleId(), kind: "category", pattern: statementKey, category: entry.category });
+      }
+    }
+
+    if (decision.kind === "unmatch" && decision.statementIds.length === 1 && decision.ledgerIds.length === 1) {
+      const match = run.matched.find(
+        (candidate) =>
+          candidate.statement.id === decision.statementIds[0] && candidate.ledger.id === decision.ledgerIds[0],
+      );
+      if (!match || match.type === "exact") continue;
+      const statementKey = payeeKey(match.statement.description);
+      const ledgerKey = payeeKey(match.ledger.description);
+      if (!statementKey || !ledgerKey) continue;
+      rules.push({ ...base, id: createRuleId(), kind: "alias", statementKey, ledgerKey, polarity: "rejected" });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Stores rules learned from a session's decisions. Decisions already learned from are skipped so that a rule the
+ * user deleted is not re-created by saving the same session again; a newer lesson replaces an older one for the
+ * same descriptions. Returns how many rules were added or updated.
+ */
+export function rememberDecisions(
+  run: EngineRun,
+  decisions: ManualDecision[],
+  origin: { period: string; sessionName: string },
+) {
+  const learnedIds = new Set(loadLearnedDecisionIds());
+  const fresh = decisions.filter((decision) => !learnedIds.has(decision.id));
+  if (fresh.length === 0) return 0;
+  const candidates = learnFromDecisions(run, fresh, origin);
+
+  const rules = loadLearnedRules();
+  for (const candidate of candidates) {
+    const index = rules.findIndex((rule) => ruleIdentity(rule) === ruleIdentity(candidate));
+    if (index === -1) {
+      rules.push(candidate);
+    } else {
+      rules[index] = {
+        ...candidate,
+        id: rules[index].id,
+        uses: rules[index].uses,
+        lastUsedAt: rules[index].lastUsedAt,
+      };
+    }
+  }
+  storeLearnedRules(rules);
+  window.localStorage.setItem(
+    LEARNED_DECISIONS_STORAGE_KEY,
+    JSON.stringify([...learnedIds, ...fresh.map((decision) => decision.id)]),
+  );
+  return candidates.length;
+}
+
+export function recordRuleUses(uses: LearnedRuleUse[]) {
+  if (uses.length === 0) return;
+  const counts = new Map<string, number>();
+  for (const use of uses) counts.set(use.ruleId, (counts.get(use.ruleId) ?? 0) + 1);
+  const usedAt = new Date().toISOString();
+  storeLearnedRules(
+    loadLearnedRules().map((rule) =>
+      counts.has(rule.id) ? { ...rule, uses: rule.uses + (counts.get(rule.id) ?? 0), lastUsedAt: usedAt } : rule,
+    ),
+  );
+}
+
+/**
+ * Applies learned category mappings to a normalised statement dataset before it reaches the engine. Returns the
+ * re-categorised dataset and, per transaction id, the rule that changed it.
+ */
+export function applyLearnedCategories<T extends Transaction>(dataset: T[], rules: LearnedRule[]) {
+  const categoryRules = rules.filter((rule): rule is CategoryRule => rule.kind === "category");
+  const applied = new Map<string, CategoryRule>();
+  if (categoryRules.length === 0) return { dataset, applied };
+  const next = dataset.map((tx) => {
+    const rule = categoryRules.find((candidate) => candidate.pattern === payeeKey(tx.description));
+    if (!rule || rule.category === tx.category) return tx;
+    applied.set(tx.id, rule);
+    return { ...tx, category: rule.category };
+  });
+  return { dataset: next, applied };
+}
+
+/** A learned rule's effect on one run, from `applyLearnedAliases`, for `citeLearnedRules` to report. */
+export interface LearnedAliasStage<T extends Transaction> {
+  statement: T[];
+  ledger: T[];
+  /** Per statement id, the confirmed alias or payee normalisation that rewrote its description. */
+  applied: Map<string, AliasRule | PayeeRule>;
+  /** Vetoes pairings covered by a rejected alias; pass it to the engine as `rejects`. */
+  rejects: (statement: Transaction, ledger: Transaction) => boolean;
+  /** Pairings vetoed so far, keyed by statement and ledger id. */
+  rejections: Map<string, LearnedRuleUse>;
+}
+
+/**
+ * Learned-alias stage that runs ahead of the engine. A confirmed alias rewrites the normalised description of the
+ * statement lines and ledger entries it covers to the same payee key, and a payee normalisation rewrites the statement
+ * line's to the payee the books use, so the engine's description scoring sees the learned pairing. Rejected aliases
+ * become a veto the engine consults before scoring a candidate.
+ */
+export function applyLearnedAliases<T extends Transaction>(
+  statement: T[],
+  ledger: T[],
+  rules: LearnedRule[],
+): LearnedAliasStage<T> {
+  const aliases = rules.filter((rule): rule is AliasRule => rule.kind === "alias");
+  const confirmed = aliases.filter((rule) => rule.polarity === "confirmed");
+  const rejected = aliases.filter((rule) => rule.polarity === "rejected");
+  const payees = rules.filter((rule): rule is PayeeRule => rule.kind === "payee");
+  const applied = new Map<string, AliasRule | PayeeRule>();
+  const rejections = new Map<string, LearnedRuleUse>();
+
+  const nextStatement = statement.map((tx) => {
+    const key = payeeKey(tx.description);
+    const alias = confirmed.find((rule) => rule.statementKey === key);
+    if (alias) {
+      applied.set(tx.id, alias);
+      return { ...tx, normalizedDescription: alias.ledgerKey };
+    }
+    const payee = payees.find((rule) => rule.pattern === key);
+    if (payee) {
+      applied.set(tx.id, payee);
+      return { ...tx, normalizedDescription: normalizeDescription(payee.payee) };
+    }
+    return tx;
+  });
+  const ledgerKeys = new Set(confirmed.map((rule) => rule.ledgerKey));
+  const nextLedger = ledger.map((tx) => {
+    const key = payeeKey(tx.description);
+    return ledgerKeys.has(key) ? { ...tx, normalizedDescription: key } : tx;
+  });
+
+  const rejects = (left: Transaction, right: Transaction) => {
+    const statementKey = payeeKey(left.description);
+    const ledgerKey = payeeKey(right.description);
+    const rule = rejected.find((entry) => entry.statementKey === statementKey && entry.ledgerKey === ledgerKey);
+    if (rule) {
+      rejections.set(`${left.id}|${right.id}`, {
+        ruleId: rule.id,
+        reason: `${left.description} ↔ ${right.description} not paired: rejected ${describeRuleOrigin(rule)}`,
+      });
+    }
+    return Boolean(rule);
+  };
+
+  return { statement: nextStatement, ledger: nextLedger, applied, rejects, rejections };
+}
+
+/**
+ * Cites the learned rules behind a run's matches in their `reasons`: the alias or payee normalisation that rewrote the
+ * statement line's description and the learned category mapping it was given. Returns every use, vetoes included.
+ */
+export function citeLearnedRules(
+  run: EngineRun,
+  stage: Pick<LearnedAliasStage<Transaction>, "applied" | "rejections">,
+  categorised: Map<string, CategoryRule> = new Map(),
+) {
+  const uses: LearnedRuleUse[] = [...stage.rejections.values()];
+  const matched = run.matched.map((match) => {
+    const reasons: string[] = [];
+    const alias = stage.applied.get(match.statement.id);
+    if (alias?.kind === "alias" && alias.ledgerKey === payeeKey(match.ledger.description)) {
+      reasons.push(`matched via learned alias ${describeRuleOrigin(alias)}`);
+      uses.push({ ruleId: alias.id, reason: reasons[reasons.length - 1] });
+    } else if (alias?.kind === "payee") {
+      reasons.push(`matched via learned payee “${alias.payee}” ${describeRuleOrigin(alias)}`);
+      uses.push({ ruleId: alias.id, reason: reasons[reasons.length - 1] });
+    }
+    const category = categorised.get(match.statement.id);
+    if (category) {
+      reasons.push(`category “${category.category}” via learned mapping ${describeRuleOrigin(category)}`);
+      uses.push({ ruleId: category.id, reason: reasons[reasons.length - 1] });
+    }
+    return reasons.length === 0 ? match : { ...match, reasons: [...match.reasons, ...reasons] };
+  });
+
+  return { run: { ...run, matched }, uses };
+}
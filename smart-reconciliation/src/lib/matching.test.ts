@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "@/lib/csv";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { SCORE_WEIGHTS, reconcileTransactions } from "@/lib/matching";
+import { normalizeDataset } from "@/lib/normalization";
+import { sampleLedgerCsv, sampleStatementCsv } from "@/lib/sampleData";
+import { explainScore } from "@/lib/scoreBreakdown";
+
+function sample() {
+  return {
+    statement: normalizeDataset(parseCsv(sampleStatementCsv, "statement"), "statement"),
+    ledger: normalizeDataset(parseCsv(sampleLedgerCsv, "ledger"), "ledger"),
+  };
+}
+
+describe("reconcileTransactions", () => {
+  it("pairs the sample month and leaves the bank-only and ledger-only items open", () => {
+    const { statement, ledger } = sample();
+    const run = reconcileTransactions(statement, ledger, DEFAULT_ENGINE_CONFIG);
+
+    expect(run.matched.find((match) => match.statement.id === "S-001")).toMatchObject({
+      ledger: { id: "L-101" },
+      type: "exact",
+    });
+    expect(run.matched.find((match) => match.statement.id === "S-002")).toMatchObject({
+      ledger: { id: "L-102" },
+      type: "fuzzy",
+    });
+    expect(run.aggregated).toHaveLength(1);
+    expect(run.aggregated[0].ledger.id).toBe("L-104");
+    expect(run.aggregated[0].statements.map((tx) => tx.id).sort()).toEqual(["S-004", "S-005"]);
+    expect(run.unmatchedStatements.map((tx) => tx.id)).toEqual(expect.arrayContaining(["S-011", "S-013"]));
+    expect(run.unmatchedLedger.map((tx) => tx.id)).toContain("L-112");
+  });
+
+  it("never pairs a debit with a credit of the same amount", () => {
+    const statement = normalizeDataset(
+      [{ id: "S-1", date: "2026-09-01", description: "Refund Acme", amount: "100.00", type: "credit" }],
+      "statement",
+    );
+    const ledger = normalizeDataset(
+      [{ id: "L-1", date: "2026-09-01", description: "Refund Acme", amount: "100.00", type: "debit" }],
+      "ledger",
+    );
+    const run = reconcileTransactions(statement, ledger, DEFAULT_ENGINE_CONFIG);
+
+    expect(run.matched).toHaveLength(0);
+    expect(run.unmatchedStatements).toHaveLength(1);
+    expect(run.unmatchedLedger).toHaveLength(1);
+  });
+
+  it("skips aggregation when the group size leaves room for one statement line only", () => {
+    const { statement, ledger } = sample();
+    const run = reconcileTransactions(statement, ledger, { ...DEFAULT_ENGINE_CONFIG, aggregationMaxGroupSize: 2 });
+
+    expect(run.aggregated).toHaveLength(0);
+  });
+
+  it("reports the component scores its match scores are weighted from", () => {
+    const { statement, ledger } = sample();
+    const run = reconcileTransactions(statement, ledger, DEFAULT_ENGINE_CONFIG);
+    const match = run.matched.find((entry) => entry.statement.id === "S-002");
+    const components = match?.components;
+    if (!match || !components) throw new Error("S-002 should be matched by the fuzzy pass.");
+
+    const weighted =
+      SCORE_WEIGHTS.amount * components.amount +
+      SCORE_WEIGHTS.date * components.date +
+      SCORE_WEIGHTS.description * components.description;
+    expect(match.score).toBeCloseTo(weighted, 3);
+
+    const breakdown = explainScore(match.statement, match.ledger, DEFAULT_ENGINE_CONFIG, match);
+    expect(breakdown).toMatchObject({ source: "engine", weighted: match.score, similarity: components.description });
+    expect(breakdown.components.date.score).toBe(components.date);
+  });
+});
@@ -0,0 +1,280 @@
+import { createCandidateIndex } from "@/lib/candidateIndex";
+import { formatCurrency } from "@/lib/format";
+import { findSubset } from "@/lib/subsetSearch";
+import type {
+  AggregationResult,
+  EngineConfig,
+  MatchResult,
+  NormalizedTransaction,
+  ReconciliationRun,
+  ScoreComponents,
+} from "@/lib/types";
+
+/** How much each signal contributes to a match's score. */
+export const SCORE_WEIGHTS = { amount: 0.5, date: 0.2, description: 0.3 } as const;
+
+export const SIMILARITY_ALGORITHM = "Sørensen–Dice coefficient on character bigrams";
+
+/** Share of the amount after which the amount signal scores zero. */
+const AMOUNT_FALLOFF = 0.05;
+/** Days apart after which the date signal scores zero. */
+const DATE_FALLOFF_DAYS = 30;
+/** Statement lines that make up one ledger deposit are rarely banked more than a week apart. */
+const AGGREGATION_WINDOW_DAYS = 7;
+/** Statement candidates per ledger entry in the aggregation search; split into two halves of eight. */
+const MAX_AGGREGATION_CANDIDATES = 16;
+/** How many transactions are processed between progress reports. */
+const PROGRESS_INTERVAL = 500;
+/** Bank references shorter than this (`1`, `EFT`) are too generic to identify a ledger entry. */
+const MIN_REFERENCE_LENGTH = 4;
+
+export interface EngineOptions {
+  /** Vetoes a pairing the bookkeeper has refused before; the engine then considers the next candidate. */
+  rejects?: (statement: NormalizedTransaction, ledger: NormalizedTransaction) => boolean;
+  /** Called with the fraction of the work done, every few hundred transactions and once at the end. */
+  onProgress?: (fraction: number) => void;
+}
+
+export interface PairScore {
+  amountDelta: number;
+  dateDeltaDays: number;
+  similarity: number;
+  /** The statement line's bank reference is quoted on the ledger entry. */
+  referenceMatch: boolean;
+  components: ScoreComponents;
+  /** Weighted score between 0 and 1. */
+  score: number;
+}
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(left: string, right: string) {
+  return Math.round(Math.abs(Date.parse(left) - Date.parse(right)) / 86_400_000);
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function bigrams(value: string) {
+  const text = value.toLowerCase().replace(/\s+/g, " ").trim();
+  const grams = new Map<string, number>();
+  for (let index = 0; index < text.length - 1; index += 1) {
+    const gram = text.slice(index, index + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Dice coefficient over the character bigrams of two descriptions, counting repeated bigrams. */
+export function descriptionSimilarity(left: string, right: string) {
+  const a = bigrams(left);
+  const b = bigrams(right);
+  let total = 0;
+  let shared = 0;
+  for (const [gram, count] of a) {
+    total += count;
+    shared += Math.min(count, b.get(gram) ?? 0);
+  }
+  for (const count of b.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+function descriptionOf(tx: NormalizedTransaction) {
+  return tx.normalizedDescription || tx.description;
+}
+
+function quotesReference(statement: NormalizedTransaction, ledger: NormalizedTransaction) {
+  const reference = statement.bankReference?.trim().toLowerCase();
+  if (!reference || reference.length < MIN_REFERENCE_LENGTH) return false;
+  return (
+    ledger.bankReference?.trim().toLowerCase() === reference || ledger.description.toLowerCase().includes(reference)
+  );
+}
+
+/**
+ * Scores a statement line against a ledger entry: amount, date and description, weighted by `SCORE_WEIGHTS`. The date
+ * is compared with the statement's booking date or its value date, whichever is closer to the ledger entry.
+ */
+export function scorePair(statement: NormalizedTransaction, ledger: NormalizedTransaction): PairScore {
+  const amountDelta = roundCents(Math.abs(Math.abs(statement.amount) - Math.abs(ledger.amount)));
+  const dateDeltaDays = Math.min(
+    daysBetween(statement.normalizedDate, ledger.normalizedDate),
+    statement.valueDate ? daysBetween(statement.valueDate, ledger.normalizedDate) : Number.POSITIVE_INFINITY,
+  );
+  const similarity = descriptionSimilarity(descriptionOf(statement), descriptionOf(ledger));
+  const falloff = Math.max(Math.abs(statement.amount) * AMOUNT_FALLOFF, 1);
+  const components: ScoreComponents = {
+    amount: Math.max(0, 1 - amountDelta / falloff),
+    date: Math.max(0, 1 - dateDeltaDays / DATE_FALLOFF_DAYS),
+    description: similarity,
+  };
+  const score =
+    SCORE_WEIGHTS.amount * components.amount +
+    SCORE_WEIGHTS.date * components.date +
+    SCORE_WEIGHTS.description * components.description;
+  return {
+    amountDelta,
+    dateDeltaDays,
+    similarity,
+    referenceMatch: quotesReference(statement, ledger),
+    components,
+    score: Math.round(score * 1000) / 1000,
+  };
+}
+
+function pairReasons(statement: NormalizedTransaction, pair: PairScore, config: EngineConfig) {
+  return [
+    pair.amountDelta === 0
+      ? "Amounts agree"
+      : `Amounts differ by ${formatCurrency(pair.amountDelta)}, within ${formatCurrency(config.amountTolerance)}`,
+    pair.dateDeltaDays === 0 ? "Same date" : `${pair.dateDeltaDays} day(s) apart, within ${config.dateToleranceDays}`,
+    `Description ${percent(pair.similarity)} similar (threshold ${percent(config.descriptionThreshold)})`,
+    ...(pair.referenceMatch ? [`Bank reference ${statement.bankReference} quoted on the ledger entry`] : []),
+  ];
+}
+
+/**
+ * The best-scoring open ledger entry for a statement line among those the index returns for its amount and date
+ * window, provided the descriptions clear the threshold. A ledger entry quoting the line's bank reference needs no
+ * description match and is preferred over one that does not.
+ */
+function bestCandidate(
+  tx: NormalizedTransaction,
+  candidates: NormalizedTransaction[],
+  config: EngineConfig,
+  options: EngineOptions,
+): { ledger: NormalizedTransaction; pair: PairScore } | null {
+  let best: { ledger: NormalizedTransaction; pair: PairScore } | null = null;
+  for (const ledger of candidates) {
+    if (options.rejects?.(tx, ledger)) continue;
+    const pair = scorePair(tx, ledger);
+    if (pair.similarity < config.descriptionThreshold && !pair.referenceMatch) continue;
+    const better =
+      !best ||
+      (pair.referenceMatch && !best.pair.referenceMatch) ||
+      (pair.referenceMatch === best.pair.referenceMatch && pair.score > best.pair.score);
+    if (better) best = { ledger, pair };
+  }
+  return best;
+}
+
+function buildAggregation(
+  ledger: NormalizedTransaction,
+  statements: NormalizedTransaction[],
+  total: number,
+  window: number,
+  config: EngineConfig,
+): AggregationResult {
+  const difference = roundCents(total - Math.abs(ledger.amount));
+  return {
+    ledger,
+    statements,
+    total,
+    difference,
+    reasons: [
+      `${statements.length} statement lines totalling ${formatCurrency(total)} settle ${ledger.description}`,
+      `Difference ${formatCurrency(difference)} within aggregation tolerance ${formatCurrency(config.aggregationAmountTolerance)}`,
+      `Every line dated within ${window} days of ${ledger.normalizedDate}`,
+    ],
+  };
+}
+
+/**
+ * The matching engine. Three passes, each looking only at the candidates the amount and date indexes return:
+ *
+ * 1. exact: same sign and date (booking or value date), amount within `amountTolerance`, description at or above the
+ *    threshold or the line's bank reference quoted on the ledger entry;
+ * 2. fuzzy: as exact but dated within `dateToleranceDays`, keeping the best-scoring candidate;
+ * 3. aggregation: several same-sign statement lines, dated near a ledger entry, whose total settles it within
+ *    `aggregationAmountTolerance`, found with a meet-in-the-middle subset search over the nearest candidates.
+ *
+ * `options.rejects` vetoes individual pairings in the first two passes; `options.onProgress` follows all three.
+ */
+export function reconcileTransactions(
+  statement: NormalizedTransaction[],
+  ledger: NormalizedTransaction[],
+  config: EngineConfig,
+  options: EngineOptions = {},
+): ReconciliationRun {
+  const ledgerIndex = createCandidateIndex(ledger);
+  const matched: MatchResult[] = [];
+  const paired = new Set<NormalizedTransaction>();
+  // Two passes over the statement and, at most, one aggregation attempt per ledger entry.
+  const steps = Math.max(statement.length * 2 + ledger.length, 1);
+  let step = 0;
+  const tick = () => {
+    step += 1;
+    if (options.onProgress && step % PROGRESS_INTERVAL === 0) options.onProgress(step / steps);
+  };
+
+  const candidatesFor = (tx: NormalizedTransaction, days: number) => {
+    const candidates = ledgerIndex.byAmount(tx.amount, tx.sign, config.amountTolerance, tx.normalizedDate, days);
+    if (!tx.valueDate || tx.valueDate === tx.normalizedDate) return candidates;
+    const byValueDate = ledgerIndex.byAmount(tx.amount, tx.sign, config.amountTolerance, tx.valueDate, days);
+    return [...new Set([...candidates, ...byValueDate])];
+  };
+
+  const pass = (type: MatchResult["type"], days: number) => {
+    for (const tx of statement) {
+      tick();
+      if (paired.has(tx)) continue;
+      const best = bestCandidate(tx, candidatesFor(tx, days), config, options);
+      if (!best) continue;
+      matched.push({
+        statement: tx,
+        ledger: best.ledger,
+        score: best.pair.score,
+        components: best.pair.components,
+        type,
+        reasons: pairReasons(tx, best.pair, config),
+      });
+      ledgerIndex.remove(best.ledger);
+      paired.add(tx);
+    }
+  };
+  pass("exact", 0);
+  pass("fuzzy", config.dateToleranceDays);
+
+  const aggregated: AggregationResult[] = [];
+  const openStatements = statement.filter((tx) => !paired.has(tx));
+  const maxStatements = config.aggregationMaxGroupSize - 1;
+  if (maxStatements >= 2) {
+    const statementIndex = createCandidateIndex(openStatements);
+    const window = Math.max(config.dateToleranceDays, AGGREGATION_WINDOW_DAYS);
+    const tolerance = config.aggregationAmountTolerance;
+    const openLedger = ledger.filter(ledgerIndex.isOpen).sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+    for (const entry of openLedger) {
+      tick();
+      const target = Math.abs(entry.amount);
+      // Lines larger than the entry cannot be part of its total, so they are pruned before the subset search.
+      const candidates = statementIndex
+        .nearest(entry.normalizedDate, entry.sign, window, MAX_AGGREGATION_CANDIDATES * 2)
+        .filter((tx) => Math.abs(tx.amount) <= target + tolerance)
+        .slice(0, MAX_AGGREGATION_CANDIDATES);
+      if (candidates.length < 2) continue;
+      const subset = findSubset(target, candidates, maxStatements, tolerance);
+      if (!subset) continue;
+      aggregated.push(buildAggregation(entry, subset.items, subset.total, window, config));
+      ledgerIndex.remove(entry);
+      subset.items.forEach(statementIndex.remove);
+    }
+    options.onProgress?.(1);
+    return {
+      matched,
+      aggregated,
+      unmatchedStatements: openStatements.filter(statementIndex.isOpen),
+      unmatchedLedger: ledger.filter(ledgerIndex.isOpen),
+    };
+  }
+
+  options.onProgress?.(1);
+  return {
+    matched,
+    aggregated,
+    unmatchedStatements: openStatements,
+    unmatchedLedger: ledger.filter(ledgerIndex.isOpen),
+  };
+}
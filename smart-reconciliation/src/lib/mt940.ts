@@ -0,0 +1,121 @@
+import {
+  ensureUniqueIds,
+  toStatementLine,
+  type ParsedStatement,
+  type StatementBalance,
+  type StatementLine,
+} from "@/lib/statementImport";
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+const STATEMENT_LINE =
+  /^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d{0,2})([NSF][A-Z0-9]{3})([^/\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+/** Splits an MT940 message into `:tag:` fields, folding continuation lines into the preceding field. */
+function fields(text: string) {
+  const result: Field[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/^\{\d:[^}]*\}?/, "").trimEnd();
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      result.push({ tag: match[1], value: match[2] });
+    } else if (result.length > 0 && line && line !== "-" && !line.startsWith("-}")) {
+      result[result.length - 1].value += `\n${line}`;
+    }
+  }
+  return result;
+}
+
+function parseMtAmount(value: string) {
+  return Number.parseFloat(value.replace(",", "."));
+}
+
+function parseMtDate(yymmdd: string) {
+  return `20${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+/** Balance fields look like `C260901ZAR12345,67`. */
+function parseBalance(value: string): StatementBalance | null {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})(\d+,\d{0,2})/);
+  if (!match) return null;
+  const amount = parseMtAmount(match[4]);
+  return { amount: match[1] === "D" ? -amount : amount, date: parseMtDate(match[2]), currency: match[3] };
+}
+
+/** The optional entry date on `:61:` has no year, so borrow it from the value date and roll over at year end. */
+function entryDate(valueDate: string, mmdd: string | undefined) {
+  if (!mmdd) return valueDate;
+  let year = Number(valueDate.slice(0, 4));
+  const valueMonth = Number(valueDate.slice(5, 7));
+  const entryMonth = Number(mmdd.slice(0, 2));
+  if (valueMonth === 12 && entryMonth === 1) year += 1;
+  if (valueMonth === 1 && entryMonth === 12) year -= 1;
+  return `${year}-${mmdd.slice(0, 2)}-${mmdd.slice(2, 4)}`;
+}
+
+/** Flattens `:86:` narrative, dropping the `?20`-style subfield codes some banks use. */
+function narrative(value: string) {
+  return value
+    .replace(/\n/g, "")
+    .replace(/\?\d{2}/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function parseMt940(text: string): ParsedStatement {
+  const parsed = fields(text);
+  if (!parsed.some((field) => field.tag === "61" || field.tag.startsWith("60"))) {
+    throw new Error("MT940 file does not contain any statement lines or balances.");
+  }
+
+  let openingBalance: StatementBalance | null = null;
+  let closingBalance: StatementBalance | null = null;
+  let accountId: string | null = null;
+  const lines: StatementLine[] = [];
+
+  for (const [index, field] of parsed.entries()) {
+    if (field.tag === "25") {
+      accountId = field.value.trim();
+    } else if (field.tag === "60F" || field.tag === "60M") {
+      // A multi-page statement repeats :60M:/:62M:; keep the first opening and the last closing balance.
+      openingBalance ??= parseBalance(field.value);
+    } else if (field.tag === "62F" || field.tag === "62M") {
+      closingBalance = parseBalance(field.value) ?? closingBalance;
+    } else if (field.tag === "61") {
+      const match = field.value.match(STATEMENT_LINE);
+      if (!match) {
+        throw new Error(`MT940 statement line ${lines.length + 1} could not be read: ${field.value.split("\n")[0]}`);
+      }
+      const [, valueDateText, entryDateText, mark, amountText, , customerReference, bankReference, supplementary] =
+        match;
+      const valueDate = parseMtDate(valueDateText);
+      const amount = parseMtAmount(amountText);
+      const isDebit = mark === "D" || mark === "RC";
+      const next = parsed[index + 1];
+      const information = next?.tag === "86" ? narrative(next.value) : "";
+      const reference = customerReference && customerReference !== "NONREF" ? customerReference.trim() : null;
+      lines.push(
+        toStatementLine({
+          id: bankReference?.trim() || reference || `mt940-${lines.length + 1}`,
+          bookingDate: entryDate(valueDate, entryDateText),
+          valueDate,
+          description: information || supplementary?.trim() || reference || "",
+          amount: isDebit ? -amount : amount,
+          bankReference: bankReference?.trim() || reference,
+        }),
+      );
+    }
+  }
+
+  return {
+    format: "mt940",
+    accountId,
+    currency: openingBalance?.currency ?? closingBalance?.currency ?? null,
+    openingBalance,
+    closingBalance,
+    lines: ensureUniqueIds(lines),
+  };
+}
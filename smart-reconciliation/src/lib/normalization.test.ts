@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDataset, parseAmount } from "@/lib/normalization";
+
+describe("parseAmount", () => {
+  it.each([
+    ["1450", 1450],
+    ["1450.00", 1450],
+    ["1,234.56", 1234.56],
+    ["1.234,56", 1234.56],
+    ["1 234,56", 1234.56],
+    ["12,5", 12.5],
+    ["1,234", 1234],
+    ["1,234,567", 1234567],
+    ["1.234.567", 1234567],
+    ["R 1 450,00", 1450],
+    ["ZAR 1,450.00", 1450],
+    ["-1,450.00", -1450],
+    ["R-1450", -1450],
+    ["1450.00-", -1450],
+    ["(1.450,00)", -1450],
+  ])("reads %s as %d", (text, amount) => {
+    expect(parseAmount(text)).toBe(amount);
+  });
+
+  it.each([[""], ["R12.5O"], ["12..5"], ["1.234,567.89"], ["n/a"], ["1450 EUR extra"]])("rejects %j", (text) => {
+    expect(() => parseAmount(text)).toThrow(`"${text}" is not an amount.`);
+  });
+});
+
+describe("normalizeDataset", () => {
+  const rows = [{ id: "S-3", date: "2026-09-04", description: "Service fee", amount: "R12.5O", type: "debit" }];
+
+  it("names the row with an amount it cannot read", () => {
+    expect(() => normalizeDataset(rows, "statement")).toThrow('Statement row S-3: "R12.5O" is not an amount.');
+  });
+
+  it("reads it as zero for the data quality check", () => {
+    expect(normalizeDataset(rows, "statement", { allowMalformedAmounts: true })[0]).toMatchObject({
+      amount: 0,
+      sign: "debit",
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { parseDateWithFormat, parseLocaleAmount, type ImportProfile } from "@/lib/importMapping";
+import type { NormalizedTransaction, RawTransaction, TransactionSource } from "@/lib/types";
+
+/** Category given to rows no keyword recognises. */
+const UNCATEGORISED = "Uncategorised";
+
+/** First-pass categories from the description; bank rules and learned mappings refine them later. */
+const CATEGORY_KEYWORDS: { pattern: RegExp; category: string }[] = [
+  { pattern: /\b(fees?|charges?|commission)\b/, category: "Bank fees" },
+  { pattern: /\binterest\b/, category: "Interest income" },
+  { pattern: /\b(salary|salaries|payroll|wages)\b/, category: "Salaries" },
+  { pattern: /\b(sars|vat|paye|tax)\b/, category: "Tax" },
+  { pattern: /\b(electricity|water|municipal|eskom)\b/, category: "Utilities" },
+  { pattern: /\brent(al)?\b/, category: "Rent" },
+  { pattern: /\b(transfer|tfr)\b/, category: "Transfers" },
+  { pattern: /\b(card settlement|speedpoint|merchant)\b/, category: "Card settlements" },
+  { pattern: /\b(deposit|receipt|customer|sale|sales)\b/, category: "Sales" },
+  { pattern: /\b(supplier|invoice|inv)\b/, category: "Supplier payments" },
+];
+
+/** Runs of six or more digits are card numbers and trace references that differ between bank and books. */
+const LONG_NUMBER = /\b\d{6,}\b/g;
+/** Digits and separators with an optional rand symbol or currency code, a sign either side, or brackets. */
+const AMOUNT_TEXT = /^\(?\s*[-+]?\s*(?:R|[A-Z]{3})?\s*[-+]?\s*\d[\d\s.,]*\s*-?\s*\)?$/i;
+/** Whole numbers with their thousands grouped by a comma or a point. */
+const GROUPED: Record<string, RegExp> = { ",": /^\d{1,3}(?:,\d{3})+$/, ".": /^\d{1,3}(?:\.\d{3})+$/ };
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Lower-case words and short numbers only, so punctuation and bank trace numbers do not affect similarity. */
+export function normalizeDescription(description: string) {
+  return description
+    .toLowerCase()
+    .replace(LONG_NUMBER, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Accepts ISO dates and the day-first layouts South African banks export. */
+export function normalizeDate(value: string) {
+  return parseDateWithFormat(value, /^\s*\d{4}/.test(value) ? "YYYY-MM-DD" : "DD/MM/YYYY");
+}
+
+/**
+ * Works out which of `.` and `,` is the decimal separator. The last one written is, provided it appears once and is
+ * not a lone comma followed by three digits: "1.234,56", "1,234.56" and "12,5" have decimals, "1,234" and "1.234.567"
+ * are whole numbers.
+ */
+function amountSeparators(text: string): Pick<ImportProfile, "decimalSeparator" | "thousandSeparator"> {
+  const point = Math.max(text.lastIndexOf("."), text.lastIndexOf(","));
+  if (point === -1) return { decimalSeparator: ".", thousandSeparator: "" };
+  const last = text[point] === "," ? "," : ".";
+  const other = last === "," ? "." : ",";
+  const decimals = text.slice(point + 1).replace(/\D/g, "").length;
+  const isDecimal = text.indexOf(last) === point && (last === "." || text.includes(other) || decimals !== 3);
+  return isDecimal
+    ? { decimalSeparator: last, thousandSeparator: other }
+    : { decimalSeparator: other, thousandSeparator: last };
+}
+
+/** Whether the separators in `text` group thousands in threes and leave only digits after the decimal separator. */
+function isWellFormed(text: string, separators: Pick<ImportProfile, "decimalSeparator" | "thousandSeparator">) {
+  if (!AMOUNT_TEXT.test(text)) return false;
+  const digits = text.replace(/[^\d.,]/g, "");
+  const point = digits.lastIndexOf(separators.decimalSeparator);
+  const whole = point === -1 ? digits : digits.slice(0, point);
+  const fraction = point === -1 ? "" : digits.slice(point + 1);
+  return (/^\d+$/.test(whole) || GROUPED[separators.thousandSeparator]?.test(whole)) && /^\d*$/.test(fraction);
+}
+
+/**
+ * Reads an amount written with an optional rand symbol or currency code, spaces, commas or points as thousand
+ * separators, either decimal separator, and a minus sign or brackets for negatives. Throws on anything else.
+ */
+export function parseAmount(value: string) {
+  const text = value.trim();
+  const separators = amountSeparators(text);
+  const amount = isWellFormed(text, separators)
+    ? parseLocaleAmount(text, separators.decimalSeparator, separators.thousandSeparator)
+    : Number.NaN;
+  if (!Number.isFinite(amount)) {
+    throw new Error(`"${value}" is not an amount.`);
+  }
+  return amount;
+}
+
+function signOf(type: string, amount: number): NormalizedTransaction["sign"] {
+  if (/^(d|dr|debit)$/i.test(type.trim())) return "debit";
+  if (/^(c|cr|credit)$/i.test(type.trim())) return "credit";
+  return amount < 0 ? "debit" : "credit";
+}
+
+export function categoriseDescription(normalizedDescription: string) {
+  return CATEGORY_KEYWORDS.find((entry) => entry.pattern.test(normalizedDescription))?.category ?? UNCATEGORISED;
+}
+
+/**
+ * Cleans raw rows into the shape every matching stage works on. Throws on a date or an amount that cannot be read,
+ * unless `allowMalformedAmounts` is set: the data quality check then reads such amounts as zero and lists the rows.
+ */
+export function normalizeDataset(
+  rows: RawTransaction[],
+  source: TransactionSource,
+  { allowMalformedAmounts = false } = {},
+): NormalizedTransaction[] {
+  const label = source === "statement" ? "Statement" : "Ledger";
+  return rows.map((row) => {
+    let normalizedDate: string;
+    let valueDate: string | undefined;
+    try {
+      normalizedDate = normalizeDate(row.date);
+    } catch {
+      throw new Error(`${label} row ${row.id}: "${row.date}" is not a date.`);
+    }
+    try {
+      valueDate = row.valueDate ? normalizeDate(row.valueDate) : undefined;
+    } catch {
+      throw new Error(`${label} row ${row.id}: value date "${row.valueDate}" is not a date.`);
+    }
+    let amount = 0;
+    try {
+      amount = parseAmount(row.amount);
+    } catch {
+      if (!allowMalformedAmounts) throw new Error(`${label} row ${row.id}: "${row.amount}" is not an amount.`);
+    }
+    const normalizedDescription = normalizeDescription(row.description);
+    return {
+      id: row.id,
+      source,
+      date: row.date,
+      normalizedDate,
+      description: row.description.trim(),
+      normalizedDescription,
+      amount: roundCents(Math.abs(amount)),
+      sign: signOf(row.type, amount),
+      category: categoriseDescription(normalizedDescription),
+      ...(row.currency ? { currency: row.currency } : {}),
+      ...(row.bankReference ? { bankReference: row.bankReference } : {}),
+      ...(valueDate ? { valueDate } : {}),
+    };
+  });
+}
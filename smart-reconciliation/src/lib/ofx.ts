@@ -0,0 +1,77 @@
+import { decodeXmlEntities, ensureUniqueIds, toStatementLine, type ParsedStatement } from "@/lib/statementImport";
+
+/**
+ * Reads a tag value from OFX. OFX 1.x is SGML and leaves leaf elements unclosed, while OFX 2.x is XML, so the
+ * value is taken up to the next tag either way.
+ */
+function tagValue(block: string, tag: string) {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? decodeXmlEntities(match[1].trim()) : null;
+}
+
+function blocks(text: string, tag: string) {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  return [...text.matchAll(pattern)].map((match) => match[1]);
+}
+
+/** Converts an OFX datetime such as `20260901120000.000[+2:SAST]` to `YYYY-MM-DD`. */
+export function parseOfxDate(value: string | null) {
+  if (!value || !/^\d{8}/.test(value)) return null;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+function parseOfxAmount(value: string | null) {
+  if (!value) return Number.NaN;
+  return Number.parseFloat(value.replace(",", "."));
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  const statement = blocks(text, "STMTRS")[0] ?? blocks(text, "CCSTMTRS")[0];
+  if (!statement) {
+    throw new Error("OFX file does not contain a bank or credit card statement.");
+  }
+
+  const currency = tagValue(statement, "CURDEF");
+  const lines = blocks(statement, "STMTTRN").map((transaction, index) => {
+    const amount = parseOfxAmount(tagValue(transaction, "TRNAMT"));
+    const bookingDate = parseOfxDate(tagValue(transaction, "DTPOSTED"));
+    if (Number.isNaN(amount) || !bookingDate) {
+      throw new Error(`OFX transaction ${index + 1} is missing an amount or posting date.`);
+    }
+    const fitId = tagValue(transaction, "FITID");
+    const description = [tagValue(transaction, "NAME") ?? tagValue(transaction, "PAYEE"), tagValue(transaction, "MEMO")]
+      .filter(Boolean)
+      .join(" ");
+    return toStatementLine({
+      id: fitId ?? `ofx-${index + 1}`,
+      bookingDate,
+      valueDate: parseOfxDate(tagValue(transaction, "DTAVAIL") ?? tagValue(transaction, "DTUSER")),
+      description: description || tagValue(transaction, "TRNTYPE") || "",
+      amount,
+      bankReference: tagValue(transaction, "REFNUM") ?? tagValue(transaction, "CHECKNUM") ?? fitId,
+    });
+  });
+
+  const ledgerBalance = blocks(statement, "LEDGERBAL")[0];
+  const closingAmount = ledgerBalance ? parseOfxAmount(tagValue(ledgerBalance, "BALAMT")) : Number.NaN;
+  const closingDate = ledgerBalance ? parseOfxDate(tagValue(ledgerBalance, "DTASOF")) : null;
+  const closingBalance =
+    !Number.isNaN(closingAmount) && closingDate ? { amount: closingAmount, date: closingDate, currency } : null;
+
+  // OFX only reports the ledger balance at the end of the range, so the opening balance is derived from it.
+  const movement = lines.reduce((total, line) => total + (line.type === "debit" ? -1 : 1) * Number(line.amount), 0);
+  const startDate = parseOfxDate(tagValue(blocks(statement, "BANKTRANLIST")[0] ?? "", "DTSTART"));
+  const openingBalance =
+    closingBalance && startDate
+      ? { amount: Math.round((closingBalance.amount - movement) * 100) / 100, date: startDate, currency }
+      : null;
+
+  return {
+    format: "ofx",
+    accountId: tagValue(statement, "ACCTID"),
+    currency,
+    openingBalance,
+    closingBalance,
+    lines: ensureUniqueIds(lines),
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { DEFAULT_FX_SETTINGS } from "@/lib/fx";
+import { runSweepRequest } from "@/lib/parameterSweep";
+
+const statementInput = `id,date,description,amount,type
+S-1,2026-09-04,POS 8812 KWIKFIX JHB,500.00,debit
+S-2,2026-09-07,Rent September Office Park,18500.00,debit`;
+
+const ledgerInput = `id,date,description,amount,type
+L-1,2026-09-04,Stationery order,500.00,debit
+L-2,2026-09-07,Rent September Office Park,18500.00,debit`;
+
+describe("runSweepRequest", () => {
+  it("flags weak pairings by the engine's scores, whichever pass made them", () => {
+    const result = runSweepRequest({
+      pool: { statementInput, ledgerInput, fx: DEFAULT_FX_SETTINGS },
+      config: DEFAULT_ENGINE_CONFIG,
+      parameter: "descriptionThreshold",
+      values: [0.9, 0],
+    });
+
+    expect(result.points[0]).toMatchObject({ exact: 1, risky: 0 });
+    expect(result.points[1]).toMatchObject({ exact: 2, fuzzy: 0, risky: 1, flips: 1 });
+    expect(result.points[1].riskyExamples).toEqual(["POS 8812 KWIKFIX JHB ⇄ Stationery order"]);
+    expect(result.firstRiskyValue).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import { ENGINE_CONFIG_LIMITS, ENGINE_CONFIG_LABELS } from "@/lib/engineConfig";
+import { reconcileTransactions } from "@/lib/matching";
+import { prepareMatchingPool, type PipelineInput } from "@/lib/pipeline";
+import type { EngineConfig } from "@/lib/types";
+import type { EngineMatch, EngineRun, Transaction } from "@/lib/workbench";
+
+export type SweepParameter = "dateToleranceDays" | "descriptionThreshold" | "amountTolerance";
+
+export interface SweepParameterOption {
+  label: string;
+  /** The default grid, ordered from strictest to loosest. */
+  values: number[];
+  /** Whether raising the value loosens matching. */
+  loosensUpwards: boolean;
+}
+
+export const SWEEP_PARAMETERS: Record<SweepParameter, SweepParameterOption> = {
+  dateToleranceDays: {
+    label: ENGINE_CONFIG_LABELS.dateToleranceDays,
+    values: [0, 1, 2, 3, 5, 7, 10, 14],
+    loosensUpwards: true,
+  },
+  descriptionThreshold: {
+    label: ENGINE_CONFIG_LABELS.descriptionThreshold,
+    values: [1, 0.95, 0.9, 0.85, 0.8, 0.75, 0.7, 0.6, 0.5],
+    loosensUpwards: false,
+  },
+  amountTolerance: {
+    label: ENGINE_CONFIG_LABELS.amountTolerance,
+    values: [0, 0.01, 0.05, 0.5, 1, 5, 10],
+    loosensUpwards: true,
+  },
+};
+
+/** Matches whose description signal, as the engine scored it, is below this are counted as likely false positives… */
+const WEAK_DESCRIPTION = 0.6;
+/** …as are those whose amount signal is below this, an amount gap of more than about 1% of the statement amount… */
+const WEAK_AMOUNT = 0.8;
+/** …or whose date signal is below this, more than a week apart. */
+const WEAK_DATE = 0.75;
+const MAX_EXAMPLES = 5;
+
+export interface SweepPoint {
+  value: number;
+  /** Share of ledger entries matched or aggregated, as a percentage. */
+  coverage: number;
+  exact: number;
+  fuzzy: number;
+  aggregated: number;
+  unmatched: number;
+  /** Statement lines whose pairing differs from the previous, stricter setting. */
+  flips: number;
+  /** Exact or fuzzy matches whose engine scores look like false positives. */
+  risky: number;
+  riskyExamples: string[];
+}
+
+export interface SweepResult {
+  parameter: SweepParameter;
+  points: SweepPoint[];
+  /** The strictest setting at which false-positive-prone matches appear, if any does. */
+  firstRiskyValue: number | null;
+}
+
+export interface SweepInput {
+  statement: Transaction[];
+  ledger: Transaction[];
+  config: EngineConfig;
+  parameter: SweepParameter;
+  values: number[];
+}
+
+/** A sweep as posted to the sweep worker: the raw inputs, parsed in the worker, instead of the matching pool. */
+export interface SweepRequest extends Omit<SweepInput, "statement" | "ledger"> {
+  pool: Pick<PipelineInput, "statementInput" | "ledgerInput" | "fx" | "exclusions" | "carriedForward">;
+}
+
+/** Reads a comma-separated grid, rejecting values outside the setting's limits, and orders it strictest first. */
+export function parseSweepValues(text: string, parameter: SweepParameter) {
+  const { min, max, integer } = ENGINE_CONFIG_LIMITS[parameter];
+  const values = text
+    .split(/[,\s]+/)
+    .filter(Boolean)
+    .map((part) => {
+      const value = Number(part);
+      if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+        const kind = integer ? "a whole number" : "a number";
+        throw new Error(`${SWEEP_PARAMETERS[parameter].label}: “${part}” must be ${kind} between ${min} and ${max}.`);
+      }
+      return value;
+    });
+  if (values.length < 2) {
+    throw new Error("Enter at least two values to compare.");
+  }
+  const unique = [...new Set(values)].sort((a, b) => a - b);
+  return SWEEP_PARAMETERS[parameter].loosensUpwards ? unique : unique.reverse();
+}
+
+function pairings(run: EngineRun) {
+  const pairs = new Map<string, string>();
+  for (const match of run.matched) pairs.set(match.statement.id, match.ledger.id);
+  for (const agg of run.aggregated) {
+    for (const tx of agg.statements) pairs.set(tx.id, agg.ledger.id);
+  }
+  return pairs;
+}
+
+function countFlips(previous: Map<string, string> | null, current: Map<string, string>) {
+  if (!previous) return 0;
+  let flips = 0;
+  for (const id of new Set([...previous.keys(), ...current.keys()])) {
+    if (previous.get(id) !== current.get(id)) flips += 1;
+  }
+  return flips;
+}
+
+/** Whether the engine's own signals for a match put it near a weak description, amount gap or date gap. */
+function isRisky(match: EngineMatch) {
+  const { components } = match;
+  if (!components) return false;
+  return components.description < WEAK_DESCRIPTION || components.amount < WEAK_AMOUNT || components.date < WEAK_DATE;
+}
+
+function measure(run: EngineRun, value: number, previous: Map<string, string> | null) {
+  const pairs = pairings(run);
+  const fuzzy = run.matched.filter((match) => match.type === "fuzzy");
+  const risky = run.matched.filter(isRisky);
+  const ledgerCount = run.matched.length + run.aggregated.length + run.unmatchedLedger.length;
+  const point: SweepPoint = {
+    value,
+    coverage: ledgerCount === 0 ? 0 : ((run.matched.length + run.aggregated.length) / ledgerCount) * 100,
+    exact: run.matched.length - fuzzy.length,
+    fuzzy: fuzzy.length,
+    aggregated: run.aggregated.length,
+    unmatched: run.unmatchedStatements.length + run.unmatchedLedger.length,
+    flips: countFlips(previous, pairs),
+    risky: risky.length,
+    riskyExamples: risky
+      .slice(0, MAX_EXAMPLES)
+      .map((match) => `${match.statement.description} ⇄ ${match.ledger.description}`),
+  };
+  return { point, pairs };
+}
+
+/**
+ * Runs the engine once per grid value with every other setting held at `config`. Only `reconcileTransactions` runs,
+ * without rules, FX or group matching, so each point shows that one setting's effect. Meant for the sweep worker;
+ * see `startParameterSweep`.
+ */
+export function runParameterSweep(
+  input: SweepInput,
+  onProgress: (done: number, total: number) => void = () => {},
+): SweepResult {
+  const points: SweepPoint[] = [];
+  let previous: Map<string, string> | null = null;
+  for (const [index, value] of input.values.entries()) {
+    onProgress(index, input.values.length);
+    const config = { ...input.config, [input.parameter]: value };
+    const { point, pairs } = measure(reconcileTransactions(input.statement, input.ledger, config), value, previous);
+    points.push(point);
+    previous = pairs;
+  }
+  onProgress(input.values.length, input.values.length);
+  return {
+    parameter: input.parameter,
+    points,
+    firstRiskyValue: points.find((point) => point.risky > 0)?.value ?? null,
+  };
+}
+
+/** Parses and normalises the request's inputs the way a run would, then sweeps the resulting matching pool. */
+export function runSweepRequest(
+  { pool, ...request }: SweepRequest,
+  onProgress?: (done: number, total: number) => void,
+): SweepResult {
+  const { statement, ledger } = prepareMatchingPool(pool);
+  return runParameterSweep({ ...request, statement: statement.kept, ledger: ledger.kept }, onProgress);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { DEFAULT_FX_SETTINGS } from "@/lib/fx";
+import { overallProgress, runPipeline } from "@/lib/pipeline";
+
+const ROWS = 100_000;
+/**
+ * About ten seconds on a single core, parsing and group matching included; the limit leaves room for a slow CI
+ * runner while still catching a quadratic step.
+ */
+const TIME_LIMIT_MS = 60_000;
+
+const PAYEES = ["Acme Trading", "Kwik Fix Maintenance", "Sunrise Bakery", "Metro Logistics", "Blue Crane Consulting"];
+
+function isoDate(dayOfYear: number) {
+  return new Date(Date.UTC(2026, 0, 1 + dayOfYear)).toISOString().slice(0, 10);
+}
+
+function row(id: string, day: number, description: string, amount: number) {
+  return `${id},${isoDate(day)},${description},${amount.toFixed(2)},credit`;
+}
+
+/**
+ * A year of receipts, `ROWS` per side: most pair exactly, one in ten is booked a day or two later, one in twenty was
+ * banked as two deposits, and the rest exist on one side only. Amounts are distinct enough that each ledger entry
+ * has a handful of same-amount candidates, as in a real high-volume account.
+ */
+function generate() {
+  const statement: string[] = [];
+  const ledger: string[] = [];
+  for (let index = 0; statement.length < ROWS && ledger.length < ROWS; index += 1) {
+    const day = index % 360;
+    const payee = PAYEES[index % PAYEES.length];
+    const amount = 100 + ((index * 7919) % 900_000) / 100;
+    const kind = index % 20;
+    if (kind === 0) {
+      const first = Math.round(amount * 40) / 100;
+      statement.push(row(`S-${index}-a`, day, `${payee} deposit`, first));
+      statement.push(row(`S-${index}-b`, day + 1, `${payee} deposit`, Math.round((amount - first) * 100) / 100));
+      ledger.push(row(`L-${index}`, day, `${payee} receipts`, amount));
+    } else if (kind === 1) {
+      statement.push(row(`S-${index}`, day, `${payee} unidentified`, amount));
+    } else if (kind === 2) {
+      ledger.push(row(`L-${index}`, day, `${payee} accrual`, amount));
+    } else {
+      statement.push(row(`S-${index}`, day, `${payee} payment`, amount));
+      ledger.push(row(`L-${index}`, day + (kind < 5 ? 2 : 0), `${payee} payment`, amount));
+    }
+  }
+  return { statement, ledger };
+}
+
+const HEADER = "id,date,description,amount,type";
+
+describe("runPipeline at volume", () => {
+  it(
+    `reconciles ${ROWS.toLocaleString("en-US")} rows per side within ${TIME_LIMIT_MS / 1000}s`,
+    () => {
+      const { statement, ledger } = generate();
+      const progress: number[] = [];
+
+      const started = performance.now();
+      const { run } = runPipeline(
+        {
+          statementInput: [HEADER, ...statement].join("\n"),
+          ledgerInput: [HEADER, ...ledger].join("\n"),
+          config: DEFAULT_ENGINE_CONFIG,
+          matchingRules: [],
+          learnedRules: [],
+          fx: DEFAULT_FX_SETTINGS,
+        },
+        (stage, fraction) => progress.push(overallProgress(stage, fraction)),
+      );
+      const elapsed = performance.now() - started;
+
+      const placed =
+        run.matched.length * 2 +
+        run.aggregated.reduce((total, agg) => total + agg.statements.length + 1, 0) +
+        (run.groups ?? []).reduce((total, group) => total + group.statements.length + group.ledger.length, 0) +
+        run.unmatchedStatements.length +
+        run.unmatchedLedger.length;
+      expect(placed).toBe(statement.length + ledger.length);
+      expect(run.matched.length).toBeGreaterThan(ledger.length * 0.8);
+      expect(run.aggregated.length).toBeGreaterThan(0);
+      expect(progress.length).toBeGreaterThan(100);
+      expect(progress.every((fraction, index) => fraction >= (progress[index - 1] ?? 0))).toBe(true);
+      expect(progress.at(-1)).toBe(1);
+      expect(elapsed).toBeLessThan(TIME_LIMIT_MS);
+    },
+    TIME_LIMIT_MS * 2,
+  );
+});
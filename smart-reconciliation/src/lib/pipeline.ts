@@ -0,0 +1,168 @@
+import type { CarryForward } from "@/lib/carryForward";
+import {
+  applyCategoryOverrides,
+  categorise,
+  categoriseLedger,
+  reconcileByCategory,
+  type CategorisationSettings,
+  type CategoryOverrides,
+} from "@/lib/categorisation";
+import { parseCsv } from "@/lib/csv";
+import { applyExclusions, rowKey, type Exclusions } from "@/lib/dataQuality";
+import { BASE_CURRENCY, assignCurrencies, mergeFxStage, runFxStage, type FxSettings } from "@/lib/fx";
+import { findGroupMatches } from "@/lib/groupMatching";
+import {
+  applyLearnedAliases,
+  applyLearnedCategories,
+  citeLearnedRules,
+  type LearnedRule,
+  type LearnedRuleUse,
+} from "@/lib/learnedRules";
+import { normalizeDataset, parseAmount } from "@/lib/normalization";
+import { mergeRuleStage, runRuleStage, type MatchingRule, type RuleLogEntry } from "@/lib/ruleEngine";
+import type { EngineConfig, RawTransaction } from "@/lib/types";
+import type { EngineRun } from "@/lib/workbench";
+
+/** Everything a run needs, as plain data so it can be posted to the reconciliation worker. */
+export interface PipelineInput {
+  statementInput: string;
+  ledgerInput: string;
+  config: EngineConfig;
+  matchingRules: MatchingRule[];
+  learnedRules: LearnedRule[];
+  fx: FxSettings;
+  /** Rows the reviewer excluded in the Data Quality panel. */
+  exclusions?: Exclusions;
+  /** Open items from the previous closed period, added to the matching pool alongside this period's rows. */
+  carriedForward?: Pick<CarryForward, "statement" | "ledger"> | null;
+  /** Bank rules, chart of accounts and category-aware matching mode. */
+  categorisation?: CategorisationSettings;
+  /** Categories the reviewer set by hand in the exceptions list. */
+  categoryOverrides?: CategoryOverrides;
+}
+
+export interface PipelineResult {
+  run: EngineRun;
+  uses: LearnedRuleUse[];
+  log: RuleLogEntry[];
+}
+
+export type PipelineStage = "parsing" | "rules" | "matching" | "aggregation";
+
+export type PipelineProgress = (stage: PipelineStage, fraction: number) => void;
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+  parsing: "Parsing and normalising",
+  rules: "Applying matching rules",
+  matching: "FX, exact and fuzzy matching",
+  aggregation: "Searching for bundles",
+};
+
+const STAGES = Object.keys(PIPELINE_STAGE_LABELS) as PipelineStage[];
+
+/** Progress through the whole pipeline, counting each stage as an equal share. */
+export function overallProgress(stage: PipelineStage, fraction: number) {
+  return (STAGES.indexOf(stage) + Math.min(Math.max(fraction, 0), 1)) / STAGES.length;
+}
+
+/**
+ * Parses and normalises both sides, tagging each transaction with its currency. Shared with the data quality check,
+ * which lists the rows whose amount cannot be read, so those rows are kept here at zero.
+ */
+export function prepareDatasets(input: Pick<PipelineInput, "statementInput" | "ledgerInput" | "fx">) {
+  const statementRows = parseCsv(input.statementInput, "statement");
+  const ledgerRows = parseCsv(input.ledgerInput, "ledger");
+
+  if (statementRows.length === 0 || ledgerRows.length === 0) {
+    throw new Error("Please provide at least one row in both statement and ledger data.");
+  }
+
+  return {
+    statementRows,
+    ledgerRows,
+    statement: assignCurrencies(
+      normalizeDataset(statementRows, "statement", { allowMalformedAmounts: true }),
+      input.fx.statementCurrency,
+    ),
+    ledger: assignCurrencies(normalizeDataset(ledgerRows, "ledger", { allowMalformedAmounts: true }), BASE_CURRENCY),
+  };
+}
+
+/** Throws on the first row left in the pool whose amount cannot be read, so it is corrected or excluded, not zeroed. */
+function requireAmounts(rows: RawTransaction[], exclusions: string[], label: string) {
+  const excluded = new Set(exclusions);
+  rows.forEach((row, index) => {
+    if (excluded.has(rowKey(index))) return;
+    try {
+      parseAmount(row.amount);
+    } catch {
+      throw new Error(`${label} row ${row.id}: "${row.amount}" is not an amount. Correct it or exclude the row.`);
+    }
+  });
+}
+
+/** The rows that go to matching: this period's rows and carried-forward open items, less the reviewer's exclusions. */
+export function prepareMatchingPool(
+  input: Pick<PipelineInput, "statementInput" | "ledgerInput" | "fx" | "exclusions" | "carriedForward">,
+) {
+  const prepared = prepareDatasets(input);
+  const exclusions = input.exclusions ?? { statement: [], ledger: [] };
+  const carried = input.carriedForward ?? { statement: [], ledger: [] };
+  requireAmounts(prepared.statementRows, exclusions.statement, "Statement");
+  requireAmounts(prepared.ledgerRows, exclusions.ledger, "Ledger");
+  // Exclusions name rows of this period's imports, so carried-forward items join the pool afterwards.
+  const statement = applyExclusions(prepared.statement, exclusions.statement);
+  const ledger = applyExclusions(prepared.ledger, exclusions.ledger);
+  return {
+    statement: { ...statement, kept: [...statement.kept, ...carried.statement] },
+    ledger: { ...ledger, kept: [...ledger.kept, ...carried.ledger] },
+  };
+}
+
+/**
+ * The full matching pipeline: parse, normalise, carried-forward open items, exclusions, bank-rule and learned
+ * categories, category edits, user rules, FX conversion, learned aliases, the category-aware engine and group
+ * matching. Pure apart from progress reports, so it runs the same on the main thread and in the worker.
+ */
+export function runPipeline(input: PipelineInput, onProgress: PipelineProgress = () => {}): PipelineResult {
+  const { config } = input;
+  onProgress("parsing", 0);
+  const { statement, ledger } = prepareMatchingPool(input);
+  const overrides = input.categoryOverrides ?? { statement: {}, ledger: {} };
+  const bankRules = input.categorisation?.rules ?? [];
+  const categorised = applyLearnedCategories(categorise(statement.kept, bankRules), input.learnedRules);
+  const categorisedLedger = categoriseLedger(ledger.kept, bankRules, input.categorisation?.chart ?? []);
+
+  onProgress("rules", 0);
+  const ruleStage = runRuleStage(
+    applyCategoryOverrides(categorised.dataset, overrides.statement),
+    applyCategoryOverrides(categorisedLedger, overrides.ledger),
+    input.matchingRules,
+    config,
+  );
+
+  onProgress("matching", 0);
+  const fxStage = runFxStage(ruleStage.statement, ruleStage.ledger, input.fx, config);
+  const aliasStage = applyLearnedAliases(fxStage.statement, fxStage.ledger, input.learnedRules);
+  const reconciliation = citeLearnedRules(
+    reconcileByCategory(aliasStage.statement, aliasStage.ledger, config, input.categorisation, {
+      rejects: aliasStage.rejects,
+      onProgress: (fraction) => onProgress("matching", fraction),
+    }),
+    aliasStage,
+    categorised.applied,
+  );
+
+  onProgress("aggregation", 0);
+  const grouped = findGroupMatches(reconciliation.run, config, (fraction) => onProgress("aggregation", fraction));
+
+  return {
+    run: {
+      ...mergeRuleStage(ruleStage, mergeFxStage(fxStage, grouped)),
+      excluded: { statement: statement.excluded, ledger: ledger.excluded },
+      config,
+    },
+    uses: reconciliation.uses,
+    log: ruleStage.log,
+  };
+}
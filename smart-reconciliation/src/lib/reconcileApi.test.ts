@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { ReconcileDataError, ReconcileRequestError, parseReconcileRequest, reconcileRequest } from "@/lib/reconcileApi";
+
+const ledger = "id,date,description,amount,type\nL-1,2026-09-03,Invoice 4417,100.00,credit";
+
+describe("reconcileRequest errors", () => {
+  it("reports invalid fields as a request error", () => {
+    expect(() => reconcileRequest({ statement: "", ledger })).toThrow(ReconcileRequestError);
+  });
+
+  it("reports rows that cannot be normalised as a data error", () => {
+    const statement = "id,date,description,amount,type\nS-1,someday,Invoice 4417,100.00,credit";
+
+    expect(() => reconcileRequest({ statement, ledger })).toThrow(ReconcileDataError);
+  });
+});
+
+describe("parseReconcileRequest rules", () => {
+  const statement = "id,date,description,amount,type\nS-1,2026-09-03,INV 4417,100.00,credit";
+  const when = { statementDescription: "INV (\\d+)" };
+
+  function issuesFor(rules: unknown) {
+    try {
+      parseReconcileRequest({ statement, ledger, rules });
+    } catch (err) {
+      if (err instanceof ReconcileRequestError) return err.issues;
+      throw err;
+    }
+    return [];
+  }
+
+  it.each([
+    [{ name: "Invoice", priority: 1, when, action: { kind: "bogus" } }, /action kind must be one of/],
+    [{ name: "Invoice", priority: "1", when, action: { kind: "never-match" } }, /priority must be a number/],
+    [
+      { name: "Invoice", priority: 1, when: { statementDescription: 7 }, action: { kind: "never-match" } },
+      /must be text/,
+    ],
+    [{ name: "Invoice", priority: 1, when, action: { kind: "match", value: "$1" } }, /ledger field must be one of/],
+    [{ name: ["Invoice"], priority: 1, when, action: { kind: "never-match" } }, /Every rule needs a name/],
+  ])("names the problem with %j instead of failing on it", (rule, message) => {
+    const issues = issuesFor([rule]);
+
+    expect(issues).toEqual([{ path: "rules[0]", message: expect.stringMatching(message) }]);
+    expect(issues[0].message).not.toMatch(/TypeError|undefined|is not a function/);
+  });
+
+  it("keeps a valid rule and fills in its id", () => {
+    const { matchingRules } = parseReconcileRequest({
+      statement,
+      ledger,
+      rules: [{ name: "Invoice", priority: 1, when, action: { kind: "never-match" } }],
+    });
+
+    expect(matchingRules).toEqual([expect.objectContaining({ id: "rule-1", enabled: true, name: "Invoice" })]);
+  });
+});
@@ -0,0 +1,212 @@
+import { validateEngineConfig, type ConfigIssue } from "@/lib/engineConfig";
+import { DEFAULT_FX_SETTINGS, parseFxRates, type FxSettings } from "@/lib/fx";
+import { toCanonicalCsv, type CanonicalRow } from "@/lib/importMapping";
+import { runPipeline, type PipelineResult, type PipelineStage } from "@/lib/pipeline";
+import { validateMatchingRule, type MatchingRule, type RuleLogEntry } from "@/lib/ruleEngine";
+import type { EngineConfig } from "@/lib/types";
+import { applyManualDecisions, summarizeRun, type EngineRun, type RunStats } from "@/lib/workbench";
+
+/**
+ * Body of `POST /api/reconcile` and the CLI's inputs. Each side is either canonical CSV text
+ * (`id,date,description,amount,type`, optionally with `currency`, `bank_reference` and `value_date` columns) or an array
+ * of canonical rows.
+ */
+export interface ReconcileRequest {
+  statement: string | CanonicalRow[];
+  ledger: string | CanonicalRow[];
+  config?: Partial<EngineConfig>;
+  rules?: MatchingRule[];
+  fx?: { statementCurrency?: string; tolerance?: number; rates?: string };
+}
+
+export interface ReconcileResponse {
+  run: EngineRun;
+  summary: RunStats & { exceptions: number };
+  ruleLog: RuleLogEntry[];
+}
+
+export type ApiIssue = ConfigIssue;
+
+export type ApiErrorCode = "invalid_request" | "unsupported_media_type" | "unprocessable" | "internal";
+
+export interface ApiErrorBody {
+  error: { code: ApiErrorCode; message: string; issues?: ApiIssue[] };
+}
+
+/** A request that failed validation; `issues` names each offending field by its JSON path. */
+export class ReconcileRequestError extends Error {
+  readonly issues: ApiIssue[];
+
+  constructor(message: string, issues: ApiIssue[] = []) {
+    super(message);
+    this.name = "ReconcileRequestError";
+    this.issues = issues;
+  }
+}
+
+/** A valid request whose rows could not be parsed or normalised, such as an unreadable date or amount. */
+export class ReconcileDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReconcileDataError";
+  }
+}
+
+const ROW_FIELDS: (keyof CanonicalRow)[] = ["id", "date", "description", "amount", "type"];
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readSide(value: unknown, path: string, issues: ApiIssue[]) {
+  if (typeof value === "string") {
+    if (!value.trim()) issues.push({ path, message: "must not be empty" });
+    return value;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: "must be CSV text or an array of rows" });
+    return "";
+  }
+  if (value.length === 0) {
+    issues.push({ path, message: "must contain at least one row" });
+  }
+  const rows: CanonicalRow[] = [];
+  value.forEach((row: unknown, index) => {
+    if (!isRecord(row)) {
+      issues.push({ path: `${path}[${index}]`, message: "must be an object" });
+      return;
+    }
+    for (const field of ROW_FIELDS) {
+      const cell = row[field];
+      if (field === "amount" && typeof cell === "number") continue;
+      if (typeof cell !== "string" || (field !== "description" && !cell.trim())) {
+        issues.push({ path: `${path}[${index}].${field}`, message: "is required" });
+      }
+    }
+    if (row.type !== undefined && row.type !== "debit" && row.type !== "credit") {
+      issues.push({ path: `${path}[${index}].type`, message: 'must be "debit" or "credit"' });
+    }
+    rows.push({
+      id: String(row.id ?? ""),
+      date: String(row.date ?? ""),
+      description: String(row.description ?? ""),
+      amount: String(row.amount ?? ""),
+      type: row.type === "debit" ? "debit" : "credit",
+      currency: optionalText(row.currency)?.toUpperCase(),
+      bankReference: optionalText(row.bankReference),
+      valueDate: optionalText(row.valueDate),
+    });
+  });
+  return toCanonicalCsv(rows);
+}
+
+function readRules(value: unknown, issues: ApiIssue[]) {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path: "rules", message: "must be an array of matching rules" });
+    return [];
+  }
+  const rules: MatchingRule[] = [];
+  value.forEach((rule: unknown, index) => {
+    if (!isRecord(rule) || !isRecord(rule.when) || !isRecord(rule.action)) {
+      issues.push({ path: `rules[${index}]`, message: "needs a name, priority, when and action" });
+      return;
+    }
+    const candidate = {
+      ...rule,
+      id: typeof rule.id === "string" && rule.id ? rule.id : `rule-${index + 1}`,
+      enabled: rule.enabled !== false,
+    } as MatchingRule;
+    try {
+      validateMatchingRule(candidate);
+      rules.push(candidate);
+    } catch (err) {
+      issues.push({ path: `rules[${index}]`, message: err instanceof Error ? err.message : "is invalid" });
+    }
+  });
+  return rules;
+}
+
+function readFx(value: unknown, issues: ApiIssue[]): FxSettings {
+  if (value === undefined) return DEFAULT_FX_SETTINGS;
+  if (!isRecord(value)) {
+    issues.push({ path: "fx", message: "must be an object" });
+    return DEFAULT_FX_SETTINGS;
+  }
+  const settings = { ...DEFAULT_FX_SETTINGS };
+  if (value.statementCurrency !== undefined) {
+    if (typeof value.statementCurrency === "string" && /^[A-Za-z]{3}$/.test(value.statementCurrency)) {
+      settings.statementCurrency = value.statementCurrency.toUpperCase();
+    } else {
+      issues.push({ path: "fx.statementCurrency", message: "must be a three-letter ISO currency code" });
+    }
+  }
+  if (value.tolerance !== undefined) {
+    if (typeof value.tolerance === "number" && value.tolerance >= 0 && value.tolerance <= 0.2) {
+      settings.tolerance = value.tolerance;
+    } else {
+      issues.push({ path: "fx.tolerance", message: "must be a fraction between 0 and 0.2" });
+    }
+  }
+  if (value.rates !== undefined) {
+    try {
+      if (typeof value.rates !== "string") throw new Error("must be the CSV text of an FX rate table");
+      settings.rates = parseFxRates(value.rates);
+    } catch (err) {
+      issues.push({ path: "fx.rates", message: err instanceof Error ? err.message : "is invalid" });
+    }
+  }
+  return settings;
+}
+
+/** Validates a request body, throwing a `ReconcileRequestError` that lists every problem at once. */
+export function parseReconcileRequest(body: unknown) {
+  if (!isRecord(body)) {
+    throw new ReconcileRequestError("The request body must be a JSON object.");
+  }
+  const issues: ApiIssue[] = [];
+  const statementInput = readSide(body.statement, "statement", issues);
+  const ledgerInput = readSide(body.ledger, "ledger", issues);
+  const { config, issues: configIssues } = validateEngineConfig(body.config);
+  issues.push(...configIssues);
+  const matchingRules = readRules(body.rules, issues);
+  const fx = readFx(body.fx, issues);
+  if (issues.length > 0) {
+    throw new ReconcileRequestError(`The request has ${issues.length} invalid field(s).`, issues);
+  }
+  return { statementInput, ledgerInput, config, matchingRules, learnedRules: [], fx };
+}
+
+/**
+ * Runs a validated request through the same pipeline as the workspace. Learned rules live in the browser, so
+ * headless runs use only the rules sent with the request. Errors while parsing and normalising the rows describe the
+ * data and are rethrown as `ReconcileDataError`; anything that fails after that is a fault in the pipeline.
+ */
+export function reconcileRequest(body: unknown): ReconcileResponse {
+  const input = parseReconcileRequest(body);
+  let stage: PipelineStage = "parsing";
+  let result: PipelineResult;
+  try {
+    result = runPipeline(input, (current) => {
+      stage = current;
+    });
+  } catch (err) {
+    if (stage === "parsing" && err instanceof Error) throw new ReconcileDataError(err.message);
+    throw err;
+  }
+  const { run, log } = result;
+  const stats = summarizeRun(applyManualDecisions(run, []));
+  return {
+    run,
+    summary: { ...stats, exceptions: stats.unmatchedStatement + stats.unmatchedLedger },
+    ruleLog: log,
+  };
+}
+
+export function apiError(code: ApiErrorCode, message: string, issues?: ApiIssue[]): ApiErrorBody {
+  return { error: issues && issues.length > 0 ? { code, message, issues } : { code, message } };
+}
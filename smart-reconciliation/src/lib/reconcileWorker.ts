@@ -0,0 +1,86 @@
+import {
+  runPipeline,
+  type PipelineInput,
+  type PipelineProgress,
+  type PipelineResult,
+  type PipelineStage,
+} from "@/lib/pipeline";
+
+export type ReconcileWorkerMessage =
+  | { type: "progress"; stage: PipelineStage; fraction: number }
+  | { type: "done"; result: PipelineResult }
+  | { type: "error"; message: string };
+
+export interface ReconciliationTask {
+  promise: Promise<PipelineResult>;
+  /** Stops the worker; the promise rejects with a "cancelled" error. */
+  cancel: () => void;
+}
+
+export const CANCELLED_MESSAGE = "Reconciliation cancelled.";
+
+/**
+ * Runs the pipeline in a Web Worker so large files do not block the page. Where workers are unavailable the
+ * pipeline runs inline on the next tick, and cancelling only discards its result.
+ */
+export function startReconciliation(input: PipelineInput, onProgress: PipelineProgress): ReconciliationTask {
+  let settled = false;
+  let rejectTask: (reason: Error) => void = () => {};
+
+  if (typeof Worker === "undefined") {
+    const promise = new Promise<PipelineResult>((resolve, reject) => {
+      rejectTask = reject;
+      setTimeout(() => {
+        if (settled) return;
+        try {
+          resolve(runPipeline(input, onProgress));
+        } catch (err) {
+          reject(err);
+        } finally {
+          settled = true;
+        }
+      }, 0);
+    });
+    return {
+      promise,
+      cancel: () => {
+        if (settled) return;
+        settled = true;
+        rejectTask(new Error(CANCELLED_MESSAGE));
+      },
+    };
+  }
+
+  const worker = new Worker(new URL("../workers/reconcile.worker.ts", import.meta.url));
+  const finish = () => {
+    settled = true;
+    worker.terminate();
+  };
+  const promise = new Promise<PipelineResult>((resolve, reject) => {
+    rejectTask = reject;
+    worker.onmessage = (event: MessageEvent<ReconcileWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress(message.stage, message.fraction);
+        return;
+      }
+      finish();
+      if (message.type === "done") resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The reconciliation worker failed."));
+    };
+    worker.postMessage(input);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      finish();
+      rejectTask(new Error(CANCELLED_MESSAGE));
+    },
+  };
+}
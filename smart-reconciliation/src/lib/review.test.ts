@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { learnFromDecisions } from "@/lib/learnedRules";
+import { normalizeDataset } from "@/lib/normalization";
+import {
+  ALL_REVIEW_ITEMS,
+  buildReviewIndex,
+  bulkAcceptExact,
+  matchesReviewFilter,
+  reviewCompletion,
+  reviewKey,
+  validateReviewEntry,
+  type ReviewEntry,
+} from "@/lib/review";
+import { applyManualDecisions, type EngineRun } from "@/lib/workbench";
+
+function ruleMatchedRun(): EngineRun {
+  const [statement] = normalizeDataset(
+    [{ id: "S-1", date: "2026-09-07", description: "DEBIT ORDER 88213 INSURE", amount: "1450.00", type: "debit" }],
+    "statement",
+  );
+  const [ledger] = normalizeDataset(
+    [{ id: "L-1", date: "2026-09-07", description: "Insurance premium", amount: "1450.00", type: "debit" }],
+    "ledger",
+  );
+  return {
+    matched: [{ statement, ledger, score: 1, type: "rule", reasons: ["Matched by rule “Insurance” (priority 1)"] }],
+    aggregated: [],
+    unmatchedStatements: [],
+    unmatchedLedger: [],
+  };
+}
+
+describe("rule matches", () => {
+  it("are reviewed as their own kind and need a second person's approval", () => {
+    const key = reviewKey(["S-1"], ["L-1"]);
+    const run = applyManualDecisions(ruleMatchedRun(), []);
+    const accepted = buildReviewIndex(run, [
+      { id: "r-1", key, action: "accept", user: "Thandi", at: "2026-10-01T09:00:00Z" },
+    ]);
+
+    expect(accepted.get(key)?.kind).toBe("rule");
+    expect(bulkAcceptExact(buildReviewIndex(run, []), "Thandi", 0)).toEqual([]);
+    expect(reviewCompletion(accepted)).toMatchObject({ awaitingApproval: 1, complete: false });
+
+    const approved = buildReviewIndex(run, [
+      { id: "r-1", key, action: "accept", user: "Thandi", at: "2026-10-01T09:00:00Z" },
+      { id: "r-2", key, action: "approve", user: "Pieter", at: "2026-10-01T10:00:00Z" },
+    ]);
+    expect(reviewCompletion(approved).complete).toBe(true);
+  });
+
+  it("teach a rejected alias when unmatched", () => {
+    const rules = learnFromDecisions(
+      ruleMatchedRun(),
+      [{ kind: "unmatch", id: "d-1", statementIds: ["S-1"], ledgerIds: ["L-1"], decidedAt: "2026-10-01T09:00:00Z" }],
+      { period: "2026-09", sessionName: "September" },
+    );
+
+    expect(rules).toEqual([expect.objectContaining({ kind: "alias", polarity: "rejected" })]);
+  });
+});
+
+/** One match of each kind the engine and the bookkeeper make. */
+function mixedRun() {
+  const statements = normalizeDataset(
+    [
+      { id: "S-1", date: "2026-09-03", description: "Invoice 4417 Harbour Freight", amount: "100.00", type: "credit" },
+      { id: "S-2", date: "2026-09-05", description: "HARBOUR FRT 4420", amount: "250.00", type: "credit" },
+      { id: "S-3", date: "2026-09-08", description: "Metro part 1", amount: "300.00", type: "credit" },
+      { id: "S-4", date: "2026-09-09", description: "Metro part 2", amount: "200.00", type: "credit" },
+      { id: "S-5", date: "2026-09-10", description: "Batch deposit", amount: "900.00", type: "credit" },
+      { id: "S-6", date: "2026-09-12", description: "Cash deposit", amount: "75.00", type: "credit" },
+    ],
+    "statement",
+  );
+  const ledger = normalizeDataset(
+    [
+      { id: "L-1", date: "2026-09-03", description: "Invoice 4417 Harbour Freight", amount: "100.00", type: "credit" },
+      { id: "L-2", date: "2026-09-04", description: "Invoice 4420 Harbour Freight", amount: "250.00", type: "credit" },
+      { id: "L-3", date: "2026-09-08", description: "Metro Logistics", amount: "500.00", type: "credit" },
+      { id: "L-4", date: "2026-09-10", description: "Invoice 4430", amount: "400.00", type: "credit" },
+      { id: "L-5", date: "2026-09-10", description: "Invoice 4431", amount: "500.00", type: "credit" },
+      { id: "L-6", date: "2026-09-11", description: "Petty cash", amount: "75.00", type: "credit" },
+    ],
+    "ledger",
+  );
+  const engineRun: EngineRun = {
+    matched: [
+      { statement: statements[0], ledger: ledger[0], score: 1, type: "exact", reasons: [] },
+      { statement: statements[1], ledger: ledger[1], score: 0.86, type: "fuzzy", reasons: [] },
+    ],
+    aggregated: [
+      { ledger: ledger[2], statements: [statements[2], statements[3]], total: 500, difference: 0, reasons: [] },
+    ],
+    groups: [
+      {
+        id: "group-1",
+        direction: "one-to-many",
+        statements: [statements[4]],
+        ledger: [ledger[3], ledger[4]],
+        statementTotal: 900,
+        ledgerTotal: 900,
+        difference: 0,
+        reasons: [],
+      },
+    ],
+    unmatchedStatements: [statements[5]],
+    unmatchedLedger: [ledger[5]],
+  };
+  return applyManualDecisions(engineRun, [
+    { kind: "match", id: "d-1", statementIds: ["S-6"], ledgerIds: ["L-6"], decidedAt: "2026-10-01T08:00:00Z" },
+  ]);
+}
+
+const KEYS = {
+  exact: reviewKey(["S-1"], ["L-1"]),
+  fuzzy: reviewKey(["S-2"], ["L-2"]),
+  aggregated: reviewKey(["S-3", "S-4"], ["L-3"]),
+  group: reviewKey(["S-5"], ["L-4", "L-5"]),
+  manual: reviewKey(["S-6"], ["L-6"]),
+};
+
+function entry(key: string, action: ReviewEntry["action"], user: string): ReviewEntry {
+  return { id: `${key}-${action}`, key, action, user, at: "2026-10-01T09:00:00Z" };
+}
+
+describe("maker-checker review", () => {
+  it("lists every match, the bookkeeper's own included", () => {
+    const items = buildReviewIndex(mixedRun(), []);
+
+    expect([...items.values()].map((item) => [item.key, item.kind])).toEqual([
+      [KEYS.exact, "exact"],
+      [KEYS.fuzzy, "fuzzy"],
+      [KEYS.aggregated, "aggregated"],
+      [KEYS.group, "aggregated"],
+      [KEYS.manual, "manual"],
+    ]);
+    expect(reviewCompletion(items)).toMatchObject({ total: 5, awaitingApproval: 4, complete: false });
+  });
+
+  it.each([["fuzzy"], ["aggregated"], ["group"], ["manual"]] as const)(
+    "holds sign-off until a %s match is approved by a second person",
+    (kind) => {
+      const others = Object.values(KEYS).filter((key) => key !== KEYS[kind] && key !== KEYS.exact);
+      const settled = others.flatMap((key) => [entry(key, "accept", "Thandi"), entry(key, "approve", "Pieter")]);
+      const accepted = [...settled, entry(KEYS[kind], "accept", "Thandi")];
+
+      expect(reviewCompletion(buildReviewIndex(mixedRun(), accepted))).toMatchObject({
+        awaitingApproval: 1,
+        complete: false,
+      });
+      const approved = buildReviewIndex(mixedRun(), [...accepted, entry(KEYS[kind], "approve", "Pieter")]);
+      expect(approved.get(KEYS[kind])).toMatchObject({ state: "approved", acceptedBy: "Thandi", approvedBy: "Pieter" });
+      expect(reviewCompletion(approved).complete).toBe(true);
+    },
+  );
+
+  it("rejects an approval from the person who accepted the match", () => {
+    const item = buildReviewIndex(mixedRun(), [entry(KEYS.manual, "accept", "Thandi")]).get(KEYS.manual)!;
+
+    expect(() => validateReviewEntry(item, { action: "approve", user: " thandi " })).toThrow(
+      "Thandi accepted this match, so someone else has to approve it.",
+    );
+    expect(() => validateReviewEntry(item, { action: "approve", user: "Pieter" })).not.toThrow();
+  });
+
+  it("filters by kind, state and score band", () => {
+    const items = [...buildReviewIndex(mixedRun(), [entry(KEYS.fuzzy, "accept", "Thandi")]).values()];
+    const keys = (filter: Partial<typeof ALL_REVIEW_ITEMS>) =>
+      items.filter((item) => matchesReviewFilter(item, { ...ALL_REVIEW_ITEMS, ...filter })).map((item) => item.key);
+
+    expect(keys({})).toHaveLength(5);
+    expect(keys({ kind: "manual" })).toEqual([KEYS.manual]);
+    expect(keys({ kind: "aggregated" })).toEqual([KEYS.aggregated, KEYS.group]);
+    expect(keys({ state: "accepted" })).toEqual([KEYS.fuzzy]);
+    expect(keys({ band: "high" })).toEqual([KEYS.exact]);
+    expect(keys({ band: "medium" })).toEqual([KEYS.fuzzy]);
+    expect(keys({ band: "low" })).toEqual([]);
+    expect(keys({ kind: "exact", state: "accepted" })).toEqual([]);
+  });
+});
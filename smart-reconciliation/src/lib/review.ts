@@ -0,0 +1,209 @@
+import type { MatchResult } from "@/lib/types";
+import type { WorkbenchRun } from "@/lib/workbench";
+
+export type ReviewState = "suggested" | "accepted" | "rejected" | "approved";
+export type ReviewAction = "accept" | "reject" | "approve" | "comment";
+export type ReviewKind = MatchResult["type"] | "aggregated" | "manual";
+
+export const REVIEW_STATES: { state: ReviewState; label: string }[] = [
+  { state: "suggested", label: "Suggested" },
+  { state: "accepted", label: "Accepted" },
+  { state: "rejected", label: "Rejected" },
+  { state: "approved", label: "Approved" },
+];
+
+export const SCORE_BANDS = [
+  { band: "high", label: "95% and above", min: 0.95, max: Infinity },
+  { band: "medium", label: "80–95%", min: 0.8, max: 0.95 },
+  { band: "low", label: "Below 80%", min: 0, max: 0.8 },
+] as const;
+
+export type ScoreBand = (typeof SCORE_BANDS)[number]["band"];
+
+/** One step in a match's review. The log is append-only, like the manual decisions, and replays onto any run. */
+export interface ReviewEntry {
+  id: string;
+  /** The match's statement and ledger ids, so the entry follows the pairing across re-runs. */
+  key: string;
+  action: ReviewAction;
+  user: string;
+  text?: string;
+  at: string;
+}
+
+export interface ReviewItem {
+  key: string;
+  kind: ReviewKind;
+  /** The engine's score; aggregations and manual matches have none. */
+  score: number | null;
+  label: string;
+  state: ReviewState;
+  acceptedBy: string | null;
+  approvedBy: string | null;
+  comments: ReviewEntry[];
+}
+
+export interface ReviewCompletion {
+  total: number;
+  /** Fuzzy, rule, aggregated and manual matches still waiting for a second person's approval. */
+  awaitingApproval: number;
+  rejected: number;
+  complete: boolean;
+}
+
+export interface ReviewFilter {
+  kind: ReviewKind | "all";
+  state: ReviewState | "all";
+  band: ScoreBand | "all";
+}
+
+export const ALL_REVIEW_ITEMS: ReviewFilter = { kind: "all", state: "all", band: "all" };
+
+const REVIEWER_STORAGE_KEY = "smart-reconciliation:reviewer";
+
+export function createReviewEntryId() {
+  return `review-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function reviewKey(statementIds: string[], ledgerIds: string[]) {
+  return `${statementIds.join("+")} ⇄ ${ledgerIds.join("+")}`;
+}
+
+/** Every match in review order: one-to-one matches, then aggregations, group matches and the bookkeeper's own. */
+function reviewableMatches(run: Pick<WorkbenchRun, "matched" | "aggregated" | "groups" | "manual">) {
+  return [
+    ...run.matched.map((match) => ({
+      key: reviewKey([match.statement.id], [match.ledger.id]),
+      kind: match.type,
+      score: match.score,
+      label: `${match.statement.description} ⇄ ${match.ledger.description}`,
+    })),
+    ...run.aggregated.map((agg) => ({
+      key: reviewKey(
+        agg.statements.map((tx) => tx.id),
+        [agg.ledger.id],
+      ),
+      kind: "aggregated" as const,
+      score: null,
+      label: `${agg.statements.length} statement lines ⇄ ${agg.ledger.description}`,
+    })),
+    ...run.groups.map((group) => ({
+      key: reviewKey(
+        group.statements.map((tx) => tx.id),
+        group.ledger.map((tx) => tx.id),
+      ),
+      kind: "aggregated" as const,
+      score: null,
+      label: `${group.statements.length} statement lines ⇄ ${group.ledger.length} ledger entries`,
+    })),
+    ...run.manual.map((match) => ({
+      key: reviewKey(
+        match.statements.map((tx) => tx.id),
+        match.ledger.map((tx) => tx.id),
+      ),
+      kind: "manual" as const,
+      score: null,
+      label: `${match.statements.length} statement lines ⇄ ${match.ledger.length} ledger entries`,
+    })),
+  ];
+}
+
+function nextState(item: ReviewItem, entry: ReviewEntry): ReviewItem {
+  if (entry.action === "comment") {
+    return { ...item, comments: [...item.comments, entry] };
+  }
+  if (entry.action === "accept") {
+    return { ...item, state: "accepted", acceptedBy: entry.user, approvedBy: null };
+  }
+  if (entry.action === "reject") {
+    return { ...item, state: "rejected", acceptedBy: null, approvedBy: null };
+  }
+  return { ...item, state: "approved", approvedBy: entry.user };
+}
+
+/**
+ * Throws when `entry` is not a valid next step for `item`: matches are accepted or rejected first, only accepted
+ * matches can be approved, approval must come from someone other than the acceptor, and approved matches are final.
+ */
+export function validateReviewEntry(item: ReviewItem, entry: Pick<ReviewEntry, "action" | "user" | "text">) {
+  if (!entry.user.trim()) {
+    throw new Error("Enter your name before reviewing matches.");
+  }
+  if (entry.action === "comment") {
+    if (!entry.text?.trim()) throw new Error("A comment cannot be empty.");
+    return;
+  }
+  if (item.state === "approved") {
+    throw new Error(`Already approved by ${item.approvedBy}.`);
+  }
+  if (entry.action === "accept" && item.state === "accepted") {
+    throw new Error(`Already accepted by ${item.acceptedBy}.`);
+  }
+  if (entry.action === "reject" && item.state === "rejected") {
+    throw new Error("Already rejected.");
+  }
+  if (entry.action === "approve") {
+    if (item.state !== "accepted") {
+      throw new Error("Only accepted matches can be approved.");
+    }
+    if (item.acceptedBy?.toLowerCase() === entry.user.trim().toLowerCase()) {
+      throw new Error(`${item.acceptedBy} accepted this match, so someone else has to approve it.`);
+    }
+  }
+}
+
+/**
+ * Replays the review log onto the run's matches. Entries for pairings the run no longer has, e.g. after an unmatch
+ * or a re-run with other settings, are kept in the log but do not show.
+ */
+export function buildReviewIndex(
+  run: Pick<WorkbenchRun, "matched" | "aggregated" | "groups" | "manual">,
+  log: ReviewEntry[],
+) {
+  const items = new Map<string, ReviewItem>();
+  for (const match of reviewableMatches(run)) {
+    items.set(match.key, { ...match, state: "suggested", acceptedBy: null, approvedBy: null, comments: [] });
+  }
+  for (const entry of log) {
+    const item = items.get(entry.key);
+    if (item) items.set(entry.key, nextState(item, entry));
+  }
+  return items;
+}
+
+export function matchesReviewFilter(item: ReviewItem, filter: ReviewFilter) {
+  if (filter.kind !== "all" && item.kind !== filter.kind) return false;
+  if (filter.state !== "all" && item.state !== filter.state) return false;
+  if (filter.band === "all") return true;
+  const band = SCORE_BANDS.find((entry) => entry.band === filter.band);
+  return item.score !== null && !!band && item.score >= band.min && item.score < band.max;
+}
+
+export function reviewCompletion(items: Map<string, ReviewItem>): ReviewCompletion {
+  const all = [...items.values()];
+  const awaitingApproval = all.filter(
+    (item) => item.kind !== "exact" && (item.state === "suggested" || item.state === "accepted"),
+  ).length;
+  const rejected = all.filter((item) => item.state === "rejected").length;
+  return { total: all.length, awaitingApproval, rejected, complete: awaitingApproval === 0 && rejected === 0 };
+}
+
+/** Entries accepting every still-suggested exact match scoring at least `minScore` (0–1). */
+export function bulkAcceptExact(items: Map<string, ReviewItem>, user: string, minScore: number): ReviewEntry[] {
+  if (!user.trim()) {
+    throw new Error("Enter your name before reviewing matches.");
+  }
+  const at = new Date().toISOString();
+  return [...items.values()]
+    .filter((item) => item.kind === "exact" && item.state === "suggested" && (item.score ?? 0) >= minScore)
+    .map((item) => ({ id: createReviewEntryId(), key: item.key, action: "accept", user: user.trim(), at }));
+}
+
+export function loadReviewer() {
+  if (typeof window === "undefined") return "";
+  return window.localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "";
+}
+
+export function saveReviewer(name: string) {
+  window.localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createMatchingRule, parseMatchingRules, validateMatchingRule, type MatchingRule } from "@/lib/ruleEngine";
+
+function rule(overrides: Record<string, unknown>): MatchingRule {
+  return {
+    ...createMatchingRule(1),
+    name: "Invoice reference",
+    when: { statementDescription: "INV (\\d+)" },
+    ...overrides,
+  } as MatchingRule;
+}
+
+function matchAction(overrides: Record<string, unknown>) {
+  return { action: { ...createMatchingRule(1).action, ...overrides } };
+}
+
+describe("validateMatchingRule", () => {
+  it("accepts a complete rule of each kind", () => {
+    expect(() => validateMatchingRule(rule({}))).not.toThrow();
+    expect(() => validateMatchingRule(rule({ action: { kind: "never-match" } }))).not.toThrow();
+    expect(() => validateMatchingRule(rule({ action: { kind: "date-tolerance", days: 7 } }))).not.toThrow();
+  });
+
+  it.each([
+    [{ action: { kind: "bogus" } }, /action kind must be one of match, never-match, date-tolerance/],
+    [{ name: undefined }, /Every rule needs a name/],
+    [{ name: 42 }, /Every rule needs a name/],
+    [{ when: { statementDescription: 7 } }, /when\.statementDescription must be text/],
+    [{ when: { category: "Rent", sign: "both" } }, /when\.sign must be debit or credit/],
+    [matchAction({ ledgerField: "amount" }), /ledger field must be one of id, description, category/],
+    [matchAction({ value: undefined }), /enter the value the ledger id must match/],
+    [matchAction({ score: "1" }), /score must be between 0 and 1/],
+    [{ action: { kind: "date-tolerance", days: Infinity } }, /date tolerance must be zero or more days/],
+    [{ action: { kind: "date-tolerance" } }, /date tolerance must be zero or more days/],
+  ])("rejects %j with a message naming the field", (overrides, message) => {
+    expect(() => validateMatchingRule(rule(overrides))).toThrow(message);
+  });
+});
+
+describe("parseMatchingRules", () => {
+  it("rejects an imported rule with an unknown action instead of treating it as a date tolerance", () => {
+    const text = JSON.stringify([
+      { name: "Salary", priority: 1, when: { statementDescription: "Salary" }, action: { kind: "bogus" } },
+    ]);
+
+    expect(() => parseMatchingRules(text)).toThrow(/action kind must be one of/);
+  });
+});
@@ -0,0 +1,333 @@
+import { createCandidateIndex } from "@/lib/candidateIndex";
+import type { EngineConfig } from "@/lib/types";
+import type { EngineMatch, EngineRun, Transaction } from "@/lib/workbench";
+
+export type LedgerField = "id" | "description" | "category";
+
+/** Conditions a statement line (and, optionally, its ledger candidate) must meet for a rule to apply. */
+export interface RuleCondition {
+  /** Regular expression source tested against the statement description; its captures feed `$1`, `$2`… */
+  statementDescription?: string;
+  /** Regular expression source tested against the ledger description. */
+  ledgerDescription?: string;
+  /** Category name compared case-insensitively with either side's category. */
+  category?: string;
+  sign?: "debit" | "credit";
+}
+
+export type RuleAction =
+  | {
+      kind: "match";
+      /** Ledger field compared with `value` once `$n` placeholders are replaced by the statement captures. */
+      ledgerField: LedgerField;
+      comparison: "equals" | "contains";
+      value: string;
+      requireAmount: boolean;
+      score: number;
+    }
+  | { kind: "never-match" }
+  | { kind: "date-tolerance"; days: number };
+
+/** A user-defined deterministic rule. Plain data, so rules can be stored and exchanged as JSON. */
+export interface MatchingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Lower numbers run first; the first rule that pairs or holds a transaction wins. */
+  priority: number;
+  when: RuleCondition;
+  action: RuleAction;
+}
+
+export interface RuleLogEntry {
+  ruleId: string;
+  ruleName: string;
+  message: string;
+}
+
+export interface RuleStageResult<T extends Transaction> {
+  matched: EngineMatch[];
+  /** Transactions left for the engine. */
+  statement: T[];
+  ledger: T[];
+  /** Transactions a never-match rule keeps out of automatic matching. */
+  heldStatements: T[];
+  heldLedger: T[];
+  log: RuleLogEntry[];
+}
+
+export const RULE_ACTION_LABELS: Record<RuleAction["kind"], string> = {
+  match: "Match on captured reference",
+  "never-match": "Never auto-match",
+  "date-tolerance": "Widen date tolerance",
+};
+
+const RULE_ACTION_KINDS = Object.keys(RULE_ACTION_LABELS) as RuleAction["kind"][];
+const LEDGER_FIELDS: LedgerField[] = ["id", "description", "category"];
+const COMPARISONS = ["equals", "contains"];
+const CONDITION_TEXT_FIELDS = ["statementDescription", "ledgerDescription", "category"] as const;
+
+const RULE_STORAGE_KEY = "smart-reconciliation:matching-rules";
+
+export function createMatchingRuleId() {
+  return `match-rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createMatchingRule(priority: number): MatchingRule {
+  return {
+    id: createMatchingRuleId(),
+    name: "New rule",
+    enabled: true,
+    priority,
+    when: { statementDescription: "" },
+    action: { kind: "match", ledgerField: "id", comparison: "equals", value: "$1", requireAmount: true, score: 1 },
+  };
+}
+
+function compile(source: string | undefined, label: string) {
+  if (!source) return null;
+  try {
+    return new RegExp(source, "i");
+  } catch (err) {
+    throw new Error(`${label} is not a valid regular expression: ${err instanceof Error ? err.message : source}`);
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Checks a rule before it is saved, throwing a message that names the offending field. Rules also arrive as JSON from
+ * imports, profiles and the API, so the shape is checked as well as the values.
+ */
+export function validateMatchingRule(rule: MatchingRule) {
+  if (typeof rule.name !== "string" || !rule.name.trim()) {
+    throw new Error("Every rule needs a name.");
+  }
+  if (!isFiniteNumber(rule.priority)) {
+    throw new Error(`Rule "${rule.name}": priority must be a number.`);
+  }
+  const { when, action } = rule;
+  if (!when || typeof when !== "object") {
+    throw new Error(`Rule "${rule.name}": add the conditions the rule applies under.`);
+  }
+  for (const field of CONDITION_TEXT_FIELDS) {
+    if (when[field] !== undefined && typeof when[field] !== "string") {
+      throw new Error(`Rule "${rule.name}": when.${field} must be text.`);
+    }
+  }
+  if (when.sign !== undefined && when.sign !== "debit" && when.sign !== "credit") {
+    throw new Error(`Rule "${rule.name}": when.sign must be debit or credit.`);
+  }
+  compile(when.statementDescription, `Rule "${rule.name}": statement pattern`);
+  compile(when.ledgerDescription, `Rule "${rule.name}": ledger pattern`);
+  if (!action || typeof action !== "object" || !RULE_ACTION_KINDS.includes(action.kind)) {
+    throw new Error(`Rule "${rule.name}": action kind must be one of ${RULE_ACTION_KINDS.join(", ")}.`);
+  }
+  if (action.kind === "match") {
+    if (!LEDGER_FIELDS.includes(action.ledgerField)) {
+      throw new Error(`Rule "${rule.name}": ledger field must be one of ${LEDGER_FIELDS.join(", ")}.`);
+    }
+    if (!COMPARISONS.includes(action.comparison)) {
+      throw new Error(`Rule "${rule.name}": comparison must be one of ${COMPARISONS.join(", ")}.`);
+    }
+    if (typeof action.value !== "string" || !action.value.trim()) {
+      throw new Error(`Rule "${rule.name}": enter the value the ledger ${action.ledgerField} must match.`);
+    }
+    if (typeof action.requireAmount !== "boolean") {
+      throw new Error(`Rule "${rule.name}": requireAmount must be true or false.`);
+    }
+    if (!isFiniteNumber(action.score) || !(action.score > 0 && action.score <= 1)) {
+      throw new Error(`Rule "${rule.name}": score must be between 0 and 1.`);
+    }
+  }
+  if (action.kind === "date-tolerance" && !(isFiniteNumber(action.days) && action.days >= 0)) {
+    throw new Error(`Rule "${rule.name}": date tolerance must be zero or more days.`);
+  }
+  if (!when.statementDescription && !when.category) {
+    throw new Error(`Rule "${rule.name}": add a statement pattern or category so the rule does not catch everything.`);
+  }
+}
+
+/** Parses rules exchanged as JSON, validating each one. */
+export function parseMatchingRules(text: string): MatchingRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Rules must be valid JSON.");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("Rules must be a JSON array.");
+  }
+  const rules = parsed as MatchingRule[];
+  for (const rule of rules) {
+    if (!rule || typeof rule !== "object" || !rule.when || !rule.action) {
+      throw new Error("Each rule needs a name, priority, when and action.");
+    }
+    validateMatchingRule(rule);
+  }
+  return rules.map((rule) => ({ ...rule, id: rule.id || createMatchingRuleId(), enabled: rule.enabled !== false }));
+}
+
+export function loadMatchingRules(): MatchingRule[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(RULE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as MatchingRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMatchingRules(rules: MatchingRule[]) {
+  rules.forEach(validateMatchingRule);
+  const next = [...rules].sort((a, b) => a.priority - b.priority);
+  window.localStorage.setItem(RULE_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
+
+function sameCategory(tx: Transaction, category: string) {
+  return tx.category.trim().toLowerCase() === category.trim().toLowerCase();
+}
+
+function expand(template: string, captures: RegExpExecArray) {
+  return template.replace(/\$(\d)/g, (_, index: string) => captures[Number(index)] ?? "");
+}
+
+function daysBetween(left: string, right: string) {
+  return Math.abs(Date.parse(left) - Date.parse(right)) / 86_400_000;
+}
+
+/**
+ * Deterministic rule stage that runs ahead of `reconcileTransactions`. Enabled rules are tried in priority order:
+ * never-match rules hold transactions back from every automatic stage, match rules pair a statement line with the
+ * ledger entry whose field equals (or contains) the captured reference, and date-tolerance rules pair within a
+ * wider date window. The winning rule is cited in the match's `reasons`.
+ */
+export function runRuleStage<T extends Transaction>(
+  statement: T[],
+  ledger: T[],
+  rules: MatchingRule[],
+  config: EngineConfig,
+): RuleStageResult<T> {
+  const active = rules.filter((rule) => rule.enabled).sort((a, b) => a.priority - b.priority);
+  const result: RuleStageResult<T> = {
+    matched: [],
+    statement: [],
+    ledger: [...ledger],
+    heldStatements: [],
+    heldLedger: [],
+    log: [],
+  };
+  if (active.length === 0) {
+    return { ...result, statement: [...statement] };
+  }
+
+  const compiled = active.map((rule) => ({
+    rule,
+    statementPattern: compile(rule.when.statementDescription, rule.name),
+    ledgerPattern: compile(rule.when.ledgerDescription, rule.name),
+  }));
+
+  for (const { rule } of compiled) {
+    if (rule.action.kind !== "never-match" || !rule.when.category) continue;
+    const category = rule.when.category;
+    const held = result.ledger.filter((tx) => sameCategory(tx, category));
+    if (held.length === 0) continue;
+    const heldSet = new Set(held);
+    result.heldLedger.push(...held);
+    result.ledger = result.ledger.filter((tx) => !heldSet.has(tx));
+    result.log.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      message: `${held.length} ledger entries in category “${category}” held for manual review`,
+    });
+  }
+
+  const ledgerIndex = createCandidateIndex(result.ledger);
+
+  for (const tx of statement) {
+    let outcome: "matched" | "held" | null = null;
+
+    for (const { rule, statementPattern, ledgerPattern } of compiled) {
+      if (rule.when.sign && rule.when.sign !== tx.sign) continue;
+      if (rule.when.category && rule.action.kind !== "never-match" && !sameCategory(tx, rule.when.category)) continue;
+      const captures = statementPattern ? statementPattern.exec(tx.description) : null;
+      if (statementPattern && !captures) continue;
+      const action = rule.action;
+
+      if (action.kind === "never-match") {
+        if (rule.when.category && !sameCategory(tx, rule.when.category)) continue;
+        result.heldStatements.push(tx);
+        result.log.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          message: `${tx.description} held for manual review`,
+        });
+        outcome = "held";
+        break;
+      }
+
+      // Amount-bound actions only look at the index's candidates; a reference match without an amount check has to
+      // scan the open ledger.
+      const candidates = (
+        action.kind === "date-tolerance" || action.requireAmount
+          ? ledgerIndex.byAmount(
+              tx.amount,
+              tx.sign,
+              config.amountTolerance,
+              tx.normalizedDate,
+              action.kind === "date-tolerance" ? action.days : Infinity,
+            )
+          : result.ledger.filter(ledgerIndex.isOpen)
+      ).filter((entry) => !ledgerPattern || ledgerPattern.test(entry.description));
+      let winner: T | undefined;
+      let reason = "";
+
+      if (action.kind === "match") {
+        const expected = captures ? expand(action.value, captures) : action.value;
+        winner = candidates.find((entry) => {
+          const actual = String(entry[action.ledgerField] ?? "").toLowerCase();
+          const target = expected.toLowerCase();
+          return action.comparison === "equals" ? actual === target : actual.includes(target);
+        });
+        reason = `ledger ${action.ledgerField} ${action.comparison === "equals" ? "equals" : "contains"} “${expected}”`;
+      } else {
+        winner = [...candidates].sort(
+          (a, b) => daysBetween(tx.normalizedDate, a.normalizedDate) - daysBetween(tx.normalizedDate, b.normalizedDate),
+        )[0];
+        reason = `amount agrees within ${action.days} days date tolerance`;
+      }
+      if (!winner) continue;
+
+      const score = action.kind === "match" ? action.score : 1;
+      result.matched.push({
+        statement: tx,
+        ledger: winner,
+        score,
+        type: "rule",
+        reasons: [`Matched by rule “${rule.name}” (priority ${rule.priority}): ${reason}`],
+      });
+      ledgerIndex.remove(winner);
+      result.log.push({ ruleId: rule.id, ruleName: rule.name, message: `${tx.description} ↔ ${winner.description}` });
+      outcome = "matched";
+      break;
+    }
+
+    if (!outcome) result.statement.push(tx);
+  }
+
+  return { ...result, ledger: result.ledger.filter(ledgerIndex.isOpen) };
+}
+
+/** Folds the rule stage back into the engine's run: rule matches first, held transactions as exceptions. */
+export function mergeRuleStage<T extends Transaction>(stage: RuleStageResult<T>, run: EngineRun): EngineRun {
+  return {
+    ...run,
+    matched: [...stage.matched, ...run.matched],
+    unmatchedStatements: [...run.unmatchedStatements, ...stage.heldStatements],
+    unmatchedLedger: [...run.unmatchedLedger, ...stage.heldLedger],
+  };
+}
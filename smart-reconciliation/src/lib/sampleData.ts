@@ -0,0 +1,31 @@
+/** A month of bank statement lines with the usual noise: trace numbers, split deposits and bank-only charges. */
+export const sampleStatementCsv = `id,date,description,amount,type
+S-001,2026-09-01,Rent September Office Park,18500.00,debit
+S-002,2026-09-02,Acme Trading Customer Deposit INV 1042,12450.00,credit
+S-003,2026-09-03,POS 4481230099 Makro Wholesale,3287.45,debit
+S-004,2026-09-04,Card settlement Speedpoint 1/2,6200.00,credit
+S-005,2026-09-05,Card settlement Speedpoint 2/2,4815.50,credit
+S-006,2026-09-08,Eskom Electricity 9920011,2140.80,debit
+S-007,2026-09-10,Salaries September payroll,64300.00,debit
+S-008,2026-09-12,Greenfield Supplies Supplier Payment,8750.00,debit
+S-009,2026-09-15,SARS VAT201 payment,15420.00,debit
+S-010,2026-09-18,Bluewave Consulting Customer Deposit,22000.00,credit
+S-011,2026-09-22,Monthly account fee,185.00,debit
+S-012,2026-09-25,City of Johannesburg Water Municipal,1260.35,debit
+S-013,2026-09-28,Interest on credit balance,42.17,credit
+S-014,2026-09-29,Transfer to Savings,10000.00,debit`;
+
+/** The same month as booked in the general ledger. */
+export const sampleLedgerCsv = `id,date,description,amount,type
+L-101,2026-09-01,Rent September Office Park,18500.00,debit
+L-102,2026-09-01,Acme Trading Customer Deposit INV-1042,12450.00,credit
+L-103,2026-09-03,Makro Wholesale purchases,3287.45,debit
+L-104,2026-09-05,Card settlements week 36,11015.50,credit
+L-105,2026-09-07,Eskom Electricity,2140.80,debit
+L-106,2026-09-10,Salaries September payroll,64300.00,debit
+L-107,2026-09-11,Greenfield Supplies supplier payment,8750.00,debit
+L-108,2026-09-15,SARS VAT 201 payment,15420.00,debit
+L-109,2026-09-17,Bluewave Consulting customer receipt,22000.00,credit
+L-110,2026-09-24,City of Joburg Water and Municipal,1260.35,debit
+L-111,2026-09-29,Transfer to Savings,10000.00,debit
+L-112,2026-09-30,Cheque 000418 Office Cleaning Co,2350.00,debit`;
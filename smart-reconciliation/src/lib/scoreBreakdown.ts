@@ -0,0 +1,179 @@
+import { createCandidateIndex } from "@/lib/candidateIndex";
+import { formatCurrency } from "@/lib/format";
+import { SCORE_WEIGHTS, SIMILARITY_ALGORITHM, scorePair } from "@/lib/matching";
+import type { EngineConfig, MatchResult } from "@/lib/types";
+import type { Transaction, WorkbenchRun } from "@/lib/workbench";
+
+/** Window, in days, searched for near-miss candidates. */
+const NEAR_MISS_WINDOW_DAYS = 31;
+const NEAR_MISS_POOL = 25;
+
+export interface ScoreComponent {
+  /** Signal strength between 0 and 1. */
+  score: number;
+  weight: number;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ScoreBreakdown {
+  amountDelta: number;
+  dateDeltaDays: number;
+  similarity: number;
+  algorithm: string;
+  /** Similarity minus `descriptionThreshold`: how near the description came to the fuzzy threshold. */
+  thresholdMargin: number;
+  sameSign: boolean;
+  components: Record<keyof typeof SCORE_WEIGHTS, ScoreComponent>;
+  weighted: number;
+  /** `engine` when the signals are the ones the engine reported on the match, `recomputed` otherwise. */
+  source: "engine" | "recomputed";
+}
+
+export interface NearMiss {
+  candidate: Transaction;
+  breakdown: ScoreBreakdown;
+  /** Why the pair was not matched, most decisive first. */
+  failures: string[];
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * The signals behind a pairing, set against the run's tolerances so reviewers can see how close each one came. A
+ * `match` from the engine's exact or fuzzy pass brings its own component scores; any other pair is scored with the
+ * engine's `scorePair`, so the figures are the ones the engine would have used.
+ */
+export function explainScore(
+  statement: Transaction,
+  ledger: Transaction,
+  config: EngineConfig,
+  match?: Pick<MatchResult, "score" | "components">,
+): ScoreBreakdown {
+  const pair = scorePair(statement, ledger);
+  const signals = match?.components ?? pair.components;
+  const { amountDelta, dateDeltaDays } = pair;
+
+  const components = {
+    amount: {
+      score: signals.amount,
+      weight: SCORE_WEIGHTS.amount,
+      passed: amountDelta <= config.amountTolerance,
+      detail: `differs by ${formatCurrency(amountDelta)} (tolerance ${formatCurrency(config.amountTolerance)})`,
+    },
+    date: {
+      score: signals.date,
+      weight: SCORE_WEIGHTS.date,
+      passed: dateDeltaDays <= config.dateToleranceDays,
+      detail: `${dateDeltaDays} day(s) apart (tolerance ${config.dateToleranceDays})`,
+    },
+    description: {
+      score: signals.description,
+      weight: SCORE_WEIGHTS.description,
+      passed: signals.description >= config.descriptionThreshold,
+      detail: `${percent(signals.description)} similar (threshold ${percent(config.descriptionThreshold)})`,
+    },
+  };
+
+  return {
+    amountDelta,
+    dateDeltaDays,
+    similarity: signals.description,
+    algorithm: SIMILARITY_ALGORITHM,
+    thresholdMargin: signals.description - config.descriptionThreshold,
+    sameSign: statement.sign === ledger.sign,
+    components,
+    weighted: match?.components ? match.score : pair.score,
+    source: match?.components ? "engine" : "recomputed",
+  };
+}
+
+/** Where each transaction already sits in the run, so a near miss can say what took its candidate. */
+function placements(run: WorkbenchRun) {
+  const placed = new Map<string, string>();
+  for (const match of run.matched) {
+    placed.set(`statement:${match.statement.id}`, `matched to ${match.ledger.description} (${match.type})`);
+    placed.set(`ledger:${match.ledger.id}`, `matched to ${match.statement.description} (${match.type})`);
+  }
+  for (const agg of run.aggregated) {
+    placed.set(`ledger:${agg.ledger.id}`, "settled by an aggregation");
+    for (const tx of agg.statements) placed.set(`statement:${tx.id}`, "part of an aggregation");
+  }
+  for (const group of run.groups) {
+    for (const tx of group.statements) placed.set(`statement:${tx.id}`, "part of a grouped match");
+    for (const tx of group.ledger) placed.set(`ledger:${tx.id}`, "part of a grouped match");
+  }
+  for (const match of run.manual) {
+    for (const tx of match.statements) placed.set(`statement:${tx.id}`, "manually matched");
+    for (const tx of match.ledger) placed.set(`ledger:${tx.id}`, "manually matched");
+  }
+  return placed;
+}
+
+function allTransactions(run: WorkbenchRun, side: "statement" | "ledger") {
+  if (side === "statement") {
+    return [
+      ...run.unmatchedStatements,
+      ...run.matched.map((match) => match.statement),
+      ...run.aggregated.flatMap((agg) => agg.statements),
+      ...run.groups.flatMap((group) => group.statements),
+      ...run.manual.flatMap((match) => match.statements),
+    ];
+  }
+  return [
+    ...run.unmatchedLedger,
+    ...run.matched.map((match) => match.ledger),
+    ...run.aggregated.map((agg) => agg.ledger),
+    ...run.groups.flatMap((group) => group.ledger),
+    ...run.manual.flatMap((match) => match.ledger),
+  ];
+}
+
+/**
+ * The `limit` closest alternatives for an unmatched item, from both open and already matched transactions on the
+ * other side, with the reasons each one was rejected. Candidates come from the amount and date indexes, so this stays
+ * cheap enough to compute when a reviewer opens an exception.
+ */
+export function findNearMisses(
+  item: Transaction,
+  side: "statement" | "ledger",
+  run: WorkbenchRun,
+  config: EngineConfig,
+  limit = 3,
+): NearMiss[] {
+  const otherSide = side === "statement" ? "ledger" : "statement";
+  const index = createCandidateIndex(allTransactions(run, otherSide));
+  const placed = placements(run);
+  const amountWindow = Math.max(Math.abs(item.amount) * 0.1, config.aggregationAmountTolerance);
+  const pool = new Set([
+    ...index.byAmount(item.amount, item.sign, amountWindow, item.normalizedDate, NEAR_MISS_WINDOW_DAYS),
+    ...index.nearest(item.normalizedDate, item.sign, NEAR_MISS_WINDOW_DAYS, NEAR_MISS_POOL),
+    ...index.byAmount(
+      item.amount,
+      item.sign === "debit" ? "credit" : "debit",
+      config.amountTolerance,
+      item.normalizedDate,
+      NEAR_MISS_WINDOW_DAYS,
+    ),
+  ]);
+
+  return [...pool]
+    .map((candidate) => {
+      const [statement, ledger] = side === "statement" ? [item, candidate] : [candidate, item];
+      const breakdown = explainScore(statement, ledger, config);
+      const failures: string[] = [];
+      const taken = placed.get(`${otherSide}:${candidate.id}`);
+      if (taken) failures.push(`Already ${taken}`);
+      if (!breakdown.sameSign) failures.push(`Opposite sign: ${item.sign} against ${candidate.sign}`);
+      const { amount, date, description } = breakdown.components;
+      if (!amount.passed) failures.push(`Amount ${amount.detail}`);
+      if (!date.passed) failures.push(`Date ${date.detail}`);
+      if (!description.passed) failures.push(`Description ${description.detail}`);
+      if (failures.length === 0) failures.push("Within every tolerance; confirm it with a manual match");
+      return { candidate, breakdown, failures };
+    })
+    .sort((a, b) => b.breakdown.weighted - a.breakdown.weighted)
+    .slice(0, limit);
+}
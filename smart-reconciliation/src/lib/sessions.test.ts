@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { normalizeDataset } from "@/lib/normalization";
+import { reviewKey, type ReviewEntry } from "@/lib/review";
+import {
+  compareSessions,
+  createMemoryAdapter,
+  createSession,
+  duplicateSession,
+  lockSession,
+  saveSession,
+} from "@/lib/sessions";
+import type { EngineRun } from "@/lib/workbench";
+
+/** An exact match and a fuzzy one; the fuzzy match needs a second person's approval before sign-off. */
+function engineRun(): EngineRun {
+  const [invoice, freight] = normalizeDataset(
+    [
+      { id: "S-1", date: "2026-09-03", description: "Invoice 4417 Harbour Freight", amount: "100.00", type: "credit" },
+      { id: "S-2", date: "2026-09-05", description: "HARBOUR FRT 4420", amount: "250.00", type: "credit" },
+    ],
+    "statement",
+  );
+  const [invoiceEntry, freightEntry] = normalizeDataset(
+    [
+      { id: "L-1", date: "2026-09-03", description: "Invoice 4417 Harbour Freight", amount: "100.00", type: "credit" },
+      { id: "L-2", date: "2026-09-04", description: "Invoice 4420 Harbour Freight", amount: "250.00", type: "credit" },
+    ],
+    "ledger",
+  );
+  return {
+    matched: [
+      { statement: invoice, ledger: invoiceEntry, score: 1, type: "exact", reasons: [] },
+      { statement: freight, ledger: freightEntry, score: 0.86, type: "fuzzy", reasons: [] },
+    ],
+    aggregated: [],
+    unmatchedStatements: [],
+    unmatchedLedger: [],
+  };
+}
+
+function september(review: ReviewEntry[] = []) {
+  return createSession({
+    name: "September",
+    period: "2026-09",
+    statementInput: "",
+    ledgerInput: "",
+    config: DEFAULT_ENGINE_CONFIG,
+    run: engineRun(),
+    review,
+  });
+}
+
+const FUZZY = reviewKey(["S-2"], ["L-2"]);
+const APPROVED: ReviewEntry[] = [
+  { id: "r-1", key: FUZZY, action: "accept", user: "Thandi", at: "2026-10-01T09:00:00Z" },
+  { id: "r-2", key: FUZZY, action: "approve", user: "Pieter", at: "2026-10-01T10:00:00Z" },
+];
+
+describe("lockSession", () => {
+  it("signs off a reviewed period", async () => {
+    const session = september(APPROVED);
+    const adapter = createMemoryAdapter([session]);
+
+    const locked = await lockSession(session.id, " Nomsa ", adapter);
+
+    expect(locked.signOff).toMatchObject({ signedOffBy: "Nomsa" });
+    expect((await adapter.get(session.id))?.signOff?.signedOffBy).toBe("Nomsa");
+  });
+
+  it("refuses while a match awaits approval", async () => {
+    const session = september(APPROVED.slice(0, 1));
+    const adapter = createMemoryAdapter([session]);
+
+    await expect(lockSession(session.id, "Nomsa", adapter)).rejects.toThrow(
+      "Review is not complete: 1 matches await approval and 0 are rejected.",
+    );
+    expect((await adapter.get(session.id))?.signOff).toBeNull();
+  });
+
+  it("refuses a blank name, a second sign-off, a session without a run and an unknown session", async () => {
+    const session = september(APPROVED);
+    const unrun = { ...september(), id: "unrun", run: null };
+    const adapter = createMemoryAdapter([session, unrun]);
+    await expect(lockSession(session.id, "  ", adapter)).rejects.toThrow("Enter the name of the person signing off.");
+    await lockSession(session.id, "Nomsa", adapter);
+
+    await expect(lockSession(session.id, "Pieter", adapter)).rejects.toThrow("Period already signed off by Nomsa.");
+    await expect(lockSession("unrun", "Nomsa", adapter)).rejects.toThrow("Run the reconciliation before signing off");
+    await expect(lockSession("missing", "Nomsa", adapter)).rejects.toThrow("Session not found.");
+  });
+});
+
+describe("saveSession", () => {
+  it("saves an open session and refuses to overwrite a locked one", async () => {
+    const session = september(APPROVED);
+    const adapter = createMemoryAdapter([session]);
+    await saveSession({ ...session, name: "September close" }, adapter);
+    expect((await adapter.get(session.id))?.name).toBe("September close");
+
+    const locked = await lockSession(session.id, "Nomsa", adapter);
+
+    await expect(saveSession({ ...locked, signOff: null, decisions: [] }, adapter)).rejects.toThrow(
+      '"September close" was locked by Nomsa and can no longer be changed.',
+    );
+    expect((await adapter.get(session.id))?.signOff?.signedOffBy).toBe("Nomsa");
+  });
+});
+
+describe("duplicateSession", () => {
+  it("copies a locked period into a new, open session", async () => {
+    const session = september(APPROVED);
+    const adapter = createMemoryAdapter([session]);
+    await lockSession(session.id, "Nomsa", adapter);
+
+    const copy = await duplicateSession(session.id, adapter);
+
+    expect(copy).toMatchObject({ name: "September (copy)", period: "2026-09", signOff: null, review: APPROVED });
+    expect(copy.id).not.toBe(session.id);
+    expect(copy.run).toEqual(session.run);
+    await expect(saveSession({ ...copy, name: "September rerun" }, adapter)).resolves.toMatchObject({
+      name: "September rerun",
+    });
+    expect(await adapter.list()).toHaveLength(2);
+  });
+});
+
+describe("compareSessions", () => {
+  it("lists the pairings and settings that differ", () => {
+    const left = september();
+    const run = engineRun();
+    const right = {
+      ...left,
+      config: { ...DEFAULT_ENGINE_CONFIG, descriptionThreshold: 0.9 },
+      run: {
+        ...run,
+        matched: run.matched.slice(0, 1),
+        unmatchedStatements: [run.matched[1].statement],
+        unmatchedLedger: [run.matched[1].ledger],
+      },
+    };
+
+    const comparison = compareSessions(left, right);
+
+    expect(comparison.onlyInLeft).toEqual(["S-2 ⇄ L-2"]);
+    expect(comparison.onlyInRight).toEqual([]);
+    expect(comparison.configChanges).toEqual([{ key: "descriptionThreshold", left: 0.8, right: 0.9 }]);
+    expect(comparison.left?.matched).toBe(2);
+    expect(comparison.right?.matched).toBe(1);
+  });
+
+  it("treats a pair unmatched and re-made by hand as the same pairing", () => {
+    const left = september();
+    const right = {
+      ...left,
+      decisions: [
+        {
+          kind: "unmatch" as const,
+          id: "d-1",
+          statementIds: ["S-2"],
+          ledgerIds: ["L-2"],
+          decidedAt: "2026-10-01T09:00:00Z",
+        },
+        {
+          kind: "match" as const,
+          id: "d-2",
+          statementIds: ["S-2"],
+          ledgerIds: ["L-2"],
+          decidedAt: "2026-10-01T09:05:00Z",
+        },
+      ],
+    };
+
+    expect(compareSessions(left, right)).toMatchObject({ onlyInLeft: [], onlyInRight: [] });
+  });
+});
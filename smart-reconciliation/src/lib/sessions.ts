@@ -0,0 +1,303 @@
+import type { BalanceInputs } from "@/lib/balanceProof";
+import type { CarryForward } from "@/lib/carryForward";
+import type { CategoryOverrides } from "@/lib/categorisation";
+import type { Exclusions } from "@/lib/dataQuality";
+import type { FxSettings } from "@/lib/fx";
+import { buildReviewIndex, reviewCompletion, type ReviewEntry } from "@/lib/review";
+import type { EngineConfig } from "@/lib/types";
+import {
+  applyManualDecisions,
+  summarizeRun,
+  type EngineRun,
+  type ManualDecision,
+  type RunStats,
+} from "@/lib/workbench";
+
+export interface SessionSignOff {
+  signedOffBy: string;
+  signedOffAt: string;
+}
+
+export interface ReconciliationSession {
+  id: string;
+  name: string;
+  period: string;
+  createdAt: string;
+  updatedAt: string;
+  statementInput: string;
+  ledgerInput: string;
+  config: EngineConfig;
+  run: EngineRun | null;
+  decisions: ManualDecision[];
+  balances?: BalanceInputs;
+  fx?: FxSettings;
+  /** Rows the reviewer left out of matching after the data quality check. */
+  exclusions?: Exclusions;
+  /** Open items taken from the previous closed period when the run was made. */
+  carryForward?: CarryForward | null;
+  /** Age in days above which open items are escalated. */
+  escalationDays?: number;
+  /** Maker-checker review of the engine's matches: accepts, rejections, approvals and comments. */
+  review?: ReviewEntry[];
+  /** Categories set by hand in the exceptions list. */
+  categoryOverrides?: CategoryOverrides;
+  signOff: SessionSignOff | null;
+}
+
+/** Storage backend for sessions. IndexedDB is the default; tests and other hosts can supply their own. */
+export interface SessionStorageAdapter {
+  list(): Promise<ReconciliationSession[]>;
+  get(id: string): Promise<ReconciliationSession | null>;
+  put(session: ReconciliationSession): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface SessionComparison {
+  left: RunStats | null;
+  right: RunStats | null;
+  onlyInLeft: string[];
+  onlyInRight: string[];
+  configChanges: { key: keyof EngineConfig; left: ConfigValue; right: ConfigValue }[];
+}
+
+type ConfigValue = EngineConfig[keyof EngineConfig];
+
+const DATABASE_NAME = "smart-reconciliation";
+const STORE_NAME = "sessions";
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+}
+
+export function createIndexedDbAdapter(databaseName = DATABASE_NAME): SessionStorageAdapter {
+  let database: Promise<IDBDatabase> | null = null;
+
+  function open() {
+    if (!database) {
+      if (typeof indexedDB === "undefined") {
+        throw new Error("IndexedDB is not available in this environment.");
+      }
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      database = requestToPromise(request);
+    }
+    return database;
+  }
+
+  async function store(mode: IDBTransactionMode) {
+    const db = await open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  return {
+    async list() {
+      const sessions = await requestToPromise((await store("readonly")).getAll() as IDBRequest<ReconciliationSession[]>);
+      return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+    async get(id) {
+      const session = await requestToPromise((await store("readonly")).get(id) as IDBRequest<ReconciliationSession>);
+      return session ?? null;
+    },
+    async put(session) {
+      await requestToPromise((await store("readwrite")).put(session));
+    },
+    async delete(id) {
+      await requestToPromise((await store("readwrite")).delete(id));
+    },
+  };
+}
+
+export function createMemoryAdapter(initial: ReconciliationSession[] = []): SessionStorageAdapter {
+  const sessions = new Map(initial.map((session) => [session.id, structuredClone(session)]));
+  return {
+    async list() {
+      return [...sessions.values()]
+        .map((session) => structuredClone(session))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+    async get(id) {
+      const session = sessions.get(id);
+      return session ? structuredClone(session) : null;
+    },
+    async put(session) {
+      sessions.set(session.id, structuredClone(session));
+    },
+    async delete(id) {
+      sessions.delete(id);
+    },
+  };
+}
+
+let defaultAdapter: SessionStorageAdapter | null = null;
+
+export function getSessionStorage() {
+  if (!defaultAdapter) {
+    defaultAdapter = createIndexedDbAdapter();
+  }
+  return defaultAdapter;
+}
+
+export function setSessionStorage(adapter: SessionStorageAdapter) {
+  defaultAdapter = adapter;
+}
+
+function createSessionId() {
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function currentPeriod(date = new Date()) {
+  return date.toISOString().slice(0, 7);
+}
+
+export function createSession(
+  input: Pick<ReconciliationSession, "name" | "period" | "statementInput" | "ledgerInput" | "config"> &
+    Partial<
+      Pick<
+        ReconciliationSession,
+        | "run"
+        | "decisions"
+        | "balances"
+        | "fx"
+        | "exclusions"
+        | "carryForward"
+        | "escalationDays"
+        | "review"
+        | "categoryOverrides"
+      >
+    >,
+): ReconciliationSession {
+  const now = new Date().toISOString();
+  return {
+    id: createSessionId(),
+    createdAt: now,
+    updatedAt: now,
+    run: null,
+    decisions: [],
+    signOff: null,
+    ...input,
+  };
+}
+
+export function isLocked(session: Pick<ReconciliationSession, "signOff"> | null | undefined) {
+  return Boolean(session?.signOff);
+}
+
+/** Saves a session, refusing to overwrite a period that has already been signed off. */
+export async function saveSession(session: ReconciliationSession, adapter = getSessionStorage()) {
+  const existing = await adapter.get(session.id);
+  if (existing && isLocked(existing)) {
+    throw new Error(`"${existing.name}" was locked by ${existing.signOff?.signedOffBy} and can no longer be changed.`);
+  }
+  const saved = { ...session, updatedAt: new Date().toISOString() };
+  await adapter.put(saved);
+  return saved;
+}
+
+export async function duplicateSession(id: string, adapter = getSessionStorage()) {
+  const source = await adapter.get(id);
+  if (!source) {
+    throw new Error("Session not found.");
+  }
+  const copy = createSession({
+    name: `${source.name} (copy)`,
+    period: source.period,
+    statementInput: source.statementInput,
+    ledgerInput: source.ledgerInput,
+    config: source.config,
+    run: source.run,
+    decisions: source.decisions,
+    balances: source.balances,
+    fx: source.fx,
+    exclusions: source.exclusions,
+    carryForward: source.carryForward,
+    escalationDays: source.escalationDays,
+    review: source.review,
+    categoryOverrides: source.categoryOverrides,
+  });
+  await adapter.put(copy);
+  return copy;
+}
+
+export async function deleteSession(id: string, adapter = getSessionStorage()) {
+  const existing = await adapter.get(id);
+  if (existing && isLocked(existing)) {
+    throw new Error("Locked sessions are part of the audit trail and cannot be deleted.");
+  }
+  await adapter.delete(id);
+}
+
+/**
+ * Freezes a session and records who signed off the period and when. Every match other than an exact one, manual
+ * matches included, must have been approved by a second person first, and no match may be left rejected.
+ */
+export async function lockSession(id: string, signedOffBy: string, adapter = getSessionStorage()) {
+  const session = await adapter.get(id);
+  if (!session) {
+    throw new Error("Session not found.");
+  }
+  if (isLocked(session)) {
+    throw new Error(`Period already signed off by ${session.signOff?.signedOffBy}.`);
+  }
+  if (!session.run) {
+    throw new Error("Run the reconciliation before signing off the period.");
+  }
+  if (!signedOffBy.trim()) {
+    throw new Error("Enter the name of the person signing off.");
+  }
+  const review = reviewCompletion(
+    buildReviewIndex(applyManualDecisions(session.run, session.decisions), session.review ?? []),
+  );
+  if (!review.complete) {
+    throw new Error(
+      `Review is not complete: ${review.awaitingApproval} matches await approval and ${review.rejected} are rejected.`,
+    );
+  }
+  const locked: ReconciliationSession = {
+    ...session,
+    signOff: { signedOffBy: signedOffBy.trim(), signedOffAt: new Date().toISOString() },
+    updatedAt: new Date().toISOString(),
+  };
+  await adapter.put(locked);
+  return locked;
+}
+
+/** The parts of a session a comparison reads, so unsaved runs (such as two profiles on the same data) compare too. */
+type ComparableRun = Pick<ReconciliationSession, "run" | "decisions" | "config">;
+
+function matchKeys(session: ComparableRun) {
+  if (!session.run) return new Set<string>();
+  const run = applyManualDecisions(session.run, session.decisions);
+  return new Set([
+    ...run.matched.map((match) => `${match.statement.id} ⇄ ${match.ledger.id}`),
+    ...run.aggregated.map((agg) => `${agg.statements.map((tx) => tx.id).join("+")} ⇄ ${agg.ledger.id}`),
+    ...run.groups.map(
+      (group) => `${group.statements.map((tx) => tx.id).join("+")} ⇄ ${group.ledger.map((tx) => tx.id).join("+")}`,
+    ),
+    ...run.manual.map(
+      (match) => `${match.statements.map((tx) => tx.id).join("+")} ⇄ ${match.ledger.map((tx) => tx.id).join("+")}`,
+    ),
+  ]);
+}
+
+export function compareSessions(left: ComparableRun, right: ComparableRun): SessionComparison {
+  const leftKeys = matchKeys(left);
+  const rightKeys = matchKeys(right);
+  const configKeys = Object.keys({ ...left.config, ...right.config }) as (keyof EngineConfig)[];
+
+  return {
+    left: left.run ? summarizeRun(applyManualDecisions(left.run, left.decisions)) : null,
+    right: right.run ? summarizeRun(applyManualDecisions(right.run, right.decisions)) : null,
+    onlyInLeft: [...leftKeys].filter((key) => !rightKeys.has(key)),
+    onlyInRight: [...rightKeys].filter((key) => !leftKeys.has(key)),
+    configChanges: configKeys
+      .filter((key) => left.config[key] !== right.config[key])
+      .map((key) => ({ key, left: left.config[key], right: right.config[key] })),
+  };
+}
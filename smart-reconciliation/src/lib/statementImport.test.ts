@@ -0,0 +1,63 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "@/lib/csv";
+import { DEFAULT_ENGINE_CONFIG } from "@/lib/engineConfig";
+import { toCanonicalCsv } from "@/lib/importMapping";
+import { reconcileTransactions } from "@/lib/matching";
+import { normalizeDataset } from "@/lib/normalization";
+import { detectStatementFormat, parseStatementFile } from "@/lib/statementImport";
+
+function fixture(name: string) {
+  return readFileSync(path.join(__dirname, "fixtures", name), "utf8");
+}
+
+// The three fixtures describe the same September statement, so every parser should read the same lines from them.
+const FIXTURES = [
+  { name: "statement.ofx", format: "ofx", opening: 40000 },
+  { name: "statement.camt053.xml", format: "camt053", opening: 40000 },
+  { name: "statement.mt940", format: "mt940", opening: 40000 },
+] as const;
+
+describe.each(FIXTURES)("parseStatementFile($name)", ({ name, format, opening }) => {
+  const text = fixture(name);
+
+  it("detects the format", () => {
+    expect(detectStatementFormat(text, name)).toBe(format);
+  });
+
+  it("reads the lines, balances and bank metadata", () => {
+    const statement = parseStatementFile(text, name);
+
+    expect(statement).toMatchObject({
+      format,
+      currency: "ZAR",
+      openingBalance: { amount: opening, date: "2026-09-01" },
+      closingBalance: { amount: 52265, date: "2026-09-30" },
+    });
+    expect(statement?.lines[0]).toMatchObject({
+      date: "2026-09-02",
+      amount: "12450.00",
+      type: "credit",
+      bankReference: "EFT778812",
+      valueDate: "2026-09-03",
+    });
+    expect(statement?.lines[0].description).toMatch(/acme trading/i);
+    expect(statement?.lines[1]).toMatchObject({ date: "2026-09-30", amount: "185.00", type: "debit" });
+    expect(statement?.lines[1].description).toMatch(/monthly service fee/i);
+  });
+
+  it("carries the bank reference and value date through the canonical CSV to matching", () => {
+    const lines = parseStatementFile(text, name)?.lines ?? [];
+    const statement = normalizeDataset(parseCsv(toCanonicalCsv(lines), "statement"), "statement");
+    const ledger = normalizeDataset(
+      [{ id: "L-1", date: "2026-09-03", description: "Receipt EFT778812", amount: "12450.00", type: "credit" }],
+      "ledger",
+    );
+    const run = reconcileTransactions(statement, ledger, DEFAULT_ENGINE_CONFIG);
+
+    expect(statement[0]).toMatchObject({ bankReference: "EFT778812", valueDate: "2026-09-03" });
+    expect(run.matched[0]).toMatchObject({ statement: { id: statement[0].id }, ledger: { id: "L-1" }, type: "exact" });
+    expect(run.matched[0].reasons).toContain("Bank reference EFT778812 quoted on the ledger entry");
+  });
+});
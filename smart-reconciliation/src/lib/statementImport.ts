@@ -0,0 +1,100 @@
+import type { CanonicalRow } from "@/lib/importMapping";
+import { parseCamt053 } from "@/lib/camt053";
+import { parseMt940 } from "@/lib/mt940";
+import { parseOfx } from "@/lib/ofx";
+
+export type StatementFormat = "csv" | "ofx" | "camt053" | "mt940";
+
+/**
+ * A statement line in the canonical `parseCsv` shape. `bankReference` and `valueDate` are set when the format carries
+ * them and travel on through the canonical CSV; `bookingDate` is the same as `date`.
+ */
+export interface StatementLine extends CanonicalRow {
+  bookingDate: string;
+}
+
+export interface StatementBalance {
+  amount: number;
+  date: string;
+  currency: string | null;
+}
+
+export interface ParsedStatement {
+  format: Exclude<StatementFormat, "csv">;
+  accountId: string | null;
+  currency: string | null;
+  openingBalance: StatementBalance | null;
+  closingBalance: StatementBalance | null;
+  lines: StatementLine[];
+}
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: "CSV",
+  ofx: "OFX / QFX",
+  camt053: "ISO 20022 CAMT.053",
+  mt940: "SWIFT MT940",
+};
+
+export function detectStatementFormat(text: string, fileName = ""): StatementFormat {
+  const head = text.trimStart().slice(0, 2000);
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  if (/^OFXHEADER/i.test(head) || /<OFX>/i.test(head) || extension === "ofx" || extension === "qfx") {
+    return "ofx";
+  }
+  if (/camt\.053/i.test(head) || /<(?:\w+:)?BkToCstmrStmt\b/.test(text)) {
+    return "camt053";
+  }
+  if (/^:20:/m.test(head) && (/^:60[FM]:/m.test(text) || /^:61:/m.test(text))) {
+    return "mt940";
+  }
+  return "csv";
+}
+
+/** Parses a native bank statement. CSV exports are left to the column-mapping wizard. */
+export function parseStatementFile(text: string, fileName = ""): ParsedStatement | null {
+  const format = detectStatementFormat(text, fileName);
+  if (format === "ofx") return parseOfx(text);
+  if (format === "camt053") return parseCamt053(text);
+  if (format === "mt940") return parseMt940(text);
+  return null;
+}
+
+export function toStatementLine(input: {
+  id: string;
+  bookingDate: string;
+  valueDate?: string | null;
+  description: string;
+  amount: number;
+  bankReference?: string | null;
+}): StatementLine {
+  return {
+    id: input.id,
+    date: input.bookingDate,
+    description: input.description.replace(/\s+/g, " ").trim() || "(no description)",
+    amount: Math.abs(input.amount).toFixed(2),
+    type: input.amount < 0 ? "debit" : "credit",
+    ...(input.bankReference ? { bankReference: input.bankReference } : {}),
+    bookingDate: input.bookingDate,
+    ...(input.valueDate ? { valueDate: input.valueDate } : {}),
+  };
+}
+
+/** Bank references are not always unique (e.g. repeated card references), so suffix any repeats. */
+export function ensureUniqueIds(lines: StatementLine[]) {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    const count = seen.get(line.id) ?? 0;
+    seen.set(line.id, count + 1);
+    return count === 0 ? line : { ...line, id: `${line.id}-${count + 1}` };
+  });
+}
+
+export function decodeXmlEntities(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
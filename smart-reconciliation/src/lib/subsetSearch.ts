@@ -0,0 +1,79 @@
+import type { Transaction } from "@/lib/workbench";
+
+export interface Subset<T extends Transaction = Transaction> {
+  items: T[];
+  /** Sum of the members' absolute amounts. */
+  total: number;
+}
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Every subset of `items` with between `min` and `max` members (the seed counts towards the size). */
+export function subsets<T extends Transaction>(items: T[], min: number, max: number, seed: T[] = []) {
+  const output: Subset<T>[] = [];
+  const visit = (start: number, current: T[], total: number) => {
+    if (current.length >= min) {
+      output.push({ items: current, total: roundCents(total) });
+    }
+    if (current.length === max) return;
+    for (let index = start; index < items.length; index += 1) {
+      visit(index + 1, [...current, items[index]], total + Math.abs(items[index].amount));
+    }
+  };
+  visit(
+    0,
+    seed,
+    seed.reduce((sum, tx) => sum + Math.abs(tx.amount), 0),
+  );
+  return output;
+}
+
+/** Index of the first subset whose total is at least `value`; `sorted` must be ordered by total. */
+export function lowerBound(sorted: Subset[], value: number) {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (sorted[middle].total < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/** Prefers the smaller gap, then the smaller group. */
+export function isBetter(gap: number, size: number, best: { gap: number; size: number } | null) {
+  return !best || gap < best.gap || (gap === best.gap && size < best.size);
+}
+
+/**
+ * Meet-in-the-middle search for between two and `maxSize` candidates that add up to `target` within `tolerance`:
+ * the candidates are split in two halves, every subset sum of each half is enumerated once, and the halves are joined
+ * with a binary search over the sorted sums. That keeps a group size of 8 over 16 candidates at a few thousand sums
+ * instead of the combinatorial blow-up of trying every combination.
+ */
+export function findSubset<T extends Transaction>(target: number, candidates: T[], maxSize: number, tolerance: number) {
+  const middle = Math.ceil(candidates.length / 2);
+  const left = subsets(candidates.slice(0, middle), 0, maxSize).filter((subset) => subset.total <= target + tolerance);
+  const right = subsets(candidates.slice(middle), 0, maxSize)
+    .filter((subset) => subset.total <= target + tolerance)
+    .sort((a, b) => a.total - b.total);
+
+  let best: { items: T[]; total: number; gap: number; size: number } | null = null;
+  for (const half of left) {
+    const from = lowerBound(right, roundCents(target - tolerance - half.total));
+    for (let index = from; index < right.length; index += 1) {
+      const other = right[index];
+      const total = roundCents(half.total + other.total);
+      if (total - target > tolerance) break;
+      const size = half.items.length + other.items.length;
+      if (size < 2 || size > maxSize) continue;
+      const gap = Math.abs(total - target);
+      if (isBetter(gap, size, best)) {
+        best = { items: [...half.items, ...other.items], total, gap, size };
+      }
+    }
+  }
+  return best;
+}
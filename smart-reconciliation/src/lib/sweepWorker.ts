@@ -0,0 +1,83 @@
+import { runSweepRequest, type SweepRequest, type SweepResult } from "@/lib/parameterSweep";
+
+export type SweepWorkerMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; result: SweepResult }
+  | { type: "error"; message: string };
+
+export interface SweepTask {
+  promise: Promise<SweepResult>;
+  /** Stops the worker; the promise rejects with a "cancelled" error. */
+  cancel: () => void;
+}
+
+export const SWEEP_CANCELLED_MESSAGE = "Sweep cancelled.";
+
+/**
+ * Runs a parameter sweep in a Web Worker, one engine run per grid value, so the page stays responsive. Where workers
+ * are unavailable the sweep runs inline on the next tick, and cancelling only discards its result.
+ */
+export function startParameterSweep(
+  request: SweepRequest,
+  onProgress: (done: number, total: number) => void,
+): SweepTask {
+  let settled = false;
+  let rejectTask: (reason: Error) => void = () => {};
+
+  if (typeof Worker === "undefined") {
+    const promise = new Promise<SweepResult>((resolve, reject) => {
+      rejectTask = reject;
+      setTimeout(() => {
+        if (settled) return;
+        try {
+          resolve(runSweepRequest(request, onProgress));
+        } catch (err) {
+          reject(err);
+        } finally {
+          settled = true;
+        }
+      }, 0);
+    });
+    return {
+      promise,
+      cancel: () => {
+        if (settled) return;
+        settled = true;
+        rejectTask(new Error(SWEEP_CANCELLED_MESSAGE));
+      },
+    };
+  }
+
+  const worker = new Worker(new URL("../workers/sweep.worker.ts", import.meta.url));
+  const finish = () => {
+    settled = true;
+    worker.terminate();
+  };
+  const promise = new Promise<SweepResult>((resolve, reject) => {
+    rejectTask = reject;
+    worker.onmessage = (event: MessageEvent<SweepWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress(message.done, message.total);
+        return;
+      }
+      finish();
+      if (message.type === "done") resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The sweep worker failed."));
+    };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      finish();
+      rejectTask(new Error(SWEEP_CANCELLED_MESSAGE));
+    },
+  };
+}
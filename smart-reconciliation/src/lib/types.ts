@@ -0,0 +1,85 @@
+export type TransactionSource = "statement" | "ledger";
+
+/** One row as read from the canonical CSV, before any cleaning. */
+export interface RawTransaction {
+  id: string;
+  date: string;
+  description: string;
+  amount: string;
+  type: string;
+  /** ISO code from the import's optional currency column. */
+  currency?: string;
+  /** The bank's own reference for the line, when the statement format carries one. */
+  bankReference?: string;
+  /** The date the funds were available, when it differs from the booking date in `date`. */
+  valueDate?: string;
+}
+
+/**
+ * A row after normalisation. `amount` is always positive; `sign` says which way the money moved. `normalizedDate` is
+ * ISO `YYYY-MM-DD` and `normalizedDescription` is the lower-case, punctuation-free text the engine compares.
+ * `currency` is the ISO code read at import; without one the row is in the base currency. `bankReference` and
+ * `valueDate` (ISO) come from native statement formats and are only set when the import carried them.
+ */
+export interface NormalizedTransaction {
+  id: string;
+  source: TransactionSource;
+  date: string;
+  normalizedDate: string;
+  description: string;
+  normalizedDescription: string;
+  amount: number;
+  sign: "debit" | "credit";
+  category: string;
+  currency?: string;
+  bankReference?: string;
+  valueDate?: string;
+}
+
+/** Strength of each signal behind an engine score, between 0 and 1, before weighting. */
+export interface ScoreComponents {
+  amount: number;
+  date: number;
+  description: number;
+}
+
+export interface MatchResult {
+  statement: NormalizedTransaction;
+  ledger: NormalizedTransaction;
+  /** Weighted score between 0 and 1. */
+  score: number;
+  /** The signals `score` was weighted from; set on the engine's exact and fuzzy matches. */
+  components?: ScoreComponents;
+  /** `rule` matches were made by a user matching rule ahead of the engine, not by its exact or fuzzy pass. */
+  type: "exact" | "fuzzy" | "rule";
+  reasons: string[];
+}
+
+/** Several statement lines that together settle one ledger entry. */
+export interface AggregationResult {
+  ledger: NormalizedTransaction;
+  statements: NormalizedTransaction[];
+  total: number;
+  difference: number;
+  reasons: string[];
+}
+
+export interface ReconciliationRun {
+  matched: MatchResult[];
+  aggregated: AggregationResult[];
+  unmatchedStatements: NormalizedTransaction[];
+  unmatchedLedger: NormalizedTransaction[];
+}
+
+export interface EngineConfig {
+  /** Largest gap, in days, between the statement and ledger dates of a pair. */
+  dateToleranceDays: number;
+  /** Smallest description similarity (0–1) a fuzzy match needs. */
+  descriptionThreshold: number;
+  /** Largest amount difference, in rand, of a one-to-one match. */
+  amountTolerance: number;
+  /** Largest amount difference, in rand, between an aggregation's total and its ledger entry. */
+  aggregationAmountTolerance: number;
+  /** Most transactions, counting both sides, in one aggregation. */
+  aggregationMaxGroupSize: number;
+}
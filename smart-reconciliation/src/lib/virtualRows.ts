@@ -0,0 +1,49 @@
+import { useState, type UIEvent } from "react";
+
+/** Lists at or below this length render in full; virtualising them only costs scroll fidelity. */
+const VIRTUALISE_ABOVE = 100;
+const VIEWPORT_HEIGHT = 512;
+const OVERSCAN = 8;
+
+export interface VirtualRows<T> {
+  /** Whether the list is windowed; the caller then renders it inside a scroll container of `viewportHeight`. */
+  enabled: boolean;
+  rows: { item: T; index: number }[];
+  /** Heights in pixels of the spacers that stand in for the rows above and below the window. */
+  before: number;
+  after: number;
+  viewportHeight: number;
+  onScroll: (event: UIEvent<HTMLElement>) => void;
+}
+
+/**
+ * Windows a long list to the rows visible in its scroll container, assuming rows of roughly `rowHeight` pixels.
+ * With 100k transactions the exception lists and match table would otherwise mount hundreds of thousands of nodes.
+ */
+export function useVirtualRows<T>(items: T[], rowHeight: number): VirtualRows<T> {
+  const [scrollTop, setScrollTop] = useState(0);
+  const enabled = items.length > VIRTUALISE_ABOVE;
+  const onScroll = (event: UIEvent<HTMLElement>) => setScrollTop(event.currentTarget.scrollTop);
+
+  if (!enabled) {
+    return {
+      enabled,
+      rows: items.map((item, index) => ({ item, index })),
+      before: 0,
+      after: 0,
+      viewportHeight: VIEWPORT_HEIGHT,
+      onScroll,
+    };
+  }
+
+  const start = Math.min(Math.max(Math.floor(scrollTop / rowHeight) - OVERSCAN, 0), items.length);
+  const end = Math.min(Math.ceil((scrollTop + VIEWPORT_HEIGHT) / rowHeight) + OVERSCAN, items.length);
+  return {
+    enabled,
+    rows: items.slice(start, end).map((item, offset) => ({ item, index: start + offset })),
+    before: start * rowHeight,
+    after: (items.length - end) * rowHeight,
+    viewportHeight: VIEWPORT_HEIGHT,
+    onScroll,
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDataset } from "@/lib/normalization";
+import type { RawTransaction } from "@/lib/types";
+import { applyManualDecisions, sumAmounts, type EngineRun, type ManualDecision } from "@/lib/workbench";
+
+const decidedAt = "2026-09-30T10:00:00.000Z";
+
+function openRun(statement: RawTransaction[], ledger: RawTransaction[]): EngineRun {
+  return {
+    matched: [],
+    aggregated: [],
+    unmatchedStatements: normalizeDataset(statement, "statement"),
+    unmatchedLedger: normalizeDataset(ledger, "ledger"),
+  };
+}
+
+describe("sumAmounts", () => {
+  it("nets debits against credits", () => {
+    const lines = normalizeDataset(
+      [
+        { id: "S-1", date: "2026-09-01", description: "Deposit", amount: "500.00", type: "credit" },
+        { id: "S-2", date: "2026-09-01", description: "Bank charges", amount: "15.00", type: "debit" },
+      ],
+      "statement",
+    );
+
+    expect(sumAmounts(lines)).toBe(485);
+  });
+});
+
+describe("applyManualDecisions", () => {
+  const run = openRun(
+    [
+      { id: "S-1", date: "2026-09-01", description: "Deposit Acme", amount: "500.00", type: "credit" },
+      { id: "S-2", date: "2026-09-01", description: "Bank charges", amount: "15.00", type: "debit" },
+    ],
+    [{ id: "L-1", date: "2026-09-01", description: "Acme receipt net of charges", amount: "485.00", type: "credit" }],
+  );
+
+  it("balances a deposit and its charges against the net ledger entry without a reason code", () => {
+    const decision: ManualDecision = {
+      kind: "match",
+      id: "d-1",
+      statementIds: ["S-1", "S-2"],
+      ledgerIds: ["L-1"],
+      decidedAt,
+    };
+    const next = applyManualDecisions(run, [decision]);
+
+    expect(next.staleDecisions).toEqual([]);
+    expect(next.manual[0]).toMatchObject({ statementTotal: 485, ledgerTotal: 485, difference: 0 });
+    expect(next.unmatchedStatements).toHaveLength(0);
+  });
+
+  it("keeps a decision that no longer fits the run in the log as stale instead of failing the replay", () => {
+    const decisions: ManualDecision[] = [
+      { kind: "unmatch", id: "d-1", statementIds: ["S-9"], ledgerIds: ["L-9"], decidedAt },
+      { kind: "match", id: "d-2", statementIds: ["S-1"], ledgerIds: ["L-1"], reasonCode: "bank-charges", decidedAt },
+    ];
+    const next = applyManualDecisions(run, decisions);
+
+    expect(next.decisions).toEqual(decisions);
+    expect(next.staleDecisions.map((entry) => entry.decision.id)).toEqual(["d-1"]);
+    expect(next.staleDecisions[0].reason).toMatch(/L-9/);
+    expect(next.manual.map((match) => match.id)).toEqual(["d-2"]);
+  });
+
+  it("restores a suggested match when its unmatch is undone", () => {
+    const matchedRun: EngineRun = {
+      ...run,
+      matched: [
+        {
+          statement: run.unmatchedStatements[0],
+          ledger: run.unmatchedLedger[0],
+          score: 0.8,
+          type: "fuzzy",
+          reasons: [],
+        },
+      ],
+      unmatchedStatements: [run.unmatchedStatements[1]],
+      unmatchedLedger: [],
+    };
+    const unmatch: ManualDecision = {
+      kind: "unmatch",
+      id: "d-1",
+      statementIds: ["S-1"],
+      ledgerIds: ["L-1"],
+      decidedAt,
+    };
+
+    expect(applyManualDecisions(matchedRun, [unmatch]).matched).toHaveLength(0);
+    expect(applyManualDecisions(matchedRun, []).matched).toHaveLength(1);
+  });
+
+  it("only breaks an aggregation when it still settles the ledger entry with the same statement lines", () => {
+    const aggregatedRun: EngineRun = {
+      ...run,
+      aggregated: [
+        {
+          ledger: run.unmatchedLedger[0],
+          statements: [run.unmatchedStatements[0]],
+          total: 500,
+          difference: 15,
+          reasons: [],
+        },
+      ],
+      unmatchedStatements: [run.unmatchedStatements[1]],
+      unmatchedLedger: [],
+    };
+    const unmatch = (statementIds: string[]): ManualDecision => ({
+      kind: "unmatch",
+      id: "d-1",
+      statementIds,
+      ledgerIds: ["L-1"],
+      decidedAt,
+    });
+
+    const stale = applyManualDecisions(aggregatedRun, [unmatch(["S-1", "S-2"])]);
+    expect(stale.aggregated).toHaveLength(1);
+    expect(stale.staleDecisions.map((entry) => entry.decision.id)).toEqual(["d-1"]);
+
+    expect(applyManualDecisions(aggregatedRun, [unmatch(["S-1"])]).aggregated).toHaveLength(0);
+  });
+});
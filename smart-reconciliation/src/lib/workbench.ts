@@ -0,0 +1,349 @@
+import type { EngineConfig, ReconciliationRun } from "@/lib/types";
+
+/**
+ * A normalised transaction. `originPeriod` is set on open items carried forward from a closed period and names the
+ * period they first appeared in.
+ */
+export type Transaction = ReconciliationRun["unmatchedStatements"][number] & {
+  originPeriod?: string;
+};
+export type EngineMatch = ReconciliationRun["matched"][number];
+export type EngineAggregation = ReconciliationRun["aggregated"][number];
+
+/**
+ * A bundle the engine's statement-side aggregation cannot express: one statement line settling several ledger
+ * entries, or several statement lines settling several ledger entries.
+ */
+export interface GroupAggregation {
+  id: string;
+  direction: "one-to-many" | "many-to-many";
+  statements: Transaction[];
+  ledger: Transaction[];
+  statementTotal: number;
+  ledgerTotal: number;
+  difference: number;
+  reasons: string[];
+}
+
+/** The conversion behind a match between a foreign-currency statement line and a ledger entry booked in ZAR. */
+export interface FxMatch {
+  statementId: string;
+  ledgerId: string;
+  currency: string;
+  foreignAmount: number;
+  rate: number;
+  rateDate: string;
+  convertedAmount: number;
+  bookedAmount: number;
+  /** Realised gain (positive) or loss (negative) in the base currency. */
+  gainLoss: number;
+}
+
+/** Engine output extended with the groups found by the aggregation stage and the FX stage's conversions. */
+export interface EngineRun extends ReconciliationRun {
+  groups?: GroupAggregation[];
+  fx?: FxMatch[];
+  /** Rows left out of matching from the Data Quality panel, kept for the audit trail. */
+  excluded?: { statement: Transaction[]; ledger: Transaction[] };
+  /** The engine settings the run was made with. */
+  config?: EngineConfig;
+}
+
+export const DIFFERENCE_REASON_CODES = [
+  { code: "timing", label: "Timing difference" },
+  { code: "bank-charges", label: "Bank charges deducted" },
+  { code: "rounding", label: "Rounding" },
+  { code: "short-payment", label: "Short / over payment" },
+  { code: "fx", label: "Exchange rate difference" },
+  { code: "other", label: "Other (see note)" },
+] as const;
+
+export type DifferenceReasonCode = (typeof DIFFERENCE_REASON_CODES)[number]["code"];
+
+export type ManualDecision =
+  | {
+      kind: "match";
+      id: string;
+      statementIds: string[];
+      ledgerIds: string[];
+      reasonCode?: DifferenceReasonCode;
+      note?: string;
+      decidedAt: string;
+    }
+  | {
+      kind: "unmatch";
+      id: string;
+      statementIds: string[];
+      ledgerIds: string[];
+      decidedAt: string;
+    }
+  | {
+      kind: "accept-difference";
+      id: string;
+      ledgerId: string;
+      reasonCode: DifferenceReasonCode;
+      note?: string;
+      decidedAt: string;
+    };
+
+export interface ManualMatch {
+  id: string;
+  type: "manual";
+  statements: Transaction[];
+  ledger: Transaction[];
+  statementTotal: number;
+  ledgerTotal: number;
+  difference: number;
+  reasonCode?: DifferenceReasonCode;
+  reasons: string[];
+}
+
+export interface AcceptedDifference {
+  ledgerId: string;
+  reasonCode: DifferenceReasonCode;
+  note?: string;
+  decidedAt: string;
+}
+
+/** A logged decision that no longer applies to the run it is replayed on, e.g. after a re-run with other settings. */
+export interface StaleDecision {
+  decision: ManualDecision;
+  reason: string;
+}
+
+export interface WorkbenchRun extends ReconciliationRun {
+  groups: GroupAggregation[];
+  /** The FX stage's conversions, carried over from the engine run. */
+  fx?: FxMatch[];
+  manual: ManualMatch[];
+  acceptedDifferences: AcceptedDifference[];
+  decisions: ManualDecision[];
+  /** Decisions skipped on replay; they stay in the log until the reviewer removes them. */
+  staleDecisions: StaleDecision[];
+}
+
+export interface RunStats {
+  totalStatement: number;
+  totalLedger: number;
+  matched: number;
+  aggregated: number;
+  manual: number;
+  unmatchedStatement: number;
+  unmatchedLedger: number;
+  coverage: number;
+}
+
+const CENT = 0.005;
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Net of the transactions, credits positive and debits negative, so mixed-sign selections offset each other. */
+export function sumAmounts(transactions: Transaction[]) {
+  return roundCents(
+    transactions.reduce((total, tx) => total + (tx.sign === "debit" ? -1 : 1) * Math.abs(tx.amount), 0),
+  );
+}
+
+/** Total size of the transactions regardless of sign, for totals shown against a count. */
+export function sumMagnitudes(transactions: Transaction[]) {
+  return roundCents(transactions.reduce((total, tx) => total + Math.abs(tx.amount), 0));
+}
+
+export function describeReasonCode(code: DifferenceReasonCode) {
+  return DIFFERENCE_REASON_CODES.find((entry) => entry.code === code)?.label ?? code;
+}
+
+function findByIds(pool: Transaction[], ids: string[], side: string) {
+  return ids.map((id) => {
+    const tx = pool.find((entry) => entry.id === id);
+    if (!tx) {
+      throw new Error(`${side} ${id} is no longer an open exception.`);
+    }
+    return tx;
+  });
+}
+
+/**
+ * Validates a manual pairing before it is recorded. Manual matches may be one-to-one or many-to-one in either
+ * direction, and any non-zero difference must carry a reason code.
+ */
+export function validateManualMatch(
+  statements: Transaction[],
+  ledger: Transaction[],
+  reasonCode?: DifferenceReasonCode,
+) {
+  if (statements.length === 0 || ledger.length === 0) {
+    throw new Error("Select at least one statement line and one ledger entry to match.");
+  }
+  if (statements.length > 1 && ledger.length > 1) {
+    throw new Error("Manual matches must be one-to-one or many-to-one. Split the selection into separate matches.");
+  }
+  const difference = roundCents(sumAmounts(statements) - sumAmounts(ledger));
+  if (Math.abs(difference) > CENT && !reasonCode) {
+    throw new Error("The selection does not balance. Choose a reason code to accept the difference.");
+  }
+  return difference;
+}
+
+function applyMatch(run: WorkbenchRun, decision: Extract<ManualDecision, { kind: "match" }>) {
+  const statements = findByIds(run.unmatchedStatements, decision.statementIds, "Statement");
+  const ledger = findByIds(run.unmatchedLedger, decision.ledgerIds, "Ledger entry");
+  const difference = validateManualMatch(statements, ledger, decision.reasonCode);
+  run.unmatchedStatements = run.unmatchedStatements.filter((tx) => !statements.includes(tx));
+  run.unmatchedLedger = run.unmatchedLedger.filter((tx) => !ledger.includes(tx));
+  const reasons = [`Manually matched on ${decision.decidedAt.slice(0, 10)}`];
+  if (decision.reasonCode && Math.abs(difference) > CENT) {
+    reasons.push(`Difference of ${difference.toFixed(2)} accepted: ${describeReasonCode(decision.reasonCode)}`);
+  }
+  if (decision.note) {
+    reasons.push(decision.note);
+  }
+  run.manual.push({
+    id: decision.id,
+    type: "manual",
+    statements,
+    ledger,
+    statementTotal: sumAmounts(statements),
+    ledgerTotal: sumAmounts(ledger),
+    difference,
+    reasonCode: decision.reasonCode,
+    reasons,
+  });
+}
+
+/** Whether `transactions` are exactly the entries named by `ids`, in any order. */
+function hasIds(transactions: Transaction[], ids: string[]) {
+  return transactions.length === ids.length && transactions.every((tx) => ids.includes(tx.id));
+}
+
+function applyUnmatch(run: WorkbenchRun, decision: Extract<ManualDecision, { kind: "unmatch" }>) {
+  const [ledgerId] = decision.ledgerIds;
+  const matchIndex = run.matched.findIndex(
+    (match) => match.ledger.id === ledgerId && decision.statementIds.includes(match.statement.id),
+  );
+  if (matchIndex !== -1) {
+    const [match] = run.matched.splice(matchIndex, 1);
+    run.unmatchedStatements.push(match.statement);
+    run.unmatchedLedger.push(match.ledger);
+    return;
+  }
+
+  const aggregationIndex = run.aggregated.findIndex(
+    (agg) => agg.ledger.id === ledgerId && hasIds(agg.statements, decision.statementIds),
+  );
+  if (aggregationIndex !== -1) {
+    const [agg] = run.aggregated.splice(aggregationIndex, 1);
+    run.unmatchedStatements.push(...agg.statements);
+    run.unmatchedLedger.push(agg.ledger);
+    run.acceptedDifferences = run.acceptedDifferences.filter((entry) => entry.ledgerId !== ledgerId);
+    return;
+  }
+
+  const groupIndex = run.groups.findIndex(
+    (group) => group.ledger.some((tx) => tx.id === ledgerId) && hasIds(group.statements, decision.statementIds),
+  );
+  if (groupIndex !== -1) {
+    const [group] = run.groups.splice(groupIndex, 1);
+    run.unmatchedStatements.push(...group.statements);
+    run.unmatchedLedger.push(...group.ledger);
+    run.acceptedDifferences = run.acceptedDifferences.filter((entry) => entry.ledgerId !== group.ledger[0].id);
+    return;
+  }
+
+  throw new Error(`No suggested match found for ledger entry ${ledgerId}.`);
+}
+
+function applyAcceptDifference(run: WorkbenchRun, decision: Extract<ManualDecision, { kind: "accept-difference" }>) {
+  const agg =
+    run.aggregated.find((entry) => entry.ledger.id === decision.ledgerId) ??
+    run.groups.find((group) => group.ledger[0].id === decision.ledgerId);
+  if (!agg) {
+    throw new Error(`No aggregation found for ledger entry ${decision.ledgerId}.`);
+  }
+  run.acceptedDifferences = run.acceptedDifferences.filter((entry) => entry.ledgerId !== decision.ledgerId);
+  run.acceptedDifferences.push({
+    ledgerId: decision.ledgerId,
+    reasonCode: decision.reasonCode,
+    note: decision.note,
+    decidedAt: decision.decidedAt,
+  });
+}
+
+/**
+ * Replays the bookkeeper's decisions on top of an engine run. The engine output is never mutated, so the same
+ * decision log can be re-applied after a re-run or when a saved session is reopened. A decision that no longer fits
+ * the run, such as unmatching a pairing the re-run did not make, is skipped and listed in `staleDecisions`.
+ */
+export function applyManualDecisions(run: EngineRun, decisions: ManualDecision[]): WorkbenchRun {
+  const next: WorkbenchRun = {
+    ...run,
+    matched: [...run.matched],
+    aggregated: [...run.aggregated],
+    groups: [...(run.groups ?? [])],
+    unmatchedStatements: [...run.unmatchedStatements],
+    unmatchedLedger: [...run.unmatchedLedger],
+    manual: [],
+    acceptedDifferences: [],
+    decisions,
+    staleDecisions: [],
+  };
+
+  for (const decision of decisions) {
+    try {
+      if (decision.kind === "match") {
+        applyMatch(next, decision);
+      } else if (decision.kind === "unmatch") {
+        applyUnmatch(next, decision);
+      } else {
+        applyAcceptDifference(next, decision);
+      }
+    } catch (err) {
+      next.staleDecisions.push({
+        decision,
+        reason: err instanceof Error ? err.message : "The decision no longer applies.",
+      });
+    }
+  }
+
+  return next;
+}
+
+/** A one-line summary of a logged decision, for the decision list. */
+export function describeDecision(decision: ManualDecision) {
+  if (decision.kind === "match") {
+    return `Matched ${decision.statementIds.join(", ")} ⇄ ${decision.ledgerIds.join(", ")}`;
+  }
+  if (decision.kind === "unmatch") {
+    return `Unmatched ${decision.statementIds.join(", ")} ⇄ ${decision.ledgerIds.join(", ")}`;
+  }
+  return `Accepted the difference on ${decision.ledgerId}: ${describeReasonCode(decision.reasonCode)}`;
+}
+
+export function createDecisionId() {
+  return `decision-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function summarizeRun(run: WorkbenchRun): RunStats {
+  const manualStatements = run.manual.reduce((total, match) => total + match.statements.length, 0);
+  const manualLedger = run.manual.reduce((total, match) => total + match.ledger.length, 0);
+  const aggregatedStatements =
+    run.aggregated.reduce((total, agg) => total + agg.statements.length, 0) +
+    run.groups.reduce((total, group) => total + group.statements.length, 0);
+  const aggregatedLedger = run.aggregated.length + run.groups.reduce((total, group) => total + group.ledger.length, 0);
+  const totalStatement = run.matched.length + aggregatedStatements + manualStatements + run.unmatchedStatements.length;
+  const totalLedger = run.matched.length + aggregatedLedger + manualLedger + run.unmatchedLedger.length;
+  const coveredLedger = run.matched.length + aggregatedLedger + manualLedger;
+
+  return {
+    totalStatement,
+    totalLedger,
+    matched: run.matched.length,
+    aggregated: run.aggregated.length + run.groups.length,
+    manual: run.manual.length,
+    unmatchedStatement: run.unmatchedStatements.length,
+    unmatchedLedger: run.unmatchedLedger.length,
+    coverage: totalLedger === 0 ? 0 : (coveredLedger / totalLedger) * 100,
+  };
+}
@@ -0,0 +1,15 @@
+import { runPipeline, type PipelineInput } from "@/lib/pipeline";
+import type { ReconcileWorkerMessage } from "@/lib/reconcileWorker";
+
+function post(message: ReconcileWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<PipelineInput>) => {
+  try {
+    const result = runPipeline(event.data, (stage, fraction) => post({ type: "progress", stage, fraction }));
+    post({ type: "done", result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Unexpected error during reconciliation." });
+  }
+};
@@ -0,0 +1,15 @@
+import { runSweepRequest, type SweepRequest } from "@/lib/parameterSweep";
+import type { SweepWorkerMessage } from "@/lib/sweepWorker";
+
+function post(message: SweepWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<SweepRequest>) => {
+  try {
+    const result = runSweepRequest(event.data, (done, total) => post({ type: "progress", done, total }));
+    post({ type: "done", result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Unable to run the sweep." });
+  }
+};